@@ -1,36 +1,109 @@
-import React, { useState, useCallback, useRef } from 'react';
-import type { Post, StructuredText } from './types';
-import { generateInitialPosts, editImage as editImageAPI } from './services/geminiService';
-import { fileToBase64 } from './utils/fileUtils';
+import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
+import type { BrandKit, CaptionRegenerationOptions, OutputLanguage, Platform, Post, PostLayout, PostsProjectData, Project, StructuredText } from './types';
+import type { BulkBriefRow } from './utils/bulkBrief';
+import { generateInitialPosts, regenerateCaptions as regenerateCaptionsAPI, translatePost, editImage as editImageAPI, editImageRegion as editImageRegionAPI, isAbortError } from './services/geminiService';
+import { fileToBase64, downloadBlob, fitImageToAspectRatio, FitMode } from './utils/fileUtils';
+import { createCarouselZip } from './utils/exportUtils';
+import { addVersion, selectVersion } from './utils/postVersions';
+import { DEFAULT_BRAND_KIT_ID, findBrandKit, loadBrandKits, saveBrandKits } from './utils/brandKit';
+import { DEFAULT_OUTPUT_LANGUAGE, getLanguageCode, LOCALES, type Locale } from './utils/i18n';
+import { DEFAULT_PLATFORM, PLATFORM_PRESETS, PLATFORMS, platformForAspectRatio } from './utils/platformPresets';
+import { startCalendarDispatcher } from './services/contentCalendar';
 import PostCard from './components/PostCard';
 import Spinner from './components/Spinner';
+import QueueStatus from './components/QueueStatus';
 import SparklesIcon from './components/icons/SparklesIcon';
 import ImageEditor from './components/ImageEditor';
 import ImageGenerator from './components/ImageGenerator';
+import ComicCreator from './components/ComicCreator';
+import VideoCreator from './components/VideoCreator';
 import RemoveIcon from './components/icons/RemoveIcon';
+import DownloadIcon from './components/icons/DownloadIcon';
+import BrandKitManager from './components/BrandKitManager';
+import ProjectList from './components/ProjectList';
+import ContentCalendar from './components/ContentCalendar';
+import BulkCreator from './components/BulkCreator';
+import AutosaveIndicator from './components/AutosaveIndicator';
+import OutputLanguagePicker from './components/OutputLanguagePicker';
+import { useProjectAutosave } from './hooks/useProjectAutosave';
+import { useHashRoute } from './hooks/useHashRoute';
+import { useI18n } from './hooks/useI18n';
 
 type PostType = 'single' | 'carousel';
-type ActiveTab = 'creator' | 'editor' | 'generator';
+type ActiveTab = 'creator' | 'editor' | 'generator' | 'comic' | 'video' | 'projects' | 'calendar' | 'bulk';
+
+const TAB_PATHS: Record<ActiveTab, string> = {
+    creator: '/posts',
+    editor: '/editor',
+    generator: '/gerador',
+    comic: '/quadrinhos',
+    video: '/video',
+    projects: '/projetos',
+    calendar: '/calendario',
+    bulk: '/lote',
+};
 
 const VISUAL_STYLES = ['Moderno', 'Tech', 'Dark', 'Vibrante', 'Elegante', 'Natureza', 'Realismo', 'Anime'];
 
+/** Agrupa cada post original com as suas traduções, na ordem em que os idiomas foram escolhidos. */
+const groupTranslations = (posts: Post[]): Post[][] =>
+    posts.filter(post => !post.translationOf).map(original => [original, ...posts.filter(post => post.translationOf === original.id)]);
+
 const App: React.FC = () => {
+    const { locale, t, setLocale } = useI18n();
     const [prompt, setPrompt] = useState<string>('');
     const [postType, setPostType] = useState<PostType>('single');
+    const [platform, setPlatform] = useState<Platform>(DEFAULT_PLATFORM);
+    const [fitMode, setFitMode] = useState<FitMode>('crop');
     const [includeCaption, setIncludeCaption] = useState<boolean>(true);
+    const [outputLanguages, setOutputLanguages] = useState<OutputLanguage[]>([DEFAULT_OUTPUT_LANGUAGE]);
     const [posts, setPosts] = useState<Post[] | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
-    const [activeTab, setActiveTab] = useState<ActiveTab>('creator');
+    const [activeTab, setActiveTab] = useHashRoute<ActiveTab>(TAB_PATHS, 'creator');
     const [uploadedImage, setUploadedImage] = useState<{ base64: string; dataUrl: string; mimeType: string } | null>(null);
     const imageCreatorInputRef = useRef<HTMLInputElement>(null);
     const [visualStyle, setVisualStyle] = useState<string>('Moderno');
+    const [exportingCarouselLanguage, setExportingCarouselLanguage] = useState<OutputLanguage | null>(null);
+    const [brandKits, setBrandKits] = useState<BrandKit[]>(loadBrandKits);
+    const [selectedBrandKitId, setSelectedBrandKitId] = useState<string>(DEFAULT_BRAND_KIT_ID);
+    const [projectId, setProjectId] = useState<string | null>(null);
+    const [editProjectId, setEditProjectId] = useState<string | null>(null);
+    const [comicProjectId, setComicProjectId] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const generationControllerRef = useRef<AbortController | null>(null);
+
+    const { aspectRatio } = PLATFORM_PRESETS[platform];
+
+    // Os posts agendados são publicados em qualquer aba, não só com o calendário aberto.
+    useEffect(() => {
+        startCalendarDispatcher();
+    }, []);
+
+    const projectData = useMemo<PostsProjectData>(() => ({
+        prompt,
+        visualStyle,
+        postType,
+        aspectRatio,
+        platform,
+        uploadedImage: uploadedImage ? { base64: uploadedImage.base64, mimeType: uploadedImage.mimeType } : null,
+        posts: posts ?? [],
+        outputLanguages,
+    }), [prompt, visualStyle, postType, aspectRatio, platform, uploadedImage, posts, outputLanguages]);
+    const autosaveStatus = useProjectAutosave('posts', projectId, prompt.trim().slice(0, 60) || t.app.untitledProject, projectData);
+
+    const postGroups = useMemo(() => posts ? groupTranslations(posts) : [], [posts]);
+    // Idiomas presentes no resultado; com mais de um, o carrossel é exportado por idioma.
+    const postLanguages = useMemo(
+        () => [...new Set((posts ?? []).map(post => post.language ?? DEFAULT_OUTPUT_LANGUAGE))],
+        [posts],
+    );
 
     const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
         if (file) {
             if (!file.type.startsWith('image/')) {
-                setError('Por favor, envie um arquivo de imagem válido (PNG, JPG, etc.).');
+                setError(t.common.invalidImageFile);
                 return;
             }
             setError(null);
@@ -40,7 +113,7 @@ const App: React.FC = () => {
                 setUploadedImage({ base64, dataUrl, mimeType: file.type });
             } catch (e) {
                 console.error("Error processing file:", e);
-                setError("Ocorreu um erro ao processar sua imagem.");
+                setError(t.app.processImageFailed);
             }
         }
     };
@@ -59,44 +132,99 @@ const App: React.FC = () => {
 
     const handleGeneratePosts = async () => {
         if (!prompt.trim() && !uploadedImage) {
-            setError('Por favor, insira um comando ou envie uma imagem.');
+            setError(t.common.promptOrImageRequired);
             return;
         }
+        const controller = new AbortController();
+        generationControllerRef.current = controller;
         setIsLoading(true);
         setError(null);
-        setPosts(null);
+        setNotice(null);
+        // Os posts atuais ficam até o novo resultado chegar: limpá-los aqui faria o salvamento
+        // automático gravar um projeto vazio, perdido de vez se a geração falhar ou for cancelada.
         try {
             const styleInstruction = `com um estilo visual ${visualStyle}`;
             const enhancedPrompt = prompt.trim() ? `${prompt.trim()} ${styleInstruction}` : styleInstruction;
-            const imagePayload = uploadedImage ? { base64: uploadedImage.base64, mimeType: uploadedImage.mimeType } : undefined;
-            const generatedPosts = await generateInitialPosts(enhancedPrompt, postType, imagePayload, includeCaption);
-            setPosts(generatedPosts);
+            const imagePayload = uploadedImage
+                ? await fitImageToAspectRatio(uploadedImage.base64, uploadedImage.mimeType, aspectRatio, fitMode)
+                : undefined;
+            const [originalLanguage, ...translationLanguages] = outputLanguages;
+            const generatedPosts = await generateInitialPosts(enhancedPrompt, postType, imagePayload, includeCaption, aspectRatio, originalLanguage, controller.signal);
+            // O Imagen não gera 4:5 nativamente (usa 3:4), então ajustamos o resultado à proporção escolhida.
+            const fittedPosts = await Promise.all(generatedPosts.map(async post => {
+                const fitted = await fitImageToAspectRatio(post.image, post.imageMimeType, aspectRatio, 'crop');
+                return { ...post, image: fitted.base64, imageMimeType: fitted.mimeType, brandKitId: selectedBrandKitId, platform };
+            }));
+            // As traduções reaproveitam a imagem; uma tradução que falha não descarta os posts já gerados.
+            const translations = controller.signal.aborted || !includeCaption ? [] : await Promise.allSettled(
+                fittedPosts.flatMap(post => translationLanguages.map(language => translatePost(post, language, controller.signal))),
+            );
+            const translatedPosts = translations.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+            setPosts([...fittedPosts, ...translatedPosts]);
+            setProjectId(currentId => currentId ?? crypto.randomUUID());
+            if (controller.signal.aborted) {
+                setNotice(t.app.generationCancelledKept(fittedPosts.length));
+            } else if (translatedPosts.length < translations.length) {
+                setNotice(t.app.translationsFailed);
+            }
         } catch (e) {
+            if (isAbortError(e)) {
+                setNotice(t.app.generationCancelled);
+                return;
+            }
             console.error(e);
-            const errorMessage = e instanceof Error ? e.message : 'Falha ao gerar os posts. Por favor, tente novamente.';
+            const errorMessage = e instanceof Error ? e.message : t.app.generatePostsFailed;
             setError(errorMessage);
         } finally {
             setIsLoading(false);
         }
     };
 
-    const handleImageEdit = useCallback(async (postId: string, editPrompt: string): Promise<void> => {
+    const handleCancelGeneration = () => generationControllerRef.current?.abort();
+
+    const handleImageEdit = useCallback(async (postId: string, editPrompt: string, maskBase64?: string): Promise<void> => {
         const postToEdit = posts?.find(p => p.id === postId);
         if (!postToEdit) return;
 
         try {
-            const newImageBase64 = await editImageAPI(postToEdit.image, postToEdit.imageMimeType, editPrompt);
+            // Com máscara, só a área pintada muda e o resultado volta como PNG.
+            const newImageBase64 = maskBase64
+                ? await editImageRegionAPI(postToEdit.image, postToEdit.imageMimeType, editPrompt, maskBase64)
+                : await editImageAPI(postToEdit.image, postToEdit.imageMimeType, editPrompt);
+            const newMimeType = maskBase64 ? 'image/png' : postToEdit.imageMimeType;
+            const fitted = postToEdit.aspectRatio
+                ? await fitImageToAspectRatio(newImageBase64, newMimeType, postToEdit.aspectRatio, 'crop')
+                : { base64: newImageBase64, mimeType: newMimeType };
             setPosts(currentPosts => 
                 currentPosts?.map(p => 
-                    p.id === postId ? { ...p, image: newImageBase64 } : p
+                    p.id === postId ? addVersion(p, fitted.base64, fitted.mimeType, editPrompt) : p
                 ) || null
             );
         } catch (e) {
             console.error(e);
-            const errorMessage = e instanceof Error ? e.message : 'Falha ao editar a imagem. Por favor, tente novamente.';
+            const errorMessage = e instanceof Error ? e.message : t.app.editImageFailed;
             alert(errorMessage);
         }
-    }, [posts]);
+    }, [posts, t]);
+
+    const handleRegenerateCaptions = useCallback(async (postId: string, options: CaptionRegenerationOptions): Promise<void> => {
+        const postToCaption = posts?.find(p => p.id === postId);
+        if (!postToCaption) return;
+
+        try {
+            const newTexts = await regenerateCaptionsAPI(postToCaption, options);
+            // As opções anteriores continuam disponíveis; a primeira nova passa a ser a ativa.
+            setPosts(currentPosts =>
+                currentPosts?.map(p =>
+                    p.id === postId && newTexts.length > 0 ? { ...p, texts: [...p.texts, ...newTexts], activeTextIndex: p.texts.length } : p
+                ) || null
+            );
+        } catch (e) {
+            console.error(e);
+            const errorMessage = e instanceof Error ? e.message : t.app.regenerateCaptionsFailed;
+            alert(errorMessage);
+        }
+    }, [posts, t]);
 
     const handleCaptionChange = useCallback((postId: string, newIndex: number) => {
         setPosts(currentPosts => 
@@ -106,7 +234,7 @@ const App: React.FC = () => {
         );
     }, []);
     
-    const handleCaptionPartChange = useCallback((postId: string, part: keyof StructuredText, value: string) => {
+    const handleCaptionPartChange = useCallback(<K extends keyof StructuredText>(postId: string, part: K, value: StructuredText[K]) => {
         setPosts(currentPosts =>
             currentPosts?.map(p => {
                 if (p.id === postId && p.texts[p.activeTextIndex]) {
@@ -120,6 +248,115 @@ const App: React.FC = () => {
         );
     }, []);
 
+    const handleVersionChange = useCallback((postId: string, versionId: string) => {
+        setPosts(currentPosts =>
+            currentPosts?.map(p =>
+                p.id === postId ? selectVersion(p, versionId) : p
+            ) || null
+        );
+    }, []);
+
+    const handleLayoutChange = useCallback((postId: string, layout: PostLayout) => {
+        setPosts(currentPosts =>
+            currentPosts?.map(p =>
+                p.id === postId ? { ...p, layout } : p
+            ) || null
+        );
+    }, []);
+
+    // Um logo grande pode estourar a cota do localStorage; o kit continua valendo nesta sessão.
+    const persistBrandKits = useCallback((kits: BrandKit[]) => {
+        try {
+            saveBrandKits(kits);
+        } catch (e) {
+            console.error("Failed to save brand kits:", e);
+            alert(t.brandKit.saveFailed);
+        }
+    }, [t]);
+
+    const handleSaveBrandKit = useCallback((kit: BrandKit) => {
+        const exists = brandKits.some(k => k.id === kit.id);
+        const updatedKits = exists ? brandKits.map(k => k.id === kit.id ? kit : k) : [...brandKits, kit];
+        setBrandKits(updatedKits);
+        persistBrandKits(updatedKits);
+    }, [brandKits, persistBrandKits]);
+
+    const handleDeleteBrandKit = useCallback((kitId: string) => {
+        if (!window.confirm(t.app.deleteBrandKitConfirm)) return;
+        const updatedKits = brandKits.filter(k => k.id !== kitId);
+        setBrandKits(updatedKits);
+        persistBrandKits(updatedKits);
+        setSelectedBrandKitId(DEFAULT_BRAND_KIT_ID);
+    }, [brandKits, persistBrandKits, t]);
+
+    const handleExportCarousel = async (language: OutputLanguage) => {
+        const carouselPosts = posts?.filter(post => (post.language ?? DEFAULT_OUTPUT_LANGUAGE) === language) ?? [];
+        if (carouselPosts.length === 0 || exportingCarouselLanguage) return;
+        setExportingCarouselLanguage(language);
+        try {
+            const zipBlob = await createCarouselZip(carouselPosts, brandKits);
+            const languageSuffix = postLanguages.length > 1 ? `-${language.toLowerCase()}` : '';
+            downloadBlob(zipBlob, `genius-post-carrossel-${carouselPosts[0].id.substring(0, 8)}${languageSuffix}.zip`);
+        } catch (e) {
+            console.error("Failed to export carousel:", e);
+            alert(t.app.exportCarouselFailed);
+        } finally {
+            setExportingCarouselLanguage(null);
+        }
+    };
+
+    const handleNewProject = () => {
+        handleRemoveImage();
+        setPrompt('');
+        setPosts(null);
+        setError(null);
+        setNotice(null);
+        setProjectId(null);
+    };
+
+    /** Leva uma linha gerada em lote para o criador, como um projeto novo, para ajustes e agendamento. */
+    const handleOpenBulkRow = (brief: BulkBriefRow, rowPosts: Post[]) => {
+        handleRemoveImage();
+        setPrompt(brief.prompt);
+        setVisualStyle(brief.visualStyle);
+        setPostType(brief.postType);
+        setPlatform(brief.platform);
+        setPosts(rowPosts);
+        setError(null);
+        setNotice(null);
+        setProjectId(crypto.randomUUID());
+        setActiveTab('creator');
+    };
+
+    const handleOpenProject = (project: Project) => {
+        switch (project.kind) {
+            case 'posts': {
+                const { data } = project;
+                setPrompt(data.prompt);
+                setVisualStyle(data.visualStyle);
+                setPostType(data.postType);
+                setPlatform(data.platform ?? platformForAspectRatio(data.aspectRatio));
+                setOutputLanguages(data.outputLanguages ?? [DEFAULT_OUTPUT_LANGUAGE]);
+                setUploadedImage(data.uploadedImage
+                    ? { ...data.uploadedImage, dataUrl: `data:${data.uploadedImage.mimeType};base64,${data.uploadedImage.base64}` }
+                    : null);
+                setPosts(data.posts.length > 0 ? data.posts : null);
+                setError(null);
+                setProjectId(project.id);
+                setActiveTab('creator');
+                break;
+            }
+            case 'image-edit':
+                setEditProjectId(project.id);
+                setActiveTab('editor');
+                break;
+            case 'comic':
+                setComicProjectId(project.id);
+                setActiveTab('comic');
+                break;
+        }
+    };
+
     const renderTabButton = (tab: ActiveTab, label: string) => (
          <button onClick={() => setActiveTab(tab)} className={`py-3 px-6 text-lg font-medium transition-colors duration-300 ${activeTab === tab ? 'text-orange-400 border-b-2 border-orange-400' : 'text-gray-400 hover:text-white'}`}>
             {label}
@@ -129,49 +366,71 @@ const App: React.FC = () => {
     return (
         <div className="bg-gray-900 min-h-screen text-white font-sans">
             <div className="container mx-auto px-4 py-8">
-                <header className="text-center mb-10">
+                <header className="relative text-center mb-10">
+                    <select
+                        value={locale}
+                        onChange={e => setLocale(e.target.value as Locale)}
+                        aria-label={t.languages.interface}
+                        className="absolute right-0 top-0 bg-gray-800 text-gray-300 text-sm p-2 rounded-lg border border-gray-700 focus:border-orange-500"
+                    >
+                        {LOCALES.map(({ id, label }) => <option key={id} value={id}>{label}</option>)}
+                    </select>
                     <h1 className="text-4xl md:text-5xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-orange-400 to-orange-600">
-                        GÊNIO POST
+                        {t.app.title}
                     </h1>
                     <p className="text-gray-400 mt-2 text-lg">
-                        Crie e Edite Conteúdo Profissional para Redes Sociais com um Simples Comando
+                        {t.app.subtitle}
                     </p>
                 </header>
 
                 <div className="max-w-5xl mx-auto mb-12">
                      <div className="flex justify-center border-b border-gray-700 mb-8 flex-wrap">
-                        {renderTabButton('creator', 'Criador de Posts')}
-                        {renderTabButton('editor', 'Editor de Imagens')}
-                        {renderTabButton('generator', 'Gerador de Imagens')}
+                        {renderTabButton('creator', t.app.tabs.creator)}
+                        {renderTabButton('editor', t.app.tabs.editor)}
+                        {renderTabButton('generator', t.app.tabs.generator)}
+                        {renderTabButton('comic', t.app.tabs.comic)}
+                        {renderTabButton('video', t.app.tabs.video)}
+                        {renderTabButton('bulk', t.app.tabs.bulk)}
+                        {renderTabButton('projects', t.app.tabs.projects)}
+                        {renderTabButton('calendar', t.app.tabs.calendar)}
                     </div>
 
-                    {activeTab === 'creator' && (
+                    {/* As abas ficam montadas (apenas ocultas) para não perder o trabalho em andamento ao alternar. */}
+                    <div className={activeTab === 'creator' ? '' : 'hidden'}>
                         <div className="bg-gray-800 p-6 rounded-2xl shadow-2xl">
+                           {projectId && (
+                                <div className="flex items-center justify-between mb-4">
+                                    <button onClick={handleNewProject} className="text-sm text-orange-400 hover:text-orange-300 font-semibold">
+                                        {t.common.newProject}
+                                    </button>
+                                    <AutosaveIndicator status={autosaveStatus} />
+                                </div>
+                           )}
                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-start">
                                 <div>
-                                    <h3 className="text-lg font-semibold text-gray-300 mb-2">1. Descreva seu post</h3>
+                                    <h3 className="text-lg font-semibold text-gray-300 mb-2">{t.app.describePost}</h3>
                                     <textarea
                                         value={prompt}
                                         onChange={(e) => setPrompt(e.target.value)}
-                                        placeholder="Ex: Anúncio da inauguração de uma nova cafeteria vegana... ou envie uma imagem e descreva o post."
+                                        placeholder={t.app.promptPlaceholder}
                                         className="w-full bg-gray-700 text-white p-4 rounded-lg border-2 border-gray-600 focus:border-orange-500 focus:ring-orange-500 transition-colors duration-300 h-40 resize-none"
                                     />
                                 </div>
                                 <div>
-                                    <h3 className="text-lg font-semibold text-gray-300 mb-2">2. Envie uma imagem (Opcional)</h3>
+                                    <h3 className="text-lg font-semibold text-gray-300 mb-2">{t.app.uploadOptional}</h3>
                                     <input type="file" accept="image/*" onChange={handleImageUpload} className="hidden" ref={imageCreatorInputRef} />
                                     {uploadedImage ? (
                                         <div className="relative group">
-                                            <img src={uploadedImage.dataUrl} alt="Preview" className="w-full h-40 object-cover rounded-lg" />
-                                            <button onClick={handleRemoveImage} className="absolute top-2 right-2 bg-black bg-opacity-60 text-white p-1.5 rounded-full hover:bg-opacity-80 transition-all opacity-0 group-hover:opacity-100" aria-label="Remover imagem">
+                                            <img src={uploadedImage.dataUrl} alt={t.app.uploadedImageAlt} className="w-full h-40 object-cover rounded-lg" />
+                                            <button onClick={handleRemoveImage} className="absolute top-2 right-2 bg-black bg-opacity-60 text-white p-1.5 rounded-full hover:bg-opacity-80 transition-all opacity-0 group-hover:opacity-100" aria-label={t.common.removeImage}>
                                                 <RemoveIcon />
                                             </button>
                                         </div>
                                     ) : (
                                         <div onClick={triggerImageUpload} className="flex flex-col items-center justify-center w-full h-40 border-2 border-dashed border-gray-600 rounded-lg text-center cursor-pointer hover:border-orange-500 hover:bg-gray-700/50 transition-colors">
                                             <svg className="w-10 h-10 text-gray-500 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
-                                            <p className="font-semibold text-white">Clique para enviar</p>
-                                            <p className="text-xs text-gray-400">Ou a IA irá gerar uma para você</p>
+                                            <p className="font-semibold text-white">{t.common.clickToUpload}</p>
+                                            <p className="text-xs text-gray-400">{t.app.uploadHint}</p>
                                         </div>
                                     )}
                                 </div>
@@ -185,10 +444,49 @@ const App: React.FC = () => {
                                                 onClick={() => setPostType(type)}
                                                 className={`px-4 py-2 rounded-full text-sm font-semibold transition-all duration-300 ${postType === type ? 'bg-orange-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}
                                             >
-                                                {type === 'single' ? 'Post Único' : 'Carrossel'}
+                                                {t.app.postTypes[type]}
                                             </button>
                                         ))}
                                     </div>
+                                    <div className="w-full max-w-xl">
+                                        <h3 className="text-lg font-semibold text-gray-100 mb-3 text-center">{t.app.platform}</h3>
+                                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                                            {PLATFORMS.map(option => {
+                                                const preset = PLATFORM_PRESETS[option];
+                                                return (
+                                                    <button
+                                                        key={option}
+                                                        onClick={() => setPlatform(option)}
+                                                        className={`w-full text-center p-2 rounded-lg border-2 transition-colors duration-300 ${
+                                                            platform === option
+                                                            ? 'bg-orange-600/30 border-orange-500 text-white'
+                                                            : 'bg-gray-700 border-gray-600 text-gray-300 hover:border-gray-500'
+                                                        }`}
+                                                    >
+                                                        <span className="block text-sm font-medium">{t.platforms[option]}</span>
+                                                        <span className="block text-xs text-gray-400">{t.app.platformSize(preset.aspectRatio, preset.size.width, preset.size.height)}</span>
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    </div>
+                                    {uploadedImage && (
+                                        <div className="flex items-center gap-3 text-sm text-gray-300">
+                                            <span>{t.app.fitLabel}</span>
+                                            {(['crop', 'pad'] as FitMode[]).map(mode => (
+                                                <label key={mode} className="flex items-center gap-1.5 cursor-pointer select-none">
+                                                    <input
+                                                        type="radio"
+                                                        name="fit-mode"
+                                                        checked={fitMode === mode}
+                                                        onChange={() => setFitMode(mode)}
+                                                        className="text-orange-600 focus:ring-orange-500 bg-gray-700"
+                                                    />
+                                                    {t.app.fitModes[mode]}
+                                                </label>
+                                            ))}
+                                        </div>
+                                    )}
                                     <div className="flex items-center gap-2">
                                         <input 
                                             type="checkbox" 
@@ -197,11 +495,16 @@ const App: React.FC = () => {
                                             onChange={(e) => setIncludeCaption(e.target.checked)}
                                             className="h-5 w-5 rounded border-gray-300 text-orange-600 focus:ring-orange-500 bg-gray-700"
                                         />
-                                        <label htmlFor="include-caption" className="text-sm text-gray-300 select-none">Incluir legenda de IA</label>
+                                        <label htmlFor="include-caption" className="text-sm text-gray-300 select-none">{t.app.includeCaption}</label>
                                     </div>
+                                    {includeCaption && (
+                                        <div className="w-full max-w-xl">
+                                            <OutputLanguagePicker selected={outputLanguages} onChange={setOutputLanguages} multiple disabled={isLoading} />
+                                        </div>
+                                    )}
                                     
                                     <div className="w-full max-w-xl">
-                                        <h3 className="text-lg font-semibold text-gray-100 mb-3 text-center">Estilo Visual</h3>
+                                        <h3 className="text-lg font-semibold text-gray-100 mb-3 text-center">{t.app.visualStyle}</h3>
                                         <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
                                             {VISUAL_STYLES.map(style => (
                                                 <button
@@ -213,12 +516,20 @@ const App: React.FC = () => {
                                                         : 'bg-gray-700 border-gray-600 text-gray-300 hover:border-gray-500'
                                                     }`}
                                                 >
-                                                    {style}
+                                                    {t.visualStyles[style] ?? style}
                                                 </button>
                                             ))}
                                         </div>
                                     </div>
                                     
+                                    <BrandKitManager
+                                        kits={brandKits}
+                                        selectedKitId={selectedBrandKitId}
+                                        onSelect={setSelectedBrandKitId}
+                                        onSave={handleSaveBrandKit}
+                                        onDelete={handleDeleteBrandKit}
+                                    />
+
                                     <div className="w-full pt-4">
                                         <button
                                             onClick={handleGeneratePosts}
@@ -226,44 +537,119 @@ const App: React.FC = () => {
                                             className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-orange-500 to-orange-600 text-white font-bold py-3 px-6 rounded-full hover:from-orange-600 hover:to-orange-700 transition-all duration-300 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
                                         >
                                             <SparklesIcon />
-                                            {isLoading ? 'Gerando...' : 'Gerar Posts'}
+                                            {isLoading ? t.common.generating : t.app.generatePosts}
                                         </button>
+                                        {isLoading && (
+                                            <button
+                                                onClick={handleCancelGeneration}
+                                                className="w-full mt-3 text-gray-300 font-semibold py-3 px-6 rounded-full border border-gray-600 hover:bg-gray-700 transition-colors"
+                                            >
+                                                {t.common.cancel}
+                                            </button>
+                                        )}
                                     </div>
                                 </div>
                             </div>
                         </div>
-                    )}
+                    </div>
                 </div>
 
-                {activeTab === 'creator' && (
-                    <>
+                <div className={activeTab === 'creator' ? '' : 'hidden'}>
                         {error && <p className="text-center text-red-400 mt-4">{error}</p>}
+                        {notice && <p className="text-center text-gray-400 mt-4 mb-6">{notice}</p>}
                         
                         {isLoading && (
                             <div className="text-center py-10">
                                 <Spinner />
-                                <p className="mt-4 text-gray-300">Criando seu conteúdo... isso pode levar um momento.</p>
+                                <p className="mt-4 text-gray-300">{t.app.creatingContent}</p>
+                                <div className="mt-1"><QueueStatus /></div>
                             </div>
                         )}
 
-                        {posts && (
+                        {!isLoading && postGroups.length > 1 && (
+                            <div className="flex flex-wrap justify-end gap-3 mb-6">
+                                {postLanguages.map(language => (
+                                    <button
+                                        key={language}
+                                        onClick={() => handleExportCarousel(language)}
+                                        disabled={exportingCarouselLanguage !== null}
+                                        className="flex items-center gap-2 bg-green-600 text-white font-semibold py-2 px-5 rounded-full hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        {exportingCarouselLanguage === language ? <Spinner /> : <DownloadIcon />}
+                                        {exportingCarouselLanguage === language
+                                            ? t.common.exporting
+                                            : postLanguages.length > 1 ? t.app.exportCarouselIn(getLanguageCode(language)) : t.app.exportCarousel}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
+                        {!isLoading && posts && postLanguages.length <= 1 && (
                              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
                                 {posts.map(post => (
                                     <PostCard 
                                         key={post.id} 
                                         post={post} 
+                                        brandKit={findBrandKit(brandKits, post.brandKitId)}
                                         onImageEdit={handleImageEdit}
                                         onCaptionChange={handleCaptionChange}
+                                        onRegenerateCaptions={handleRegenerateCaptions}
                                         onCaptionPartChange={handleCaptionPartChange}
+                                        onLayoutChange={handleLayoutChange}
+                                        onVersionChange={handleVersionChange}
                                     />
                                 ))}
                             </div>
                         )}
-                    </>
-                )}
 
-                {activeTab === 'editor' && <ImageEditor />}
-                {activeTab === 'generator' && <ImageGenerator />}
+                        {/* Com vários idiomas, cada linha mostra um post e as suas traduções lado a lado. */}
+                        {!isLoading && posts && postLanguages.length > 1 && (
+                            <div className="space-y-10">
+                                {postGroups.map(group => (
+                                    <div key={group[0].id} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                                        {group.map(post => (
+                                            <PostCard
+                                                key={post.id}
+                                                post={post}
+                                                brandKit={findBrandKit(brandKits, post.brandKitId)}
+                                                onImageEdit={handleImageEdit}
+                                                onCaptionChange={handleCaptionChange}
+                                                onRegenerateCaptions={handleRegenerateCaptions}
+                                                onCaptionPartChange={handleCaptionPartChange}
+                                                onLayoutChange={handleLayoutChange}
+                                                onVersionChange={handleVersionChange}
+                                                showLanguage
+                                            />
+                                        ))}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                </div>
+
+                <div className={activeTab === 'editor' ? '' : 'hidden'}>
+                    <ImageEditor projectId={editProjectId} onProjectIdChange={setEditProjectId} />
+                </div>
+                <div className={activeTab === 'generator' ? '' : 'hidden'}>
+                    <ImageGenerator />
+                </div>
+                <div className={activeTab === 'comic' ? '' : 'hidden'}>
+                    <ComicCreator projectId={comicProjectId} onProjectIdChange={setComicProjectId} />
+                </div>
+                <div className={activeTab === 'video' ? '' : 'hidden'}>
+                    <VideoCreator />
+                </div>
+                <div className={activeTab === 'bulk' ? '' : 'hidden'}>
+                    <BulkCreator
+                        brandKits={brandKits}
+                        brandKitId={selectedBrandKitId}
+                        language={outputLanguages[0]}
+                        onOpen={handleOpenBulkRow}
+                    />
+                </div>
+                {/* A lista não guarda trabalho em andamento e é recarregada do IndexedDB a cada visita. */}
+                {activeTab === 'projects' && <ProjectList onOpen={handleOpenProject} />}
+                {activeTab === 'calendar' && <ContentCalendar />}
             </div>
         </div>
     );
@@ -0,0 +1,15 @@
+import React from 'react';
+import type { AutosaveStatus } from '../hooks/useProjectAutosave';
+import { useI18n } from '../hooks/useI18n';
+
+const AutosaveIndicator: React.FC<{ status: AutosaveStatus }> = ({ status }) => {
+    const { t } = useI18n();
+    if (status === 'idle') return null;
+    return (
+        <span className={`text-xs ${status === 'error' ? 'text-red-400' : 'text-gray-400'}`}>
+            {t.autosave[status]}
+        </span>
+    );
+};
+
+export default AutosaveIndicator;
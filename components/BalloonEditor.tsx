@@ -0,0 +1,211 @@
+import React, { useRef, useState } from 'react';
+import type { Balloon, BalloonKind, OutputLanguage } from '../types';
+import { BALLOON_KINDS, createBalloon } from '../utils/comicBalloons';
+import BalloonLayer from './BalloonLayer';
+import { useI18n } from '../hooks/useI18n';
+
+interface BalloonEditorProps {
+    imageDataUrl: string;
+    balloons: Balloon[];
+    onSave: (balloons: Balloon[]) => void;
+    onClose: () => void;
+    language?: OutputLanguage; // idioma dos diálogos, para a verificação ortográfica
+}
+
+type DragMode = 'move' | 'resize' | 'tail';
+
+interface DragState {
+    mode: DragMode;
+    balloonId: string;
+    startX: number;
+    startY: number;
+    original: Balloon;
+}
+
+const MIN_WIDTH = 0.1;
+const MIN_HEIGHT = 0.06;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Aplica o arraste (em frações do quadro) ao balão, mantendo-o dentro do quadro. */
+const applyDrag = (balloon: Balloon, mode: DragMode, dx: number, dy: number): Balloon => {
+    switch (mode) {
+        case 'move': {
+            const x = clamp(balloon.x + dx, 0, 1 - balloon.width);
+            const y = clamp(balloon.y + dy, 0, 1 - balloon.height);
+            // O rabicho acompanha o balão.
+            return {
+                ...balloon,
+                x,
+                y,
+                tailX: clamp(balloon.tailX + (x - balloon.x), 0, 1),
+                tailY: clamp(balloon.tailY + (y - balloon.y), 0, 1),
+            };
+        }
+        case 'resize':
+            return {
+                ...balloon,
+                width: clamp(balloon.width + dx, MIN_WIDTH, 1 - balloon.x),
+                height: clamp(balloon.height + dy, MIN_HEIGHT, 1 - balloon.y),
+            };
+        case 'tail':
+            return { ...balloon, tailX: clamp(balloon.tailX + dx, 0, 1), tailY: clamp(balloon.tailY + dy, 0, 1) };
+    }
+};
+
+const BalloonEditor: React.FC<BalloonEditorProps> = ({ imageDataUrl, balloons: initialBalloons, onSave, onClose, language = 'pt-BR' }) => {
+    const { t } = useI18n();
+    const stageRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<DragState | null>(null);
+    const textAreaRef = useRef<HTMLTextAreaElement>(null);
+    const [balloons, setBalloons] = useState<Balloon[]>(initialBalloons);
+    const [selectedId, setSelectedId] = useState<string | null>(initialBalloons[0]?.id ?? null);
+
+    const selectedBalloon = balloons.find(balloon => balloon.id === selectedId) ?? null;
+
+    const updateBalloon = (id: string, changes: Partial<Balloon>) => {
+        setBalloons(current => current.map(balloon => balloon.id === id ? { ...balloon, ...changes } : balloon));
+    };
+
+    const startDrag = (e: React.PointerEvent<HTMLElement>, balloon: Balloon, mode: DragMode) => {
+        if (e.button !== 0) return;
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setSelectedId(balloon.id);
+        dragRef.current = { mode, balloonId: balloon.id, startX: e.clientX, startY: e.clientY, original: balloon };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        const stage = stageRef.current;
+        if (!drag || !stage) return;
+        const rect = stage.getBoundingClientRect();
+        const dx = (e.clientX - drag.startX) / rect.width;
+        const dy = (e.clientY - drag.startY) / rect.height;
+        const updated = applyDrag(drag.original, drag.mode, dx, dy);
+        setBalloons(current => current.map(balloon => balloon.id === drag.balloonId ? updated : balloon));
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+    };
+
+    const handleAdd = (kind: BalloonKind) => {
+        const balloon = createBalloon(kind, '', balloons.length);
+        setBalloons(current => [...current, balloon]);
+        setSelectedId(balloon.id);
+        requestAnimationFrame(() => textAreaRef.current?.focus());
+    };
+
+    const handleDelete = () => {
+        if (!selectedId) return;
+        setBalloons(current => current.filter(balloon => balloon.id !== selectedId));
+        setSelectedId(null);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+            <div className="bg-gray-800 rounded-2xl p-6 shadow-2xl flex flex-col gap-4 max-w-full max-h-full overflow-auto">
+                <h3 className="text-xl font-bold text-white text-center">{t.balloonEditor.title}</h3>
+                <div className="flex flex-col md:flex-row gap-6">
+                    <div
+                        ref={stageRef}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={handlePointerUp}
+                        onPointerDown={() => setSelectedId(null)}
+                        className="relative aspect-square rounded-lg overflow-hidden select-none touch-none bg-gray-900"
+                        style={{ width: 'min(80vw, 65vh)' }}
+                    >
+                        <img src={imageDataUrl} alt={t.balloonEditor.panelAlt} className="absolute inset-0 w-full h-full object-cover pointer-events-none" draggable={false} />
+                        <BalloonLayer balloons={balloons} />
+                        {balloons.map(balloon => {
+                            const isSelected = balloon.id === selectedId;
+                            return (
+                                <React.Fragment key={balloon.id}>
+                                    <div
+                                        onPointerDown={e => startDrag(e, balloon, 'move')}
+                                        onDoubleClick={() => textAreaRef.current?.focus()}
+                                        className={`absolute cursor-move rounded ${isSelected ? 'border-2 border-dashed border-orange-500' : 'hover:border-2 hover:border-dashed hover:border-orange-300'}`}
+                                        style={{
+                                            left: `${balloon.x * 100}%`,
+                                            top: `${balloon.y * 100}%`,
+                                            width: `${balloon.width * 100}%`,
+                                            height: `${balloon.height * 100}%`,
+                                        }}
+                                        aria-label={t.balloonEditor.balloon(balloon.text)}
+                                    >
+                                        {isSelected && (
+                                            <div
+                                                onPointerDown={e => startDrag(e, balloon, 'resize')}
+                                                className="absolute -right-2 -bottom-2 w-4 h-4 bg-orange-500 border-2 border-white rounded-sm cursor-nwse-resize"
+                                                aria-label={t.balloonEditor.resize}
+                                            />
+                                        )}
+                                    </div>
+                                    {isSelected && balloon.kind !== 'caption' && (
+                                        <div
+                                            onPointerDown={e => startDrag(e, balloon, 'tail')}
+                                            className="absolute w-4 h-4 -ml-2 -mt-2 bg-orange-500 border-2 border-white rounded-full cursor-crosshair"
+                                            style={{ left: `${balloon.tailX * 100}%`, top: `${balloon.tailY * 100}%` }}
+                                            aria-label={t.balloonEditor.moveTail}
+                                        />
+                                    )}
+                                </React.Fragment>
+                            );
+                        })}
+                    </div>
+
+                    <div className="w-full md:w-64 flex flex-col gap-4">
+                        <div>
+                            <h4 className="text-sm font-semibold text-gray-300 mb-2">{t.balloonEditor.add}</h4>
+                            <div className="flex flex-wrap gap-2">
+                                {BALLOON_KINDS.map(kind => (
+                                    <button key={kind} onClick={() => handleAdd(kind)} className="px-3 py-1.5 rounded-full text-sm font-semibold bg-gray-700 text-gray-200 hover:bg-gray-600">
+                                        + {t.balloonKinds[kind]}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        {selectedBalloon ? (
+                            <div className="flex flex-col gap-3">
+                                <h4 className="text-sm font-semibold text-gray-300">{t.balloonEditor.selected}</h4>
+                                <div className="flex flex-wrap gap-1 bg-gray-700 rounded-full p-1">
+                                    {BALLOON_KINDS.map(kind => (
+                                        <button
+                                            key={kind}
+                                            onClick={() => updateBalloon(selectedBalloon.id, { kind })}
+                                            className={`flex-1 px-2 py-1 rounded-full text-xs font-semibold ${selectedBalloon.kind === kind ? 'bg-orange-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}
+                                        >
+                                            {t.balloonKinds[kind]}
+                                        </button>
+                                    ))}
+                                </div>
+                                <textarea
+                                    ref={textAreaRef}
+                                    value={selectedBalloon.text}
+                                    onChange={e => updateBalloon(selectedBalloon.id, { text: e.target.value })}
+                                    placeholder={t.balloonEditor.textPlaceholder}
+                                    lang={language}
+                                    spellCheck
+                                    className="w-full bg-gray-700 text-white p-3 rounded-lg border-2 border-gray-600 focus:border-orange-500 h-28 resize-none"
+                                />
+                                <button onClick={handleDelete} className="text-sm text-red-400 hover:text-red-300 font-semibold self-start">
+                                    {t.balloonEditor.delete}
+                                </button>
+                            </div>
+                        ) : (
+                            <p className="text-sm text-gray-400">{t.balloonEditor.hint}</p>
+                        )}
+                    </div>
+                </div>
+                <div className="flex justify-end gap-3 pt-2">
+                    <button onClick={onClose} className="py-2 px-5 bg-gray-600 text-white font-semibold rounded-full hover:bg-gray-500 transition-colors">{t.common.cancel}</button>
+                    <button onClick={() => onSave(balloons)} className="py-2 px-5 bg-orange-600 text-white font-semibold rounded-full hover:bg-orange-700 transition-colors">{t.balloonEditor.save}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BalloonEditor;
@@ -0,0 +1,36 @@
+import React, { useEffect, useRef } from 'react';
+import type { Balloon } from '../types';
+import { drawBalloons, ensureComicFontLoaded } from '../utils/comicBalloons';
+
+// Resolução interna da camada; o canvas é escalado pelo CSS para o tamanho do quadro.
+const LAYER_SIZE = 1024;
+
+/**
+ * Camada de balões sobre um quadro quadrado. Usa o mesmo desenho da exportação,
+ * então o que aparece na tela é exatamente o que vai para o PNG.
+ */
+const BalloonLayer: React.FC<{ balloons: Balloon[] }> = ({ balloons }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        let isCancelled = false;
+        ensureComicFontLoaded().then(() => {
+            const ctx = canvasRef.current?.getContext('2d');
+            if (isCancelled || !ctx) return;
+            ctx.clearRect(0, 0, LAYER_SIZE, LAYER_SIZE);
+            drawBalloons(ctx, balloons, 0, 0, LAYER_SIZE);
+        });
+        return () => { isCancelled = true; };
+    }, [balloons]);
+
+    return (
+        <canvas
+            ref={canvasRef}
+            width={LAYER_SIZE}
+            height={LAYER_SIZE}
+            className="absolute inset-0 w-full h-full pointer-events-none"
+        />
+    );
+};
+
+export default BalloonLayer;
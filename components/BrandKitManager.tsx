@@ -0,0 +1,142 @@
+import React, { useState, useRef } from 'react';
+import type { BrandKit } from '../types';
+import { BRAND_FONTS, DEFAULT_BRAND_KIT, DEFAULT_BRAND_KIT_ID } from '../utils/brandKit';
+import { fileToBase64 } from '../utils/fileUtils';
+import RemoveIcon from './icons/RemoveIcon';
+import { useI18n } from '../hooks/useI18n';
+
+interface BrandKitManagerProps {
+    kits: BrandKit[];
+    selectedKitId: string;
+    onSelect: (kitId: string) => void;
+    onSave: (kit: BrandKit) => void;
+    onDelete: (kitId: string) => void;
+}
+
+const BrandKitManager: React.FC<BrandKitManagerProps> = ({ kits, selectedKitId, onSelect, onSave, onDelete }) => {
+    const { t } = useI18n();
+    const [draft, setDraft] = useState<BrandKit | null>(null);
+    const logoInputRef = useRef<HTMLInputElement>(null);
+
+    const selectedKit = kits.find(kit => kit.id === selectedKitId) ?? DEFAULT_BRAND_KIT;
+    const isDefaultSelected = selectedKit.id === DEFAULT_BRAND_KIT_ID;
+
+    const handleNewKit = () => {
+        setDraft({ ...DEFAULT_BRAND_KIT, id: crypto.randomUUID(), name: t.brandKit.newKitName });
+    };
+
+    const handleLogoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file || !draft) return;
+        if (!file.type.startsWith('image/')) {
+            alert(t.common.invalidImageFile);
+            return;
+        }
+        try {
+            const base64 = await fileToBase64(file);
+            setDraft({ ...draft, logo: { base64, mimeType: file.type } });
+        } catch (e) {
+            console.error("Failed to read logo:", e);
+            alert(t.brandKit.logoFailed);
+        }
+    };
+
+    const handleSaveDraft = () => {
+        if (!draft) return;
+        onSave({ ...draft, name: draft.name.trim() || t.brandKit.unnamedKit });
+        onSelect(draft.id);
+        setDraft(null);
+    };
+
+    const updateDraft = <K extends keyof BrandKit>(key: K, value: BrandKit[K]) => {
+        setDraft(current => current ? { ...current, [key]: value } : current);
+    };
+
+    const renderColorInput = (key: 'primaryColor' | 'secondaryColor' | 'gradientColor', label: string) => (
+        <label className="flex items-center justify-between gap-2 text-sm text-gray-300">
+            {label}
+            <input type="color" value={draft![key]} onChange={e => updateDraft(key, e.target.value)} className="w-10 h-8 bg-gray-700 rounded-md cursor-pointer" />
+        </label>
+    );
+
+    const renderFontSelect = (key: 'headlineFont' | 'bodyFont', label: string) => (
+        <label className="flex items-center justify-between gap-2 text-sm text-gray-300">
+            {label}
+            <select value={draft![key]} onChange={e => updateDraft(key, e.target.value)} className="bg-gray-700 text-white p-1.5 rounded-md border border-gray-600 text-sm">
+                {BRAND_FONTS.map(font => <option key={font.value} value={font.value}>{font.label}</option>)}
+            </select>
+        </label>
+    );
+
+    return (
+        <div className="w-full max-w-xl">
+            <h3 className="text-lg font-semibold text-gray-100 mb-3 text-center">{t.brandKit.title}</h3>
+            <div className="flex flex-wrap items-center justify-center gap-2">
+                <select
+                    value={selectedKit.id}
+                    onChange={e => onSelect(e.target.value)}
+                    className="bg-gray-700 text-white p-2 rounded-lg border-2 border-gray-600 focus:border-orange-500"
+                    disabled={!!draft}
+                >
+                    {kits.map(kit => <option key={kit.id} value={kit.id}>{kit.id === DEFAULT_BRAND_KIT_ID ? t.brandKit.defaultName : kit.name}</option>)}
+                </select>
+                <div className="flex items-center gap-1" aria-hidden="true">
+                    <span className="w-5 h-5 rounded-full border border-gray-600" style={{ backgroundColor: selectedKit.primaryColor }} />
+                    <span className="w-5 h-5 rounded-full border border-gray-600" style={{ backgroundColor: selectedKit.secondaryColor }} />
+                </div>
+                <button onClick={handleNewKit} disabled={!!draft} className="text-sm text-orange-400 hover:text-orange-300 font-semibold px-2 disabled:opacity-50">{t.brandKit.new}</button>
+                {!isDefaultSelected && (
+                    <>
+                        <button onClick={() => setDraft({ ...selectedKit })} disabled={!!draft} className="text-sm text-orange-400 hover:text-orange-300 font-semibold px-2 disabled:opacity-50">{t.common.edit}</button>
+                        <button onClick={() => onDelete(selectedKit.id)} disabled={!!draft} className="text-sm text-red-400 hover:text-red-300 font-semibold px-2 disabled:opacity-50">{t.common.delete}</button>
+                    </>
+                )}
+            </div>
+
+            {draft && (
+                <div className="mt-4 bg-gray-900/50 border border-gray-700 rounded-xl p-4 space-y-3">
+                    <input
+                        type="text"
+                        value={draft.name}
+                        onChange={e => updateDraft('name', e.target.value)}
+                        placeholder={t.brandKit.namePlaceholder}
+                        className="w-full bg-gray-700 text-white p-2 rounded-md border-2 border-gray-600 focus:border-orange-500 text-sm"
+                    />
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {renderColorInput('primaryColor', t.brandKit.primaryColor)}
+                        {renderColorInput('secondaryColor', t.brandKit.secondaryColor)}
+                        {renderFontSelect('headlineFont', t.brandKit.headlineFont)}
+                        {renderFontSelect('bodyFont', t.brandKit.bodyFont)}
+                        {renderColorInput('gradientColor', t.brandKit.gradientColor)}
+                        <label className="flex items-center justify-between gap-2 text-sm text-gray-300">
+                            {t.brandKit.gradientOpacity}
+                            <input type="range" min="0" max="1" step="0.05" value={draft.gradientOpacity} onChange={e => updateDraft('gradientOpacity', parseFloat(e.target.value))} className="w-28" />
+                        </label>
+                        <label className="flex items-center justify-between gap-2 text-sm text-gray-300">
+                            {t.brandKit.cornerRadius}
+                            <input type="range" min="0" max="24" value={draft.cornerRadius} onChange={e => updateDraft('cornerRadius', parseInt(e.target.value))} className="w-28" />
+                        </label>
+                        <div className="flex items-center justify-between gap-2 text-sm text-gray-300">
+                            {t.brandKit.logo}
+                            <input type="file" accept="image/*" onChange={handleLogoUpload} className="hidden" ref={logoInputRef} />
+                            {draft.logo ? (
+                                <div className="flex items-center gap-2">
+                                    <img src={`data:${draft.logo.mimeType};base64,${draft.logo.base64}`} alt={t.brandKit.logo} className="h-8 max-w-[80px] object-contain" />
+                                    <button onClick={() => updateDraft('logo', null)} className="text-gray-400 hover:text-white" aria-label={t.brandKit.removeLogo}><RemoveIcon /></button>
+                                </div>
+                            ) : (
+                                <button onClick={() => logoInputRef.current?.click()} className="text-orange-400 hover:text-orange-300 font-semibold">{t.brandKit.upload}</button>
+                            )}
+                        </div>
+                    </div>
+                    <div className="flex justify-end gap-3 pt-2">
+                        <button onClick={() => setDraft(null)} className="py-1.5 px-4 bg-gray-600 text-white text-sm font-semibold rounded-full hover:bg-gray-500 transition-colors">{t.common.cancel}</button>
+                        <button onClick={handleSaveDraft} className="py-1.5 px-4 bg-orange-600 text-white text-sm font-semibold rounded-full hover:bg-orange-700 transition-colors">{t.brandKit.save}</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BrandKitManager;
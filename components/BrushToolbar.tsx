@@ -0,0 +1,43 @@
+import React from 'react';
+import type { BrushTool } from '../hooks/useBrushCanvas';
+import BrushIcon from './icons/BrushIcon';
+import EraserIcon from './icons/EraserIcon';
+import { useI18n } from '../hooks/useI18n';
+
+interface BrushToolbarProps {
+    tool: BrushTool;
+    onToolChange: (tool: BrushTool) => void;
+    size: number;
+    onSizeChange: (size: number) => void;
+    maxSize?: number;
+    canUndo: boolean;
+    canRedo: boolean;
+    onUndo: () => void;
+    onRedo: () => void;
+    children?: React.ReactNode; // controles extras, como a cor do pincel
+}
+
+const BrushToolbar: React.FC<BrushToolbarProps> = ({ tool, onToolChange, size, onSizeChange, maxSize = 50, canUndo, canRedo, onUndo, onRedo, children }) => {
+    const { t } = useI18n();
+    return (
+        <div className="bg-gray-900 rounded-lg p-2 flex flex-wrap items-center justify-center gap-4">
+            <button onClick={() => onToolChange('brush')} className={`p-2 rounded-md ${tool === 'brush' ? 'bg-orange-600' : 'bg-gray-700'}`} aria-label={t.brush.brush}><BrushIcon/></button>
+            <button onClick={() => onToolChange('eraser')} className={`p-2 rounded-md ${tool === 'eraser' ? 'bg-orange-600' : 'bg-gray-700'}`} aria-label={t.brush.eraser}><EraserIcon /></button>
+            {children}
+            <div className="flex items-center gap-2 text-white">
+                <label htmlFor="brushSize" className="text-sm">{t.brush.size}</label>
+                <input type="range" id="brushSize" min="1" max={maxSize} value={size} onChange={e => onSizeChange(parseInt(e.target.value))} className="w-32" />
+            </div>
+            <div className="flex items-center gap-2">
+                <button onClick={onUndo} disabled={!canUndo} className="py-2 px-3 rounded-md bg-gray-700 text-white text-sm font-semibold hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed" title={t.brush.undoHint}>
+                    {t.brush.undo}
+                </button>
+                <button onClick={onRedo} disabled={!canRedo} className="py-2 px-3 rounded-md bg-gray-700 text-white text-sm font-semibold hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed" title={t.brush.redoHint}>
+                    {t.brush.redo}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default BrushToolbar;
@@ -0,0 +1,285 @@
+import React, { useRef, useState } from 'react';
+import type { BrandKit, OutputLanguage, Post } from '../types';
+import Spinner from './Spinner';
+import PostPreview from './PostPreview';
+import QueueStatus from './QueueStatus';
+import SparklesIcon from './icons/SparklesIcon';
+import DownloadIcon from './icons/DownloadIcon';
+import { generateInitialPosts, isAbortError } from '../services/geminiService';
+import { parseBulkBrief, type BulkBriefRow } from '../utils/bulkBrief';
+import { createBulkZip, slugify } from '../utils/exportUtils';
+import { downloadBlob, fileToBase64, fitImageToAspectRatio } from '../utils/fileUtils';
+import { findBrandKit } from '../utils/brandKit';
+import { DEFAULT_POST_LAYOUT } from '../utils/postLayouts';
+import { PLATFORM_PRESETS } from '../utils/platformPresets';
+import { useI18n } from '../hooks/useI18n';
+
+type BulkRowStatus = 'invalid' | 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+interface BulkRow {
+    brief: BulkBriefRow;
+    status: BulkRowStatus;
+    posts: Post[];
+    error: string | null;
+}
+
+interface BulkCreatorProps {
+    brandKits: BrandKit[];
+    brandKitId: string;
+    language: OutputLanguage;
+    onOpen: (brief: BulkBriefRow, posts: Post[]) => void;
+}
+
+// Linhas geradas ao mesmo tempo; o agendador ainda controla o ritmo das chamadas dentro de cada uma.
+const BULK_CONCURRENCY = 3;
+
+const TEMPLATE_CSV = 'prompt;estilo;tipo;proporcao;imagem\n"Inauguração da cafeteria vegana";Moderno;carrossel;4:5;\n"Promoção de sexta";Vibrante;unico;instagram-story;fachada.jpg\n';
+
+const STATUS_STYLES: Record<BulkRowStatus, string> = {
+    invalid: 'bg-red-900/60 text-red-200',
+    pending: 'bg-gray-700 text-gray-200',
+    running: 'bg-orange-900/60 text-orange-200',
+    done: 'bg-green-900/60 text-green-200',
+    failed: 'bg-red-900/60 text-red-200',
+    cancelled: 'bg-gray-700 text-gray-400',
+};
+
+const isRetryable = (row: BulkRow) => row.status === 'failed' || row.status === 'cancelled';
+
+const BulkCreator: React.FC<BulkCreatorProps> = ({ brandKits, brandKitId, language, onOpen }) => {
+    const { t } = useI18n();
+    const [rows, setRows] = useState<BulkRow[]>([]);
+    const [briefName, setBriefName] = useState<string | null>(null);
+    const [images, setImages] = useState<Map<string, File>>(new Map());
+    const [error, setError] = useState<string | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const controllerRef = useRef<AbortController | null>(null);
+    const briefInputRef = useRef<HTMLInputElement>(null);
+    const imagesInputRef = useRef<HTMLInputElement>(null);
+
+    const doneRows = rows.filter(row => row.status === 'done');
+    const failedCount = rows.filter(row => row.status === 'failed' || row.status === 'invalid').length;
+    const retryableRows = rows.filter(isRetryable);
+    const missingImages = [...new Set(rows.flatMap(row => row.brief.imageName && !images.has(row.brief.imageName.toLowerCase()) ? [row.brief.imageName] : []))];
+
+    const updateRow = (rowNumber: number, changes: Partial<BulkRow>) =>
+        setRows(current => current.map(row => row.brief.rowNumber === rowNumber ? { ...row, ...changes } : row));
+
+    const handleBriefUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setError(null);
+        try {
+            const briefs = parseBulkBrief(await file.text());
+            setRows(briefs.map(brief => ({
+                brief,
+                status: brief.problem ? 'invalid' : 'pending',
+                posts: [],
+                error: brief.problem,
+            })));
+            setBriefName(file.name);
+        } catch (e) {
+            console.error("Failed to read bulk brief:", e);
+            setError(e instanceof Error ? e.message : t.bulk.readFailed);
+        }
+    };
+
+    const handleImagesUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from<File>(event.target.files ?? []).filter(file => file.type.startsWith('image/'));
+        event.target.value = '';
+        // Os nomes na planilha nem sempre respeitam maiúsculas; a busca ignora a diferença.
+        setImages(current => new Map([...current, ...files.map(file => [file.name.toLowerCase(), file] as const)]));
+    };
+
+    const generateRow = async (brief: BulkBriefRow, signal: AbortSignal): Promise<Post[]> => {
+        const { aspectRatio } = PLATFORM_PRESETS[brief.platform];
+        let imagePayload: { base64: string; mimeType: string } | undefined;
+        if (brief.imageName) {
+            const file = images.get(brief.imageName.toLowerCase());
+            if (!file) throw new Error(t.bulk.imageNotFound(brief.imageName));
+            imagePayload = await fitImageToAspectRatio(await fileToBase64(file), file.type, aspectRatio, 'crop');
+        }
+        const styleInstruction = `com um estilo visual ${brief.visualStyle}`;
+        const enhancedPrompt = brief.prompt ? `${brief.prompt} ${styleInstruction}` : styleInstruction;
+        const generatedPosts = await generateInitialPosts(enhancedPrompt, brief.postType, imagePayload, true, aspectRatio, language, signal);
+        return Promise.all(generatedPosts.map(async post => {
+            const fitted = await fitImageToAspectRatio(post.image, post.imageMimeType, aspectRatio, 'crop');
+            return { ...post, image: fitted.base64, imageMimeType: fitted.mimeType, brandKitId, platform: brief.platform };
+        }));
+    };
+
+    const runRows = async (targets: BulkRow[]) => {
+        if (targets.length === 0 || isRunning) return;
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setIsRunning(true);
+        setError(null);
+        const targetNumbers = new Set(targets.map(row => row.brief.rowNumber));
+        setRows(current => current.map(row => targetNumbers.has(row.brief.rowNumber) ? { ...row, status: 'pending', posts: [], error: null } : row));
+
+        const queue = [...targets];
+        const worker = async () => {
+            for (let row = queue.shift(); row; row = queue.shift()) {
+                const { rowNumber } = row.brief;
+                if (controller.signal.aborted) {
+                    updateRow(rowNumber, { status: 'cancelled' });
+                    continue;
+                }
+                updateRow(rowNumber, { status: 'running' });
+                try {
+                    const posts = await generateRow(row.brief, controller.signal);
+                    updateRow(rowNumber, { status: 'done', posts });
+                } catch (e) {
+                    if (isAbortError(e)) {
+                        updateRow(rowNumber, { status: 'cancelled' });
+                    } else {
+                        console.error(`Bulk row ${rowNumber} failed:`, e);
+                        updateRow(rowNumber, { status: 'failed', error: e instanceof Error ? e.message : t.bulk.rowFailed });
+                    }
+                }
+            }
+        };
+
+        await Promise.all(Array.from({ length: Math.min(BULK_CONCURRENCY, targets.length) }, worker));
+        setIsRunning(false);
+    };
+
+    const handleExport = async () => {
+        if (doneRows.length === 0 || isExporting) return;
+        setIsExporting(true);
+        try {
+            const groups = doneRows.map(row => ({
+                name: `${String(row.brief.rowNumber).padStart(2, '0')}-${slugify(row.brief.prompt) || row.brief.imageName && slugify(row.brief.imageName) || 'post'}`,
+                posts: row.posts,
+            }));
+            const zipBlob = await createBulkZip(groups, brandKits);
+            const baseName = briefName ? slugify(briefName.replace(/\.[^.]+$/, '')) : '';
+            downloadBlob(zipBlob, `genius-post-lote${baseName ? `-${baseName}` : ''}.zip`);
+        } catch (e) {
+            console.error("Failed to export bulk results:", e);
+            alert(t.bulk.exportFailed);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleDownloadTemplate = () =>
+        downloadBlob(new Blob([TEMPLATE_CSV], { type: 'text/csv' }), 'genius-post-modelo-lote.csv');
+
+    return (
+        <div className="bg-gray-800 p-6 rounded-2xl shadow-2xl max-w-6xl mx-auto space-y-6">
+            <div className="space-y-2">
+                <p className="text-gray-300">{t.bulk.intro}</p>
+                <button onClick={handleDownloadTemplate} className="text-sm text-orange-400 hover:text-orange-300 font-semibold">{t.bulk.downloadTemplate}</button>
+            </div>
+
+            <div className="flex flex-wrap gap-3">
+                <input ref={briefInputRef} type="file" accept=".csv,.tsv,.txt,text/csv" onChange={handleBriefUpload} className="hidden" />
+                <input ref={imagesInputRef} type="file" accept="image/*" multiple onChange={handleImagesUpload} className="hidden" />
+                <button
+                    onClick={() => briefInputRef.current?.click()}
+                    disabled={isRunning}
+                    className="py-2 px-5 bg-gray-700 text-white font-semibold rounded-full hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {briefName ? t.bulk.replaceBrief : t.bulk.uploadBrief}
+                </button>
+                <button
+                    onClick={() => imagesInputRef.current?.click()}
+                    className="py-2 px-5 bg-gray-700 text-white font-semibold rounded-full hover:bg-gray-600 transition-colors"
+                >
+                    {t.bulk.uploadImages}
+                </button>
+                {briefName && <span className="self-center text-sm text-gray-400">{t.bulk.briefSummary(briefName, rows.length, images.size)}</span>}
+            </div>
+
+            {error && <p className="text-center text-red-400" role="alert">{error}</p>}
+            {missingImages.length > 0 && (
+                <p className="text-sm text-yellow-200 bg-yellow-900/30 border border-yellow-700/60 rounded-lg px-3 py-2" role="status">
+                    ⚠ {t.bulk.missingImages(missingImages.join(', '))}
+                </p>
+            )}
+
+            {rows.length > 0 && (
+                <div className="flex flex-wrap items-center gap-3">
+                    {isRunning ? (
+                        <button
+                            onClick={() => controllerRef.current?.abort()}
+                            className="py-2 px-5 text-gray-300 font-semibold rounded-full border border-gray-600 hover:bg-gray-700 transition-colors"
+                        >
+                            {t.common.cancel}
+                        </button>
+                    ) : (
+                        <button
+                            onClick={() => runRows(rows.filter(row => row.status === 'pending'))}
+                            disabled={!rows.some(row => row.status === 'pending')}
+                            className="flex items-center gap-2 py-2 px-5 bg-gradient-to-r from-orange-500 to-orange-600 text-white font-bold rounded-full hover:from-orange-600 hover:to-orange-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <SparklesIcon /> {t.bulk.generateAll}
+                        </button>
+                    )}
+                    {!isRunning && retryableRows.length > 0 && (
+                        <button onClick={() => runRows(retryableRows)} className="py-2 px-5 bg-gray-700 text-white font-semibold rounded-full hover:bg-gray-600 transition-colors">
+                            {t.bulk.retryFailed(retryableRows.length)}
+                        </button>
+                    )}
+                    <button
+                        onClick={handleExport}
+                        disabled={doneRows.length === 0 || isExporting}
+                        className="flex items-center gap-2 py-2 px-5 bg-green-600 text-white font-semibold rounded-full hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isExporting ? <Spinner /> : <DownloadIcon />}
+                        {isExporting ? t.common.exporting : t.bulk.exportAll}
+                    </button>
+                    <span className="text-sm text-gray-400">{t.bulk.progress(doneRows.length, failedCount, rows.length)}</span>
+                    {isRunning && <QueueStatus />}
+                </div>
+            )}
+
+            {rows.length > 0 && (
+                <ol className="space-y-4">
+                    {rows.map(row => (
+                        <li key={row.brief.rowNumber} className="bg-gray-700/50 rounded-xl p-4 space-y-3">
+                            <div className="flex flex-wrap items-center gap-2 text-sm">
+                                <span className="font-semibold text-gray-400">{t.bulk.row(row.brief.rowNumber)}</span>
+                                <span className={`text-xs font-semibold rounded-full px-2.5 py-1 ${STATUS_STYLES[row.status]}`}>{t.bulk.statuses[row.status]}</span>
+                                <span className="text-white truncate max-w-md" title={row.brief.prompt}>{row.brief.prompt || row.brief.imageName}</span>
+                                <span className="text-xs text-gray-400">
+                                    {row.brief.visualStyle} · {t.app.postTypes[row.brief.postType]} · {t.platforms[row.brief.platform]}
+                                    {row.brief.imageName ? ` · ${row.brief.imageName}` : ''}
+                                </span>
+                                <div className="ml-auto flex gap-3 font-semibold">
+                                    {row.status === 'running' && <span className="text-orange-300">{t.common.generating}</span>}
+                                    {isRetryable(row) && !isRunning && (
+                                        <button onClick={() => runRows([row])} className="text-orange-400 hover:text-orange-300">{t.bulk.retry}</button>
+                                    )}
+                                    {row.status === 'done' && (
+                                        <button onClick={() => onOpen(row.brief, row.posts)} className="text-orange-400 hover:text-orange-300">{t.bulk.openInCreator}</button>
+                                    )}
+                                </div>
+                            </div>
+                            {row.error && <p className="text-sm text-red-400">{row.error}</p>}
+                            {row.posts.length > 0 && (
+                                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3">
+                                    {row.posts.map(post => (
+                                        <PostPreview
+                                            key={post.id}
+                                            imageSrc={`data:${post.imageMimeType};base64,${post.image}`}
+                                            text={post.texts[post.activeTextIndex] ?? null}
+                                            brandKit={findBrandKit(brandKits, post.brandKitId)}
+                                            layout={post.layout ?? DEFAULT_POST_LAYOUT}
+                                            aspectRatio={post.aspectRatio ?? '1:1'}
+                                        />
+                                    ))}
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+};
+
+export default BulkCreator;
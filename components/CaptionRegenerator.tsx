@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import type { CaptionRegenerationOptions, CaptionTone, HeadlineLength } from '../types';
+import Spinner from './Spinner';
+import SparklesIcon from './icons/SparklesIcon';
+import { useI18n } from '../hooks/useI18n';
+
+interface CaptionRegeneratorProps {
+    onGenerate: (options: CaptionRegenerationOptions) => Promise<void>;
+    onClose: () => void;
+}
+
+const TONES: CaptionTone[] = ['formal', 'divertido', 'urgente', 'inspirador'];
+const HEADLINE_LENGTHS: HeadlineLength[] = ['short', 'medium', 'long'];
+
+/** Pede novas opções de legenda com tom, tamanho do título e instrução escolhidos; as opções atuais continuam no post. */
+const CaptionRegenerator: React.FC<CaptionRegeneratorProps> = ({ onGenerate, onClose }) => {
+    const { t } = useI18n();
+    const [tone, setTone] = useState<CaptionTone>('divertido');
+    const [headlineLength, setHeadlineLength] = useState<HeadlineLength>('medium');
+    const [instruction, setInstruction] = useState('');
+    const [isGenerating, setIsGenerating] = useState(false);
+
+    const handleGenerate = async () => {
+        if (isGenerating) return;
+        setIsGenerating(true);
+        try {
+            await onGenerate({ tone, headlineLength, instruction });
+            setInstruction('');
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const pillClassName = (isActive: boolean) =>
+        `px-2.5 py-1 rounded-full text-xs font-semibold transition-colors ${isActive ? 'bg-orange-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
+    return (
+        <div className="space-y-3 bg-gray-900/40 rounded-lg p-3">
+            <div>
+                <p className="text-xs font-semibold text-gray-400 mb-1.5">{t.captionRegenerator.tone}</p>
+                <div className="flex flex-wrap gap-1.5">
+                    {TONES.map(option => (
+                        <button key={option} onClick={() => setTone(option)} className={pillClassName(tone === option)}>
+                            {t.captionRegenerator.tones[option]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div>
+                <p className="text-xs font-semibold text-gray-400 mb-1.5">{t.captionRegenerator.headlineLength}</p>
+                <div className="flex flex-wrap gap-1.5">
+                    {HEADLINE_LENGTHS.map(option => (
+                        <button key={option} onClick={() => setHeadlineLength(option)} className={pillClassName(headlineLength === option)}>
+                            {t.captionRegenerator.headlineLengths[option]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <input
+                type="text"
+                value={instruction}
+                onChange={e => setInstruction(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') handleGenerate(); }}
+                placeholder={t.captionRegenerator.instructionPlaceholder}
+                disabled={isGenerating}
+                className="w-full bg-gray-700 text-white p-2 rounded-md border-2 border-gray-600 focus:border-orange-500 focus:ring-orange-500 text-sm"
+            />
+            <div className="flex items-center justify-end gap-3">
+                {isGenerating && <Spinner />}
+                <button onClick={onClose} disabled={isGenerating} className="text-sm text-gray-300 hover:text-white font-semibold disabled:opacity-40">
+                    {t.common.close}
+                </button>
+                <button
+                    onClick={handleGenerate}
+                    disabled={isGenerating}
+                    className="flex items-center gap-2 py-1.5 px-4 bg-orange-600 text-white text-sm font-semibold rounded-full hover:bg-orange-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <SparklesIcon /> {isGenerating ? t.common.generating : t.captionRegenerator.generate}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default CaptionRegenerator;
@@ -0,0 +1,104 @@
+import React from 'react';
+import type { ComicCharacter } from '../types';
+import { fileToBase64 } from '../utils/fileUtils';
+import Spinner from './Spinner';
+import SparklesIcon from './icons/SparklesIcon';
+import RemoveIcon from './icons/RemoveIcon';
+import { useI18n } from '../hooks/useI18n';
+
+interface ComicCastEditorProps {
+    characters: ComicCharacter[];
+    onChange: (characters: ComicCharacter[]) => void;
+    onGenerateReference: (character: ComicCharacter) => void;
+    generatingReferenceId: string | null;
+}
+
+const ComicCastEditor: React.FC<ComicCastEditorProps> = ({ characters, onChange, onGenerateReference, generatingReferenceId }) => {
+    const { t } = useI18n();
+
+    const updateCharacter = (id: string, changes: Partial<ComicCharacter>) => {
+        onChange(characters.map(character => character.id === id ? { ...character, ...changes } : character));
+    };
+
+    const handleAdd = () => {
+        onChange([...characters, { id: crypto.randomUUID(), name: '', description: '' }]);
+    };
+
+    const handleUpload = async (id: string, file: File | undefined) => {
+        if (!file) return;
+        try {
+            const base64 = await fileToBase64(file);
+            updateCharacter(id, { referenceImage: { base64, mimeType: file.type } });
+        } catch (e) {
+            console.error("Failed to read reference image:", e);
+            alert(t.cast.loadReferenceFailed);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            {characters.map(character => (
+                <div key={character.id} className="bg-gray-700/50 p-4 rounded-lg flex gap-4">
+                    <div className="w-24 flex-shrink-0 flex flex-col items-center gap-2">
+                        <div className="w-24 h-24 bg-gray-900 rounded-md flex items-center justify-center overflow-hidden">
+                            {generatingReferenceId === character.id ? (
+                                <Spinner />
+                            ) : character.referenceImage ? (
+                                <img src={`data:${character.referenceImage.mimeType};base64,${character.referenceImage.base64}`} alt={t.cast.referenceAlt(character.name)} className="w-full h-full object-cover" />
+                            ) : (
+                                <span className="text-xs text-gray-500 text-center px-1">{t.cast.noReference}</span>
+                            )}
+                        </div>
+                        {character.referenceImage && generatingReferenceId !== character.id && (
+                            <button onClick={() => updateCharacter(character.id, { referenceImage: undefined })} className="text-xs text-gray-400 hover:text-red-400">
+                                {t.cast.removeReference}
+                            </button>
+                        )}
+                    </div>
+                    <div className="flex-1 min-w-0 space-y-2">
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="text"
+                                value={character.name}
+                                onChange={e => updateCharacter(character.id, { name: e.target.value })}
+                                placeholder={t.cast.namePlaceholder}
+                                className="flex-1 min-w-0 bg-gray-700 text-white font-semibold p-2 rounded border border-gray-600 focus:border-orange-500"
+                            />
+                            <button
+                                onClick={() => onChange(characters.filter(c => c.id !== character.id))}
+                                className="text-gray-400 hover:text-red-400 p-1"
+                                aria-label={t.cast.removeCharacter(character.name)}
+                            >
+                                <RemoveIcon />
+                            </button>
+                        </div>
+                        <textarea
+                            value={character.description}
+                            onChange={e => updateCharacter(character.id, { description: e.target.value })}
+                            placeholder={t.cast.descriptionPlaceholder}
+                            className="w-full bg-gray-700 text-white text-sm p-2 rounded border border-gray-600 focus:border-orange-500 h-20 resize-none"
+                        />
+                        <div className="flex flex-wrap gap-2">
+                            <label className="text-sm font-semibold text-gray-200 bg-gray-600 hover:bg-gray-500 py-1.5 px-3 rounded-full cursor-pointer">
+                                {t.cast.uploadImage}
+                                <input type="file" accept="image/*" className="hidden" onChange={e => { handleUpload(character.id, e.target.files?.[0]); e.target.value = ''; }} />
+                            </label>
+                            <button
+                                onClick={() => onGenerateReference(character)}
+                                disabled={generatingReferenceId !== null || !character.description.trim()}
+                                className="flex items-center gap-1 text-sm font-semibold text-white bg-orange-600 hover:bg-orange-700 py-1.5 px-3 rounded-full disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <SparklesIcon /> {t.cast.generateReference}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            ))}
+            <button onClick={handleAdd} className="w-full border-2 border-dashed border-gray-600 text-gray-300 font-semibold py-2 rounded-lg hover:border-orange-500 hover:text-orange-400 transition-colors">
+                {t.cast.addCharacter}
+            </button>
+        </div>
+    );
+};
+
+export default ComicCastEditor;
@@ -1,101 +1,448 @@
-import React, { useState } from 'react';
-import { generateComicScript, generateHqPanel } from '../services/geminiService';
-import { downloadImage } from '../utils/fileUtils';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { generateComicCharacterReference, generateComicScript, generateHqPanel, isAbortError, rewriteComicScene } from '../services/geminiService';
+import { downloadBlob, downloadImage } from '../utils/fileUtils';
+import { createComicCbz, createComicPdf, slugify } from '../utils/exportUtils';
 import Spinner from './Spinner';
+import QueueStatus from './QueueStatus';
 import SparklesIcon from './icons/SparklesIcon';
 import DownloadIcon from './icons/DownloadIcon';
-import type { ComicScript, GeneratedPanel, Scene } from '../types';
+import EditIcon from './icons/EditIcon';
+import ComicEditor from './ComicEditor';
+import ComicPageComposer from './ComicPageComposer';
+import BalloonEditor from './BalloonEditor';
+import BalloonLayer from './BalloonLayer';
+import ComicCastEditor from './ComicCastEditor';
+import ComicScriptEditor from './ComicScriptEditor';
+import ComicPanelVariations from './ComicPanelVariations';
+import OutputLanguagePicker from './OutputLanguagePicker';
+import AutosaveIndicator from './AutosaveIndicator';
+import { getProject } from '../services/projectStore';
+import { useProjectAutosave } from '../hooks/useProjectAutosave';
+import { useI18n } from '../hooks/useI18n';
+import { DEFAULT_OUTPUT_LANGUAGE } from '../utils/i18n';
+import { DEFAULT_COMIC_PAGE_SETTINGS, renderPanelImage } from '../utils/comicPage';
+import { createDialogueBalloons } from '../utils/comicBalloons';
+import type { Balloon, ComicCharacter, ComicPageSettings, ComicProjectData, ComicScript, GeneratedPanel, OutputLanguage, PanelCandidate, Scene } from '../types';
 
-type Step = 'idea' | 'script' | 'panels';
-type PanelState = (GeneratedPanel | { isLoading: true; sceneNumber: number; error?: string });
+type Step = 'idea' | 'script' | 'panels' | 'page';
+
+const STEPS: Step[] = ['idea', 'script', 'panels', 'page'];
+type BookFormat = 'pdf' | 'cbz';
+
+// Lugar de um quadro sem imagem: em geração, com falha ou de uma cena acrescentada depois da geração.
+type PanelSlot = { isLoading: boolean; sceneId: string; sceneNumber: number; error?: 'cancelled' | 'failed' };
+type PanelState = GeneratedPanel | PanelSlot;
 
 const ART_STYLES = ['Cartoon', 'Mangá', 'Realista', 'Desenho Simples'];
 
-const ComicCreator: React.FC = () => {
+const createCandidate = (imageBase64: string, mimeType: string, artStyle: string, instruction?: string): PanelCandidate => ({
+    id: crypto.randomUUID(),
+    imageBase64,
+    mimeType,
+    artStyle,
+    instruction: instruction || undefined,
+    createdAt: Date.now(),
+});
+
+/** Adiciona uma versão ao quadro e passa a usá-la. */
+const addCandidate = (panel: GeneratedPanel, candidate: PanelCandidate): GeneratedPanel => ({
+    ...panel,
+    imageBase64: candidate.imageBase64,
+    mimeType: candidate.mimeType,
+    artStyle: candidate.artStyle,
+    candidates: [...(panel.candidates ?? []), candidate],
+    activeCandidateId: candidate.id,
+});
+
+// Quadros salvos antes das versões só têm a imagem atual, que vira a primeira versão.
+const withCandidates = (panel: GeneratedPanel, artStyle: string): GeneratedPanel =>
+    panel.candidates?.length ? panel : addCandidate(panel, createCandidate(panel.imageBase64, panel.mimeType, panel.artStyle ?? artStyle));
+
+/**
+ * Projetos salvos antes dos ids de cena ligavam quadros, recordatórios e a ordem da página ao
+ * número da cena; cada cena ganha um id e essas referências passam a usá-lo.
+ */
+const withSceneIds = (data: ComicProjectData): ComicProjectData => {
+    const { script, page } = data;
+    if (!script || script.scenes.every(scene => scene.id)) return data;
+    const scenes = script.scenes.map(scene => ({ ...scene, id: scene.id || crypto.randomUUID() }));
+    const idFor = (sceneNumber: number | string) => scenes.find(scene => scene.sceneNumber === Number(sceneNumber))?.id;
+    return {
+        ...data,
+        script: { ...script, scenes },
+        panels: data.panels.flatMap(panel => {
+            const sceneId = idFor(panel.sceneNumber);
+            return sceneId ? [{ ...panel, sceneId }] : [];
+        }),
+        page: page && {
+            ...page,
+            panelOrder: page.panelOrder.map(idFor).filter((id): id is string => !!id),
+            captions: Object.fromEntries(Object.entries(page.captions).flatMap(([sceneNumber, caption]) => {
+                const sceneId = idFor(sceneNumber);
+                return sceneId ? [[sceneId, caption]] : [];
+            })),
+        },
+    };
+};
+
+interface ComicCreatorProps {
+    projectId: string | null;
+    onProjectIdChange: (projectId: string | null) => void;
+}
+
+const ComicCreator: React.FC<ComicCreatorProps> = ({ projectId, onProjectIdChange }) => {
+    const { t } = useI18n();
     const [step, setStep] = useState<Step>('idea');
     const [storyIdea, setStoryIdea] = useState('');
+    // Idioma do próximo roteiro; o de um roteiro pronto fica em `script.language`.
+    const [language, setLanguage] = useState<OutputLanguage>(DEFAULT_OUTPUT_LANGUAGE);
     const [script, setScript] = useState<ComicScript | null>(null);
     const [panels, setPanels] = useState<PanelState[]>([]);
     const [artStyle, setArtStyle] = useState('Cartoon');
+    const [pageSettings, setPageSettings] = useState<ComicPageSettings>(DEFAULT_COMIC_PAGE_SETTINGS);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    // Id do projeto cujo conteúdo está na tela; difere de `projectId` enquanto outro projeto é aberto.
+    const [loadedProjectId, setLoadedProjectId] = useState<string | null>(null);
+    const [isGeneratingPanels, setIsGeneratingPanels] = useState(false);
+    const [editingSceneId, setEditingSceneId] = useState<string | null>(null);
+    const [editingBalloonsSceneId, setEditingBalloonsSceneId] = useState<string | null>(null);
+    const [generatingReferenceId, setGeneratingReferenceId] = useState<string | null>(null);
+    const [rewritingSceneId, setRewritingSceneId] = useState<string | null>(null);
+    const [regeneratingSceneIds, setRegeneratingSceneIds] = useState<string[]>([]);
+    const [variationsSceneId, setVariationsSceneId] = useState<string | null>(null);
+    const [exportingFormat, setExportingFormat] = useState<BookFormat | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    // Cada quadro regenerado tem o próprio controlador, para cancelar um sem afetar os outros.
+    const panelControllersRef = useRef(new Map<string, AbortController>());
+
+    const abortAll = () => {
+        abortControllerRef.current?.abort();
+        panelControllersRef.current.forEach(controller => controller.abort());
+    };
+
+    useEffect(() => () => abortAll(), []);
+
+    useEffect(() => {
+        if (!projectId || projectId === loadedProjectId) return;
+        abortAll();
+        getProject(projectId)
+            .then(project => {
+                if (project?.kind === 'comic') {
+                    const data = withSceneIds(project.data);
+                    setStoryIdea(data.storyIdea);
+                    setArtStyle(data.artStyle);
+                    setScript(data.script);
+                    setLanguage(data.script?.language ?? DEFAULT_OUTPUT_LANGUAGE);
+                    setPanels(data.panels.map(panel => withCandidates(panel, data.artStyle)));
+                    setPageSettings(data.page ?? DEFAULT_COMIC_PAGE_SETTINGS);
+                    setStep(data.panels.length > 0 ? 'panels' : data.script ? 'script' : 'idea');
+                }
+            })
+            .catch(e => {
+                console.error("Failed to load project:", e);
+                setError(t.common.openProjectFailed);
+            })
+            .finally(() => setLoadedProjectId(projectId));
+    }, [projectId, loadedProjectId]);
+
+    // Os quadros seguem o roteiro atual: na ordem das cenas e com o número delas. Cenas novas ganham
+    // um lugar vazio e quadros de cenas excluídas ficam de fora da tela, do projeto salvo e da exportação.
+    const scenePanels = useMemo<PanelState[]>(() => {
+        if (!script || panels.length === 0) return [];
+        return script.scenes.map(scene => {
+            const panel = panels.find(p => p.sceneId === scene.id);
+            return panel
+                ? { ...panel, sceneNumber: scene.sceneNumber }
+                : { isLoading: false, sceneId: scene.id, sceneNumber: scene.sceneNumber };
+        });
+    }, [script, panels]);
+
+    const generatedPanels = useMemo(
+        () => scenePanels.filter((panel): panel is GeneratedPanel => 'imageBase64' in panel),
+        [scenePanels]
+    );
+
+    const projectData = useMemo<ComicProjectData>(() => ({
+        storyIdea,
+        artStyle,
+        script,
+        // Quadros ainda em geração ou com falha não são salvos.
+        panels: generatedPanels,
+        page: pageSettings,
+    }), [storyIdea, artStyle, script, generatedPanels, pageSettings]);
+    const autosaveStatus = useProjectAutosave('comic', projectId === loadedProjectId ? projectId : null, script?.title || t.comic.untitledProject, projectData);
 
     const handleGenerateScript = async () => {
         if (!storyIdea.trim()) {
-            setError('Por favor, descreva sua ideia para a história.');
+            setError(t.comic.ideaMissing);
             return;
         }
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         setIsLoading(true);
         setError(null);
         setScript(null);
         try {
-            const generatedScript = await generateComicScript(storyIdea);
+            const generatedScript = await generateComicScript(storyIdea, language, controller.signal);
             setScript(generatedScript);
             setStep('script');
+            if (!projectId) {
+                const newProjectId = crypto.randomUUID();
+                setLoadedProjectId(newProjectId);
+                onProjectIdChange(newProjectId);
+            }
         } catch (e) {
-            console.error(e);
-            setError(e instanceof Error ? e.message : 'Falha ao gerar o roteiro.');
+            if (!isAbortError(e)) {
+                console.error(e);
+                setError(e instanceof Error ? e.message : t.comic.scriptFailed);
+            }
         } finally {
             setIsLoading(false);
         }
     };
+
+    const handleCancel = () => abortControllerRef.current?.abort();
+
+    const characters = script?.characters ?? [];
+
+    const handleCharactersChange = (nextCharacters: ComicCharacter[]) => {
+        setScript(current => {
+            if (!current) return current;
+            // Personagens removidos deixam de ser marcados nas cenas.
+            const ids = new Set(nextCharacters.map(character => character.id));
+            return {
+                ...current,
+                characters: nextCharacters,
+                scenes: current.scenes.map(scene => ({ ...scene, characterIds: scene.characterIds?.filter(id => ids.has(id)) })),
+            };
+        });
+    };
+
+    const handleGenerateReference = async (character: ComicCharacter) => {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setGeneratingReferenceId(character.id);
+        setError(null);
+        try {
+            const { image, mimeType } = await generateComicCharacterReference(character, artStyle, controller.signal);
+            setScript(current => current && {
+                ...current,
+                characters: current.characters?.map(c => c.id === character.id ? { ...c, referenceImage: { base64: image, mimeType } } : c),
+            });
+        } catch (e) {
+            if (!isAbortError(e)) {
+                console.error(e);
+                setError(e instanceof Error ? e.message : t.comic.referenceFailed);
+            }
+        } finally {
+            setGeneratingReferenceId(null);
+        }
+    };
+
+    const handleRewriteScene = async (sceneId: string, instruction: string) => {
+        const target = script?.scenes.find(scene => scene.id === sceneId);
+        if (!script || !target) return;
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setRewritingSceneId(sceneId);
+        setError(null);
+        try {
+            const scene = await rewriteComicScene(script, target, instruction, controller.signal);
+            setScript(current => current && {
+                ...current,
+                scenes: current.scenes.map(s => s.id === sceneId ? scene : s),
+            });
+        } catch (e) {
+            if (!isAbortError(e)) {
+                console.error(e);
+                setError(e instanceof Error ? e.message : t.comic.rewriteFailed);
+            }
+        } finally {
+            setRewritingSceneId(null);
+        }
+    };
+
+    const isScriptReady = !!script && script.scenes.length > 0 && script.scenes.every(scene => scene.description.trim());
+
+    const getSceneCharacters = (scene: Scene): ComicCharacter[] =>
+        characters.filter(character => scene.characterIds?.includes(character.id));
     
+    const generateCandidate = async (scene: Scene, panelArtStyle: string, instruction: string, signal: AbortSignal): Promise<PanelCandidate> => {
+        const result = await generateHqPanel(scene.description, panelArtStyle, getSceneCharacters(scene), instruction, signal);
+        return createCandidate(result.image, result.mimeType, panelArtStyle, instruction);
+    };
+
+    // Os diálogos viram balões editáveis; a imagem gerada não contém texto.
+    const createPanel = (scene: Scene, candidate: PanelCandidate): GeneratedPanel =>
+        addCandidate({ imageBase64: '', mimeType: '', sceneId: scene.id, sceneNumber: scene.sceneNumber, balloons: createDialogueBalloons(scene.dialogue) }, candidate);
+
+    /**
+     * Gera uma nova versão de um único quadro: refaz um quadro que falhou ou acrescenta uma versão
+     * a um quadro pronto, sem mexer nos demais.
+     */
+    const handleRegeneratePanel = async (sceneId: string, instruction = '', panelArtStyle?: string) => {
+        const scene = script?.scenes.find(s => s.id === sceneId);
+        if (!scene || panelControllersRef.current.has(sceneId)) return;
+        const existing = generatedPanels.find(panel => panel.sceneId === sceneId);
+        const style = panelArtStyle ?? existing?.artStyle ?? artStyle;
+
+        const controller = new AbortController();
+        panelControllersRef.current.set(sceneId, controller);
+        setRegeneratingSceneIds(current => [...current, sceneId]);
+        if (!existing) {
+            // Uma cena acrescentada depois da geração ainda não tem lugar na lista de quadros.
+            setPanels(prevPanels => [
+                ...prevPanels.filter(p => p.sceneId !== sceneId),
+                { isLoading: true, sceneId, sceneNumber: scene.sceneNumber },
+            ]);
+        }
+        setError(null);
+
+        try {
+            const candidate = await generateCandidate(scene, style, instruction, controller.signal);
+            setPanels(prevPanels => prevPanels.map(p => {
+                if (p.sceneId !== sceneId) return p;
+                return 'imageBase64' in p ? addCandidate(p, candidate) : createPanel(scene, candidate);
+            }));
+        } catch (err) {
+            const cancelled = isAbortError(err);
+            if (!cancelled) console.error(`Falha ao gerar o painel para a cena ${scene.sceneNumber}`, err);
+            if (existing) {
+                if (!cancelled) setError(err instanceof Error ? err.message : t.comic.versionFailed);
+            } else {
+                setPanels(prevPanels => prevPanels.map(p =>
+                    p.sceneId === sceneId && !('imageBase64' in p)
+                        ? { isLoading: false, sceneId, sceneNumber: scene.sceneNumber, error: cancelled ? 'cancelled' : 'failed' }
+                        : p
+                ));
+            }
+        } finally {
+            panelControllersRef.current.delete(sceneId);
+            setRegeneratingSceneIds(current => current.filter(id => id !== sceneId));
+        }
+    };
+
+    const handleCancelPanel = (sceneId: string) => panelControllersRef.current.get(sceneId)?.abort();
+
+    const handleSelectCandidate = (sceneId: string, candidateId: string) => {
+        setPanels(prevPanels => prevPanels.map(p => {
+            if (!('imageBase64' in p) || p.sceneId !== sceneId) return p;
+            const candidate = p.candidates?.find(c => c.id === candidateId);
+            return candidate
+                ? { ...p, imageBase64: candidate.imageBase64, mimeType: candidate.mimeType, artStyle: candidate.artStyle, activeCandidateId: candidate.id }
+                : p;
+        }));
+    };
+
+    const handleRemoveCandidate = (sceneId: string, candidateId: string) => {
+        setPanels(prevPanels => prevPanels.map(p =>
+            'imageBase64' in p && p.sceneId === sceneId && p.activeCandidateId !== candidateId
+                ? { ...p, candidates: p.candidates?.filter(c => c.id !== candidateId) }
+                : p
+        ));
+    };
+
     const handleGeneratePanels = async () => {
         if (!script) return;
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         setStep('panels');
-        setPanels(script.scenes.map(scene => ({ isLoading: true, sceneNumber: scene.sceneNumber })));
+        setIsGeneratingPanels(true);
+        setPanels(script.scenes.map(scene => ({ isLoading: true, sceneId: scene.id, sceneNumber: scene.sceneNumber })));
 
-        for (const [index, scene] of script.scenes.entries()) {
+        // O agendador de chamadas controla o ritmo; os quadros são enfileirados todos de uma vez.
+        // Ao cancelar, os quadros já prontos são mantidos e os pendentes ficam marcados como cancelados.
+        await Promise.all(script.scenes.map(async scene => {
             try {
-                // Adiciona um atraso antes de cada chamada, exceto a primeira, para evitar atingir os limites de taxa.
-                if (index > 0) {
-                    await new Promise(resolve => setTimeout(resolve, 2000)); // atraso de 2 segundos
-                }
-
-                const result = await generateHqPanel(scene.description, scene.dialogue, artStyle);
+                const candidate = await generateCandidate(scene, artStyle, '', controller.signal);
                 setPanels(prevPanels => prevPanels.map(p =>
-                    'isLoading' in p && p.sceneNumber === scene.sceneNumber
-                        ? { imageBase64: result.image, mimeType: result.mimeType, sceneNumber: scene.sceneNumber }
-                        : p
+                    'isLoading' in p && p.sceneId === scene.id ? createPanel(scene, candidate) : p
                 ));
             } catch (err) {
-                 console.error(`Falha ao gerar o painel para a cena ${scene.sceneNumber}`, err);
+                 const cancelled = isAbortError(err);
+                 if (!cancelled) console.error(`Falha ao gerar o painel para a cena ${scene.sceneNumber}`, err);
                  setPanels(prevPanels => prevPanels.map(p =>
-                    'isLoading' in p && p.sceneNumber === scene.sceneNumber
-                        ? { isLoading: false, sceneNumber: scene.sceneNumber, error: 'Falha ao gerar' }
+                    'isLoading' in p && p.sceneId === scene.id
+                        ? { isLoading: false, sceneId: scene.id, sceneNumber: scene.sceneNumber, error: cancelled ? 'cancelled' : 'failed' }
                         : p
                 ));
             }
-        }
+        }));
+        setIsGeneratingPanels(false);
     };
     
     const handleStartOver = () => {
+        abortAll();
         setStep('idea');
         setScript(null);
         setPanels([]);
+        setPageSettings(DEFAULT_COMIC_PAGE_SETTINGS);
         setError(null);
         setIsLoading(false);
+        onProjectIdChange(null);
     };
     
-    const handleDownloadPanel = (panel: GeneratedPanel) => {
-         downloadImage(`data:${panel.mimeType};base64,${panel.imageBase64}`, `quadrinho-quadro-${panel.sceneNumber}.png`);
+    const handleDownloadPanel = async (panel: GeneratedPanel) => {
+        try {
+            downloadImage(await renderPanelImage(panel), `quadrinho-quadro-${panel.sceneNumber}.png`);
+        } catch (e) {
+            console.error("Failed to render panel for download:", e);
+            setError(t.comic.downloadPanelFailed);
+        }
+    };
+
+    const handleSavePanelEdit = (sceneId: string, imageBase64: string) => {
+        // O editor sempre exporta PNG na resolução original do quadro; a edição vira uma nova versão.
+        setPanels(prevPanels => prevPanels.map(p =>
+            'imageBase64' in p && p.sceneId === sceneId
+                ? addCandidate(p, createCandidate(imageBase64, 'image/png', p.artStyle ?? artStyle, t.comic.manualEdit))
+                : p
+        ));
+        setEditingSceneId(null);
     };
 
+    const handleExportBook = async (format: BookFormat) => {
+        if (!script) return;
+        setExportingFormat(format);
+        try {
+            const blob = format === 'pdf'
+                ? await createComicPdf(script, generatedPanels, pageSettings)
+                : await createComicCbz(script, generatedPanels, pageSettings);
+            downloadBlob(blob, `${slugify(script.title) || 'quadrinho'}.${format}`);
+        } catch (e) {
+            console.error(`Failed to export comic as ${format}:`, e);
+            setError(t.comic.exportFailed);
+        } finally {
+            setExportingFormat(null);
+        }
+    };
+
+    const handleSaveBalloons = (sceneId: string, balloons: Balloon[]) => {
+        setPanels(prevPanels => prevPanels.map(p =>
+            'imageBase64' in p && p.sceneId === sceneId ? { ...p, balloons } : p
+        ));
+        setEditingBalloonsSceneId(null);
+    };
+
+    const editingPanel = generatedPanels.find(panel => panel.sceneId === editingSceneId);
+    const editingBalloonsPanel = generatedPanels.find(panel => panel.sceneId === editingBalloonsSceneId);
+    const variationsPanel = generatedPanels.find(panel => panel.sceneId === variationsSceneId);
+
     const renderStepper = () => (
         <div className="flex items-center justify-center mb-8">
-            {['Ideia', 'Roteiro', 'Quadros'].map((label, index) => {
-                const stepOrder: Step[] = ['idea', 'script', 'panels'];
-                const currentStepIndex = stepOrder.indexOf(step);
+            {STEPS.map((id, index) => {
+                const currentStepIndex = STEPS.indexOf(step);
                 const isActive = index <= currentStepIndex;
                 return (
-                    <React.Fragment key={label}>
+                    <React.Fragment key={id}>
                         <div className="flex items-center">
                             <div className={`w-8 h-8 rounded-full flex items-center justify-center font-bold ${isActive ? 'bg-orange-500 text-white' : 'bg-gray-700 text-gray-400'}`}>
                                 {index + 1}
                             </div>
-                            <p className={`ml-2 font-semibold ${isActive ? 'text-white' : 'text-gray-500'}`}>{label}</p>
+                            <p className={`ml-2 font-semibold ${isActive ? 'text-white' : 'text-gray-500'}`}>{t.comic.steps[id]}</p>
                         </div>
-                        {index < 2 && <div className={`flex-auto h-1 mx-4 ${isActive && index < currentStepIndex ? 'bg-orange-500' : 'bg-gray-700'}`}></div>}
+                        {index < STEPS.length - 1 && <div className={`flex-auto h-1 mx-4 ${isActive && index < currentStepIndex ? 'bg-orange-500' : 'bg-gray-700'}`}></div>}
                     </React.Fragment>
                 )
             })}
@@ -106,18 +453,26 @@ const ComicCreator: React.FC = () => {
         <>
             {renderStepper()}
             <div className="text-center">
-                <h3 className="text-2xl font-bold text-gray-100 mb-2">1. Comece com sua Ideia</h3>
-                <p className="text-gray-400 mb-6">Descreva a história que você quer criar. A IA irá transformá-la em um roteiro de HQ.</p>
+                <h3 className="text-2xl font-bold text-gray-100 mb-2">{t.comic.ideaTitle}</h3>
+                <p className="text-gray-400 mb-6">{t.comic.ideaHint}</p>
                 <textarea
                     value={storyIdea}
                     onChange={(e) => setStoryIdea(e.target.value)}
-                    placeholder="Ex: Um menino encontra um robô abandonado no quintal e eles se tornam amigos."
+                    placeholder={t.comic.ideaPlaceholder}
                     className="w-full bg-gray-700 text-white p-4 rounded-lg border-2 border-gray-600 focus:border-orange-500 h-32 resize-none"
                 />
+                <div className="mt-6">
+                    <OutputLanguagePicker selected={[language]} onChange={([next]) => setLanguage(next)} disabled={isLoading} />
+                </div>
                 <div className="mt-6">
                     <button onClick={handleGenerateScript} disabled={isLoading} className="w-full max-w-xs mx-auto flex items-center justify-center gap-2 bg-gradient-to-r from-orange-500 to-orange-600 text-white font-bold py-3 px-6 rounded-full hover:from-orange-600 hover:to-orange-700 transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed">
-                        {isLoading ? <><Spinner /> Gerando Roteiro...</> : <><SparklesIcon /> Gerar Roteiro</>}
+                        {isLoading ? <><Spinner /> {t.comic.generatingScript}</> : <><SparklesIcon /> {t.comic.generateScript}</>}
                     </button>
+                    {isLoading && (
+                        <button onClick={handleCancel} className="mt-3 text-gray-300 font-semibold py-2 px-6 rounded-full hover:bg-gray-700 transition-colors">
+                            {t.common.cancel}
+                        </button>
+                    )}
                 </div>
             </div>
         </>
@@ -127,40 +482,53 @@ const ComicCreator: React.FC = () => {
         <>
             {renderStepper()}
             <div className="text-center mb-8">
-                 <h3 className="text-2xl font-bold text-gray-100 mb-2">2. Roteiro e Estilo</h3>
-                 <p className="text-gray-400">Aqui está o roteiro gerado. Agora, escolha o estilo de arte para os quadros.</p>
+                 <h3 className="text-2xl font-bold text-gray-100 mb-2">{t.comic.scriptTitle}</h3>
+                 <p className="text-gray-400">{t.comic.scriptHint}</p>
             </div>
             {script && (
-                 <div className="space-y-6 bg-gray-900/50 p-6 rounded-xl border border-gray-700">
-                    <h4 className="text-2xl font-bold text-orange-400 text-center">{script.title}</h4>
-                    <p className="text-gray-300 text-center italic">"{script.summary}"</p>
-                    <div className="space-y-4">
-                        {script.scenes.map(scene => (
-                            <div key={scene.sceneNumber} className="bg-gray-700/50 p-4 rounded-lg">
-                                <p className="font-bold text-white">Quadro {scene.sceneNumber}:</p>
-                                <p className="text-gray-300"><span className="font-semibold text-gray-400">Cena:</span> {scene.description}</p>
-                                {scene.dialogue.length > 0 && <p className="text-gray-300 mt-1"><span className="font-semibold text-gray-400">Diálogos:</span> {scene.dialogue.map(d => `"${d}"`).join(' / ')}</p>}
-                            </div>
-                        ))}
-                    </div>
+                 <div className="bg-gray-900/50 p-6 rounded-xl border border-gray-700">
+                    <ComicScriptEditor
+                        script={script}
+                        onChange={setScript}
+                        onRewriteScene={handleRewriteScene}
+                        onCancelRewrite={handleCancel}
+                        rewritingSceneId={rewritingSceneId}
+                    >
+                        <div>
+                            <h5 className="text-lg font-bold text-gray-200 mb-1">{t.comic.cast}</h5>
+                            <p className="text-sm text-gray-400 mb-3">{t.comic.castHint}</p>
+                            <ComicCastEditor
+                                characters={characters}
+                                onChange={handleCharactersChange}
+                                onGenerateReference={handleGenerateReference}
+                                generatingReferenceId={generatingReferenceId}
+                            />
+                        </div>
+                    </ComicScriptEditor>
                  </div>
             )}
              <div className="mt-6">
-                <h4 className="text-lg font-bold text-center text-gray-200 mb-3">Escolha o Estilo de Arte</h4>
+                <h4 className="text-lg font-bold text-center text-gray-200 mb-3">{t.comic.chooseArtStyle}</h4>
                 <div className="flex flex-wrap justify-center items-center gap-2 bg-gray-700 rounded-full p-1 max-w-md mx-auto">
                     {ART_STYLES.map(style => (
                         <button key={style} onClick={() => setArtStyle(style)} className={`flex-grow px-4 py-2 rounded-full text-sm font-semibold transition-all ${artStyle === style ? 'bg-orange-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>
-                            {style}
+                            {t.comic.artStyles[style] ?? style}
                         </button>
                     ))}
                 </div>
              </div>
              <div className="mt-8 flex justify-center gap-4">
                  <button onClick={() => setStep('idea')} className="text-gray-300 font-semibold py-3 px-6 rounded-full hover:bg-gray-700 transition-colors">
-                     Voltar
+                     {t.common.back}
                  </button>
-                <button onClick={handleGeneratePanels} className="flex items-center justify-center gap-2 bg-gradient-to-r from-orange-500 to-orange-600 text-white font-bold py-3 px-6 rounded-full hover:from-orange-600 hover:to-orange-700 transition-all">
-                    <SparklesIcon /> Gerar Quadros
+                 {/* Depois de ajustar o roteiro, dá para voltar aos quadros já gerados sem gerar tudo de novo. */}
+                 {panels.length > 0 && (
+                     <button onClick={() => setStep('panels')} className="text-gray-300 font-semibold py-3 px-6 rounded-full hover:bg-gray-700 transition-colors">
+                         {t.comic.viewPanels}
+                     </button>
+                 )}
+                <button onClick={handleGeneratePanels} disabled={!isScriptReady || generatingReferenceId !== null || rewritingSceneId !== null || regeneratingSceneIds.length > 0} className="flex items-center justify-center gap-2 bg-gradient-to-r from-orange-500 to-orange-600 text-white font-bold py-3 px-6 rounded-full hover:from-orange-600 hover:to-orange-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed">
+                    <SparklesIcon /> {t.comic.generatePanels}
                 </button>
             </div>
         </>
@@ -170,44 +538,173 @@ const ComicCreator: React.FC = () => {
         <>
             {renderStepper()}
              <div className="text-center mb-8">
-                 <h3 className="text-2xl font-bold text-gray-100 mb-2">3. Sua História em Quadrinhos!</h3>
+                 <h3 className="text-2xl font-bold text-gray-100 mb-2">{t.comic.panelsTitle}</h3>
                  <p className="text-gray-400">{script?.title}</p>
+                 <div className="mt-2"><QueueStatus /></div>
+                 {isGeneratingPanels && (
+                     <button onClick={handleCancel} className="mt-3 text-gray-300 font-semibold py-2 px-6 rounded-full border border-gray-600 hover:bg-gray-700 transition-colors">
+                         {t.common.cancel}
+                     </button>
+                 )}
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {panels.map((panel, index) => (
-                    <div key={index} className="bg-gray-700/50 p-3 rounded-lg flex flex-col items-center">
-                        <p className="font-bold text-white mb-2">Quadro {panel.sceneNumber}</p>
+                {scenePanels.map(panel => (
+                    <div key={panel.sceneId} className="bg-gray-700/50 p-3 rounded-lg flex flex-col items-center">
+                        <p className="font-bold text-white mb-2">{t.comic.panel(panel.sceneNumber)}</p>
                         <div className="w-full aspect-square bg-gray-900 rounded-md flex items-center justify-center relative group">
                              {'isLoading' in panel && panel.isLoading ? (
-                                <Spinner />
+                                <div className="flex flex-col items-center gap-3">
+                                    <Spinner />
+                                    {regeneratingSceneIds.includes(panel.sceneId) && (
+                                        <button onClick={() => handleCancelPanel(panel.sceneId)} className="text-sm text-gray-300 font-semibold py-1 px-4 rounded-full border border-gray-600 hover:bg-gray-700">
+                                            {t.common.cancel}
+                                        </button>
+                                    )}
+                                </div>
                             ) : 'error' in panel && panel.error ? (
-                                <p className="text-red-400 text-sm p-4 text-center">{panel.error}</p>
+                                <div className="flex flex-col items-center gap-3 p-4">
+                                    <p className="text-red-400 text-sm text-center">{panel.error === 'cancelled' ? t.comic.panelCancelled : t.comic.panelFailed}</p>
+                                    <button onClick={() => handleRegeneratePanel(panel.sceneId)} className="text-sm text-white font-semibold py-2 px-4 rounded-full bg-orange-600 hover:bg-orange-700">
+                                        {t.comic.retry}
+                                    </button>
+                                </div>
                             ) : 'imageBase64' in panel ? (
                                 <>
-                                    <img src={`data:${panel.mimeType};base64,${panel.imageBase64}`} alt={`Quadro ${panel.sceneNumber}`} className="w-full h-full object-cover rounded-md" />
-                                    <button onClick={() => handleDownloadPanel(panel)} className="absolute top-2 right-2 bg-green-600 text-white p-2 rounded-full hover:bg-green-700 transition-all opacity-0 group-hover:opacity-100">
-                                        <DownloadIcon />
-                                    </button>
+                                    <img src={`data:${panel.mimeType};base64,${panel.imageBase64}`} alt={t.comic.panel(panel.sceneNumber)} className="w-full h-full object-cover rounded-md" />
+                                    <BalloonLayer balloons={panel.balloons ?? []} />
+                                    {regeneratingSceneIds.includes(panel.sceneId) && (
+                                        <div className="absolute bottom-2 left-2 flex items-center gap-2 bg-gray-900/80 text-gray-200 text-sm font-semibold py-1 px-3 rounded-full">
+                                            <Spinner /> {t.comic.generatingVersion}
+                                        </div>
+                                    )}
+                                    <div className="absolute top-2 right-2 flex flex-wrap justify-end gap-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-all">
+                                        <button onClick={() => setEditingSceneId(panel.sceneId)} className="flex items-center gap-1 bg-gray-900/80 text-white py-2 px-3 rounded-full hover:bg-gray-900 text-sm font-semibold" aria-label={t.comic.editPanel(panel.sceneNumber)}>
+                                            <EditIcon /> {t.common.edit}
+                                        </button>
+                                        <button onClick={() => setEditingBalloonsSceneId(panel.sceneId)} className="bg-gray-900/80 text-white py-2 px-3 rounded-full hover:bg-gray-900 text-sm font-semibold" aria-label={t.comic.editBalloons(panel.sceneNumber)}>
+                                            {t.comic.balloons}
+                                        </button>
+                                        <button onClick={() => setVariationsSceneId(panel.sceneId)} className="bg-gray-900/80 text-white py-2 px-3 rounded-full hover:bg-gray-900 text-sm font-semibold" aria-label={t.comic.panelVersions(panel.sceneNumber)}>
+                                            {t.comic.versions(panel.candidates?.length ?? 0)}
+                                        </button>
+                                        <button onClick={() => handleDownloadPanel(panel)} className="bg-green-600 text-white p-2 rounded-full hover:bg-green-700" aria-label={t.comic.downloadPanel(panel.sceneNumber)}>
+                                            <DownloadIcon />
+                                        </button>
+                                    </div>
                                 </>
-                            ) : null}
+                            ) : (
+                                <div className="flex flex-col items-center gap-3 p-4">
+                                    <p className="text-gray-400 text-sm text-center">{t.comic.panelNotGenerated}</p>
+                                    <button onClick={() => handleRegeneratePanel(panel.sceneId)} className="text-sm text-white font-semibold py-2 px-4 rounded-full bg-orange-600 hover:bg-orange-700">
+                                        {t.comic.generatePanel}
+                                    </button>
+                                </div>
+                            )}
                         </div>
                     </div>
                 ))}
             </div>
-             <div className="mt-8 text-center">
+             <div className="mt-8 flex flex-wrap justify-center gap-4">
                  <button onClick={handleStartOver} className="text-orange-400 font-semibold py-3 px-6 rounded-full hover:bg-gray-700 transition-colors">
-                     Criar Nova História
+                     {t.comic.startOver}
+                 </button>
+                 <button
+                    onClick={() => setStep('script')}
+                    disabled={isGeneratingPanels}
+                    className="text-gray-300 font-semibold py-3 px-6 rounded-full hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                 >
+                     {t.comic.backToScript}
+                 </button>
+                 <button
+                    onClick={() => setStep('page')}
+                    disabled={isGeneratingPanels || generatedPanels.length === 0}
+                    className="flex items-center justify-center gap-2 bg-gradient-to-r from-orange-500 to-orange-600 text-white font-bold py-3 px-6 rounded-full hover:from-orange-600 hover:to-orange-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                 >
+                     {t.comic.composePage}
                  </button>
              </div>
         </>
     );
 
+    const renderPageStep = () => (
+        <>
+            {renderStepper()}
+            <div className="text-center mb-8">
+                 <h3 className="text-2xl font-bold text-gray-100 mb-2">{t.comic.pageTitle}</h3>
+                 <p className="text-gray-400">{t.comic.pageHint}</p>
+            </div>
+            <ComicPageComposer
+                title={script?.title ?? ''}
+                panels={generatedPanels}
+                settings={pageSettings}
+                onSettingsChange={setPageSettings}
+            />
+            <div className="mt-8 bg-gray-900/50 p-5 rounded-xl border border-gray-700 text-center">
+                <h4 className="text-lg font-bold text-gray-200 mb-1">{t.comic.exportBookTitle}</h4>
+                <p className="text-sm text-gray-400 mb-4">{t.comic.exportBookHint}</p>
+                <div className="flex flex-wrap justify-center gap-3">
+                    {([['pdf', t.comic.exportPdf], ['cbz', t.comic.exportCbz]] as [BookFormat, string][]).map(([format, label]) => (
+                        <button
+                            key={format}
+                            onClick={() => handleExportBook(format)}
+                            disabled={exportingFormat !== null || generatedPanels.length === 0}
+                            className="flex items-center gap-2 bg-green-600 text-white font-semibold py-2 px-5 rounded-full hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {exportingFormat === format ? <Spinner /> : <DownloadIcon />}
+                            {exportingFormat === format ? t.common.exporting : label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="mt-8 text-center">
+                 <button onClick={() => setStep('panels')} className="text-gray-300 font-semibold py-3 px-6 rounded-full hover:bg-gray-700 transition-colors">
+                     {t.comic.backToPanels}
+                 </button>
+            </div>
+        </>
+    );
+
     return (
         <div className="bg-gray-800 p-6 rounded-2xl shadow-2xl max-w-5xl mx-auto min-h-[500px]">
+            {projectId && (
+                <div className="flex justify-end mb-2">
+                    <AutosaveIndicator status={autosaveStatus} />
+                </div>
+            )}
             {error && <p className="text-center text-red-400 my-4 bg-red-900/50 p-3 rounded-lg">{error}</p>}
             {step === 'idea' && renderIdeaStep()}
             {step === 'script' && renderScriptStep()}
             {step === 'panels' && renderPanelsStep()}
+            {step === 'page' && renderPageStep()}
+            {editingPanel && (
+                <ComicEditor
+                    imageDataUrl={`data:${editingPanel.mimeType};base64,${editingPanel.imageBase64}`}
+                    onSave={imageBase64 => handleSavePanelEdit(editingPanel.sceneId, imageBase64)}
+                    onClose={() => setEditingSceneId(null)}
+                />
+            )}
+            {editingBalloonsPanel && (
+                <BalloonEditor
+                    imageDataUrl={`data:${editingBalloonsPanel.mimeType};base64,${editingBalloonsPanel.imageBase64}`}
+                    balloons={editingBalloonsPanel.balloons ?? []}
+                    onSave={balloons => handleSaveBalloons(editingBalloonsPanel.sceneId, balloons)}
+                    onClose={() => setEditingBalloonsSceneId(null)}
+                    language={script?.language}
+                />
+            )}
+            {variationsPanel && (
+                <ComicPanelVariations
+                    panel={variationsPanel}
+                    artStyles={ART_STYLES}
+                    defaultArtStyle={artStyle}
+                    isGenerating={regeneratingSceneIds.includes(variationsPanel.sceneId)}
+                    onGenerate={(instruction, panelArtStyle) => handleRegeneratePanel(variationsPanel.sceneId, instruction, panelArtStyle)}
+                    onCancel={() => handleCancelPanel(variationsPanel.sceneId)}
+                    onSelect={candidateId => handleSelectCandidate(variationsPanel.sceneId, candidateId)}
+                    onRemove={candidateId => handleRemoveCandidate(variationsPanel.sceneId, candidateId)}
+                    onClose={() => setVariationsSceneId(null)}
+                />
+            )}
         </div>
     );
 };
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import type { ComicPageSettings, GeneratedPanel } from '../types';
+import { COMIC_PAGE_LAYOUTS, orderPanels, renderComicPage } from '../utils/comicPage';
+import { createComicPagePng, slugify } from '../utils/exportUtils';
+import { downloadBlob } from '../utils/fileUtils';
+import Spinner from './Spinner';
+import DownloadIcon from './icons/DownloadIcon';
+import { useI18n } from '../hooks/useI18n';
+
+interface ComicPageComposerProps {
+    title: string;
+    panels: GeneratedPanel[];
+    settings: ComicPageSettings;
+    onSettingsChange: (settings: ComicPageSettings) => void;
+}
+
+// A pré-visualização usa a mesma renderização da exportação, em escala reduzida.
+const PREVIEW_SCALE = 0.25;
+const PREVIEW_DEBOUNCE_MS = 200;
+
+const ComicPageComposer: React.FC<ComicPageComposerProps> = ({ title, panels, settings, onSettingsChange }) => {
+    const { t } = useI18n();
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+    const [draggedSceneId, setDraggedSceneId] = useState<string | null>(null);
+
+    const orderedPanels = orderPanels(panels, settings.panelOrder);
+
+    useEffect(() => {
+        let isCancelled = false;
+        const timeout = window.setTimeout(async () => {
+            try {
+                const canvas = await renderComicPage(title, panels, settings, PREVIEW_SCALE);
+                if (!isCancelled) setPreviewUrl(canvas.toDataURL('image/png'));
+            } catch (e) {
+                console.error("Failed to render comic page preview:", e);
+            }
+        }, PREVIEW_DEBOUNCE_MS);
+        return () => {
+            isCancelled = true;
+            clearTimeout(timeout);
+        };
+    }, [title, panels, settings]);
+
+    const update = (changes: Partial<ComicPageSettings>) => onSettingsChange({ ...settings, ...changes });
+
+    const handleDrop = (targetSceneId: string) => {
+        if (draggedSceneId === null || draggedSceneId === targetSceneId) return;
+        const order = orderedPanels.map(panel => panel.sceneId).filter(sceneId => sceneId !== draggedSceneId);
+        order.splice(order.indexOf(targetSceneId), 0, draggedSceneId);
+        update({ panelOrder: order });
+        setDraggedSceneId(null);
+    };
+
+    const handleCaptionChange = (sceneId: string, caption: string) => {
+        update({ captions: { ...settings.captions, [sceneId]: caption } });
+    };
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            const blob = await createComicPagePng(title, panels, settings);
+            downloadBlob(blob, `${slugify(title) || 'quadrinho'}-pagina.png`);
+        } catch (e) {
+            console.error("Failed to export comic page:", e);
+            alert(t.pageComposer.exportFailed);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-5">
+                <div>
+                    <h4 className="text-sm font-semibold text-gray-300 mb-2">{t.pageComposer.layout}</h4>
+                    <div className="flex flex-wrap gap-2">
+                        {COMIC_PAGE_LAYOUTS.map(layout => (
+                            <button
+                                key={layout}
+                                onClick={() => update({ layout })}
+                                className={`px-3 py-1.5 rounded-full text-sm font-semibold transition-colors ${settings.layout === layout ? 'bg-orange-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                            >
+                                {t.comicPageLayouts[layout]}
+                            </button>
+                        ))}
+                    </div>
+                    {settings.layout === 'custom' && (
+                        <label className="flex items-center gap-2 text-sm text-gray-300 mt-3">
+                            {t.pageComposer.columns}
+                            <input
+                                type="number"
+                                min={1}
+                                max={6}
+                                value={settings.customColumns}
+                                onChange={e => update({ customColumns: Math.min(6, Math.max(1, parseInt(e.target.value) || 1)) })}
+                                className="w-16 bg-gray-700 text-white p-1 rounded border border-gray-600"
+                            />
+                        </label>
+                    )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4 text-sm text-gray-300">
+                    <label className="flex flex-col gap-1">
+                        {t.pageComposer.gutter(settings.gutter)}
+                        <input type="range" min={0} max={96} value={settings.gutter} onChange={e => update({ gutter: parseInt(e.target.value) })} />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        {t.pageComposer.border(settings.borderWidth)}
+                        <input type="range" min={0} max={24} value={settings.borderWidth} onChange={e => update({ borderWidth: parseInt(e.target.value) })} />
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="color" value={settings.borderColor} onChange={e => update({ borderColor: e.target.value })} className="w-8 h-8 bg-gray-700 rounded cursor-pointer" />
+                        {t.pageComposer.borderColor}
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="color" value={settings.backgroundColor} onChange={e => update({ backgroundColor: e.target.value })} className="w-8 h-8 bg-gray-700 rounded cursor-pointer" />
+                        {t.pageComposer.background}
+                    </label>
+                    <label className="flex items-center gap-2 col-span-2 select-none">
+                        <input type="checkbox" checked={settings.showTitle} onChange={e => update({ showTitle: e.target.checked })} className="h-4 w-4 rounded text-orange-600 bg-gray-700" />
+                        {t.pageComposer.showTitle(title)}
+                    </label>
+                </div>
+
+                <div>
+                    <h4 className="text-sm font-semibold text-gray-300 mb-2">{t.pageComposer.orderAndCaptions}</h4>
+                    <p className="text-xs text-gray-500 mb-2">{t.pageComposer.dragHint}</p>
+                    <ul className="space-y-2">
+                        {orderedPanels.map((panel, index) => (
+                            <li
+                                key={panel.sceneId}
+                                draggable
+                                onDragStart={() => setDraggedSceneId(panel.sceneId)}
+                                onDragEnd={() => setDraggedSceneId(null)}
+                                onDragOver={e => e.preventDefault()}
+                                onDrop={() => handleDrop(panel.sceneId)}
+                                className={`flex items-center gap-3 p-2 rounded-lg border cursor-move ${draggedSceneId === panel.sceneId ? 'border-orange-500 opacity-50' : 'border-gray-700 bg-gray-700/40'}`}
+                            >
+                                <span className="text-gray-400 font-bold w-5 text-center">{index + 1}</span>
+                                <img src={`data:${panel.mimeType};base64,${panel.imageBase64}`} alt={t.comic.panel(panel.sceneNumber)} className="w-14 h-14 object-cover rounded" />
+                                <input
+                                    type="text"
+                                    value={settings.captions[panel.sceneId] ?? ''}
+                                    onChange={e => handleCaptionChange(panel.sceneId, e.target.value)}
+                                    placeholder={t.pageComposer.captionPlaceholder}
+                                    className="flex-1 min-w-0 bg-gray-700 text-white text-sm p-2 rounded border border-gray-600 focus:border-orange-500"
+                                />
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            </div>
+
+            <div className="flex flex-col items-center gap-4">
+                <div className="w-full bg-gray-900/50 rounded-lg border border-gray-700 p-3 flex items-center justify-center min-h-[300px]">
+                    {previewUrl ? <img src={previewUrl} alt={t.pageComposer.previewAlt} className="max-w-full max-h-[600px] object-contain" /> : <Spinner />}
+                </div>
+                <button
+                    onClick={handleExport}
+                    disabled={isExporting || panels.length === 0}
+                    className="flex items-center gap-2 bg-green-600 text-white font-semibold py-2 px-5 rounded-full hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isExporting ? <Spinner /> : <DownloadIcon />}
+                    {isExporting ? t.common.exporting : t.pageComposer.export}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ComicPageComposer;
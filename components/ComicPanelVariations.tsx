@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import type { GeneratedPanel } from '../types';
+import Spinner from './Spinner';
+import SparklesIcon from './icons/SparklesIcon';
+import RemoveIcon from './icons/RemoveIcon';
+import { useI18n } from '../hooks/useI18n';
+
+interface ComicPanelVariationsProps {
+    panel: GeneratedPanel;
+    artStyles: string[];
+    defaultArtStyle: string;
+    isGenerating: boolean;
+    onGenerate: (instruction: string, artStyle: string) => void;
+    onCancel: () => void;
+    onSelect: (candidateId: string) => void;
+    onRemove: (candidateId: string) => void;
+    onClose: () => void;
+}
+
+const ComicPanelVariations: React.FC<ComicPanelVariationsProps> = ({
+    panel,
+    artStyles,
+    defaultArtStyle,
+    isGenerating,
+    onGenerate,
+    onCancel,
+    onSelect,
+    onRemove,
+    onClose,
+}) => {
+    const { t } = useI18n();
+    const [instruction, setInstruction] = useState('');
+    const [artStyle, setArtStyle] = useState(panel.artStyle ?? defaultArtStyle);
+
+    const candidates = panel.candidates ?? [];
+    const styleLabel = (style: string) => t.comic.artStyles[style] ?? style;
+
+    const handleGenerate = () => {
+        onGenerate(instruction.trim(), artStyle);
+        setInstruction('');
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+            <div className="bg-gray-800 rounded-2xl p-6 shadow-2xl flex flex-col gap-5 w-full max-w-3xl max-h-full overflow-auto">
+                <h3 className="text-xl font-bold text-white text-center">{t.variations.title(panel.sceneNumber)}</h3>
+
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                    {candidates.map(candidate => {
+                        const isActive = candidate.id === panel.activeCandidateId;
+                        return (
+                            <div key={candidate.id} className="relative group">
+                                <button
+                                    onClick={() => onSelect(candidate.id)}
+                                    className={`block w-full aspect-square rounded-lg overflow-hidden border-4 ${isActive ? 'border-orange-500' : 'border-transparent hover:border-gray-500'}`}
+                                    aria-pressed={isActive}
+                                    aria-label={t.variations.useVersion(styleLabel(candidate.artStyle))}
+                                >
+                                    <img src={`data:${candidate.mimeType};base64,${candidate.imageBase64}`} alt="" className="w-full h-full object-cover" />
+                                </button>
+                                <p className="text-xs text-gray-400 mt-1 truncate" title={candidate.instruction}>
+                                    {styleLabel(candidate.artStyle)}{candidate.instruction ? ` · ${candidate.instruction}` : ''}
+                                </p>
+                                {!isActive && (
+                                    <button
+                                        onClick={() => onRemove(candidate.id)}
+                                        className="absolute top-2 right-2 bg-gray-900/80 text-gray-300 hover:text-red-400 rounded-full p-1 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                                        aria-label={t.variations.discard}
+                                    >
+                                        <RemoveIcon />
+                                    </button>
+                                )}
+                            </div>
+                        );
+                    })}
+                    {isGenerating && (
+                        <div className="aspect-square rounded-lg bg-gray-900 flex flex-col items-center justify-center gap-3">
+                            <Spinner />
+                            <button onClick={onCancel} className="text-sm text-gray-300 font-semibold py-1 px-4 rounded-full border border-gray-600 hover:bg-gray-700">
+                                {t.common.cancel}
+                            </button>
+                        </div>
+                    )}
+                </div>
+
+                <div className="space-y-3 border-t border-gray-700 pt-4">
+                    <h4 className="text-sm font-semibold text-gray-300">{t.variations.newVersion}</h4>
+                    <input
+                        type="text"
+                        value={instruction}
+                        onChange={e => setInstruction(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter' && !isGenerating) handleGenerate(); }}
+                        placeholder={t.variations.instructionPlaceholder}
+                        className="w-full bg-gray-700 text-white text-sm p-3 rounded-lg border-2 border-gray-600 focus:border-orange-500"
+                    />
+                    <div className="flex flex-wrap items-center gap-2 bg-gray-700 rounded-full p-1">
+                        {artStyles.map(style => (
+                            <button
+                                key={style}
+                                onClick={() => setArtStyle(style)}
+                                className={`flex-grow px-4 py-2 rounded-full text-sm font-semibold transition-all ${artStyle === style ? 'bg-orange-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}
+                            >
+                                {styleLabel(style)}
+                            </button>
+                        ))}
+                    </div>
+                    {artStyle !== defaultArtStyle && (
+                        <p className="text-xs text-gray-400">{t.variations.onlyThisPanel(styleLabel(artStyle), styleLabel(defaultArtStyle))}</p>
+                    )}
+                </div>
+
+                <div className="flex justify-end gap-3">
+                    <button onClick={onClose} className="py-2 px-5 bg-gray-600 text-white font-semibold rounded-full hover:bg-gray-500 transition-colors">{t.common.close}</button>
+                    <button
+                        onClick={handleGenerate}
+                        disabled={isGenerating}
+                        className="flex items-center gap-2 py-2 px-5 bg-orange-600 text-white font-semibold rounded-full hover:bg-orange-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <SparklesIcon /> {t.variations.generate}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ComicPanelVariations;
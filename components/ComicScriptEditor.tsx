@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import type { ComicScript, Scene } from '../types';
+import Spinner from './Spinner';
+import SparklesIcon from './icons/SparklesIcon';
+import RemoveIcon from './icons/RemoveIcon';
+import { useI18n } from '../hooks/useI18n';
+
+interface ComicScriptEditorProps {
+    script: ComicScript;
+    onChange: (script: ComicScript) => void;
+    onRewriteScene: (sceneId: string, instruction: string) => void;
+    onCancelRewrite: () => void;
+    rewritingSceneId: string | null;
+    children?: React.ReactNode; // exibido entre o resumo e as cenas (o elenco)
+}
+
+// Os números das cenas sempre seguem a ordem da lista; os ids não mudam.
+const renumber = (scenes: Scene[]): Scene[] => scenes.map((scene, index) => ({ ...scene, sceneNumber: index + 1 }));
+
+const ComicScriptEditor: React.FC<ComicScriptEditorProps> = ({ script, onChange, onRewriteScene, onCancelRewrite, rewritingSceneId, children }) => {
+    const { t } = useI18n();
+    const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+    const [rewriteTarget, setRewriteTarget] = useState<string | null>(null);
+    const [rewriteInstruction, setRewriteInstruction] = useState('');
+
+    const characters = script.characters ?? [];
+    const isRewriting = rewritingSceneId !== null;
+    // Os textos do roteiro estão no idioma em que ele foi gerado, não no da interface.
+    const scriptLanguage = script.language ?? 'pt-BR';
+
+    const setScenes = (scenes: Scene[]) => onChange({ ...script, scenes: renumber(scenes) });
+
+    const updateScene = (index: number, changes: Partial<Scene>) => {
+        setScenes(script.scenes.map((scene, i) => i === index ? { ...scene, ...changes } : scene));
+    };
+
+    const updateDialogue = (index: number, dialogue: string[]) => updateScene(index, { dialogue });
+
+    const toggleCharacter = (index: number, characterId: string) => {
+        const characterIds = script.scenes[index].characterIds ?? [];
+        updateScene(index, {
+            characterIds: characterIds.includes(characterId)
+                ? characterIds.filter(id => id !== characterId)
+                : [...characterIds, characterId],
+        });
+    };
+
+    const handleAddScene = () => {
+        setScenes([...script.scenes, { id: crypto.randomUUID(), sceneNumber: script.scenes.length + 1, description: '', dialogue: [], characterIds: [] }]);
+    };
+
+    const handleDeleteScene = (index: number) => {
+        setScenes(script.scenes.filter((_, i) => i !== index));
+        setRewriteTarget(null);
+    };
+
+    const handleDrop = (targetIndex: number) => {
+        if (draggedIndex === null || draggedIndex === targetIndex) return;
+        const scenes = [...script.scenes];
+        const [moved] = scenes.splice(draggedIndex, 1);
+        scenes.splice(targetIndex, 0, moved);
+        setScenes(scenes);
+        setDraggedIndex(null);
+        setRewriteTarget(null);
+    };
+
+    const handleRewrite = (sceneId: string) => {
+        onRewriteScene(sceneId, rewriteInstruction.trim());
+        setRewriteTarget(null);
+        setRewriteInstruction('');
+    };
+
+    return (
+        <div className="space-y-4">
+            <input
+                type="text"
+                value={script.title}
+                onChange={e => onChange({ ...script, title: e.target.value })}
+                placeholder={t.scriptEditor.titlePlaceholder}
+                lang={scriptLanguage}
+                className="w-full bg-transparent text-2xl font-bold text-orange-400 text-center p-2 rounded-lg border-2 border-transparent hover:border-gray-600 focus:border-orange-500 focus:outline-none"
+            />
+            <textarea
+                value={script.summary}
+                onChange={e => onChange({ ...script, summary: e.target.value })}
+                placeholder={t.scriptEditor.summaryPlaceholder}
+                lang={scriptLanguage}
+                className="w-full bg-transparent text-gray-300 text-center italic p-2 rounded-lg border-2 border-transparent hover:border-gray-600 focus:border-orange-500 focus:outline-none h-16 resize-none"
+            />
+
+            {children}
+
+            <div className="space-y-4">
+                {script.scenes.map((scene, index) => (
+                    <div
+                        key={scene.id}
+                        onDragOver={e => e.preventDefault()}
+                        onDrop={() => handleDrop(index)}
+                        className={`relative bg-gray-700/50 p-4 rounded-lg border ${draggedIndex === index ? 'border-orange-500 opacity-50' : 'border-transparent'}`}
+                    >
+                        <div className="flex items-center gap-2 mb-2">
+                            <span
+                                draggable={!isRewriting}
+                                onDragStart={() => setDraggedIndex(index)}
+                                onDragEnd={() => setDraggedIndex(null)}
+                                className={`text-gray-400 select-none px-1 ${isRewriting ? 'cursor-not-allowed' : 'cursor-move'}`}
+                                title={t.scriptEditor.dragToReorder}
+                                aria-label={t.scriptEditor.movePanel(scene.sceneNumber)}
+                            >
+                                ⋮⋮
+                            </span>
+                            <p className="font-bold text-white flex-1">{t.comic.panel(scene.sceneNumber)}</p>
+                            <button
+                                onClick={() => setRewriteTarget(rewriteTarget === scene.id ? null : scene.id)}
+                                disabled={isRewriting}
+                                className="flex items-center gap-1 text-sm font-semibold text-orange-400 hover:text-orange-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <SparklesIcon /> {t.scriptEditor.rewriteScene}
+                            </button>
+                            <button
+                                onClick={() => handleDeleteScene(index)}
+                                disabled={isRewriting}
+                                className="text-gray-400 hover:text-red-400 p-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                                aria-label={t.scriptEditor.deletePanel(scene.sceneNumber)}
+                            >
+                                <RemoveIcon />
+                            </button>
+                        </div>
+
+                        {rewriteTarget === scene.id && (
+                            <div className="flex gap-2 mb-3">
+                                <input
+                                    type="text"
+                                    value={rewriteInstruction}
+                                    onChange={e => setRewriteInstruction(e.target.value)}
+                                    onKeyDown={e => { if (e.key === 'Enter') handleRewrite(scene.id); }}
+                                    placeholder={t.scriptEditor.rewritePlaceholder}
+                                    className="flex-1 min-w-0 bg-gray-700 text-white text-sm p-2 rounded border border-gray-600 focus:border-orange-500"
+                                    autoFocus
+                                />
+                                <button onClick={() => handleRewrite(scene.id)} className="bg-orange-600 text-white text-sm font-semibold py-2 px-4 rounded-full hover:bg-orange-700">
+                                    {t.scriptEditor.rewrite}
+                                </button>
+                            </div>
+                        )}
+
+                        <label className="block text-sm font-semibold text-gray-400 mb-1">{t.scriptEditor.scene}</label>
+                        <textarea
+                            value={scene.description}
+                            onChange={e => updateScene(index, { description: e.target.value })}
+                            placeholder={t.scriptEditor.scenePlaceholder}
+                            lang={scriptLanguage}
+                            className="w-full bg-gray-700 text-gray-200 text-sm p-2 rounded border border-gray-600 focus:border-orange-500 h-20 resize-y"
+                        />
+
+                        <label className="block text-sm font-semibold text-gray-400 mt-2 mb-1">{t.scriptEditor.dialogue}</label>
+                        <div className="space-y-2">
+                            {scene.dialogue.map((line, lineIndex) => (
+                                <div key={lineIndex} className="flex items-center gap-2">
+                                    <input
+                                        type="text"
+                                        value={line}
+                                        onChange={e => updateDialogue(index, scene.dialogue.map((d, i) => i === lineIndex ? e.target.value : d))}
+                                        lang={scriptLanguage}
+                                        className="flex-1 min-w-0 bg-gray-700 text-gray-200 text-sm p-2 rounded border border-gray-600 focus:border-orange-500"
+                                    />
+                                    <button
+                                        onClick={() => updateDialogue(index, scene.dialogue.filter((_, i) => i !== lineIndex))}
+                                        className="text-gray-400 hover:text-red-400 p-1"
+                                        aria-label={t.scriptEditor.removeLine}
+                                    >
+                                        <RemoveIcon />
+                                    </button>
+                                </div>
+                            ))}
+                            <button onClick={() => updateDialogue(index, [...scene.dialogue, ''])} className="text-sm font-semibold text-gray-300 hover:text-orange-400">
+                                {t.scriptEditor.addLine}
+                            </button>
+                        </div>
+
+                        {characters.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-2 mt-3">
+                                <span className="text-sm font-semibold text-gray-400">{t.scriptEditor.characters}</span>
+                                {characters.map(character => {
+                                    const isTagged = scene.characterIds?.includes(character.id) ?? false;
+                                    return (
+                                        <button
+                                            key={character.id}
+                                            onClick={() => toggleCharacter(index, character.id)}
+                                            aria-pressed={isTagged}
+                                            className={`px-3 py-1 rounded-full text-xs font-semibold transition-colors ${isTagged ? 'bg-orange-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`}
+                                        >
+                                            {character.name || t.scriptEditor.unnamed}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        )}
+
+                        {rewritingSceneId === scene.id && (
+                            <div className="absolute inset-0 bg-gray-900/80 rounded-lg flex flex-col items-center justify-center gap-3">
+                                <div className="flex items-center gap-2 text-gray-200 font-semibold"><Spinner /> {t.scriptEditor.rewriting}</div>
+                                <button onClick={onCancelRewrite} className="text-gray-300 font-semibold py-1 px-4 rounded-full border border-gray-600 hover:bg-gray-700">
+                                    {t.common.cancel}
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            <button
+                onClick={handleAddScene}
+                disabled={isRewriting}
+                className="w-full border-2 border-dashed border-gray-600 text-gray-300 font-semibold py-2 rounded-lg hover:border-orange-500 hover:text-orange-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                {t.scriptEditor.addScene}
+            </button>
+        </div>
+    );
+};
+
+export default ComicScriptEditor;
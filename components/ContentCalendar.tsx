@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { OutboxEntry, Platform, ScheduledPost, ScheduledPostStatus } from '../types';
+import DownloadIcon from './icons/DownloadIcon';
+import RemoveIcon from './icons/RemoveIcon';
+import { publishNow, rescheduleItem, unscheduleItem } from '../services/contentCalendar';
+import { deleteOutboxEntry, listOutboxEntries } from '../services/projectStore';
+import { addMonths, fromDateAndTime, getMonthGrid, moveToDay, startOfMonth, toDateValue, toTimeValue } from '../utils/calendarUtils';
+import { downloadBlob } from '../utils/fileUtils';
+import { PLATFORMS } from '../utils/platformPresets';
+import { useContentCalendar } from '../hooks/useContentCalendar';
+import { useI18n } from '../hooks/useI18n';
+import type { Locale } from '../utils/i18n';
+
+// Primeiro dia da semana na grade, seguindo o costume de cada idioma (0 = domingo).
+const WEEK_STARTS_ON: Record<Locale, number> = { 'pt-BR': 0, en: 0, es: 1 };
+
+const STATUS_STYLES: Record<ScheduledPostStatus, string> = {
+    scheduled: 'bg-gray-700 text-gray-200',
+    publishing: 'bg-orange-900/60 text-orange-200',
+    published: 'bg-green-900/60 text-green-200',
+    failed: 'bg-red-900/60 text-red-200',
+};
+
+// Só o que ainda não saiu pode mudar de dia, horário ou canal.
+const isEditable = (item: ScheduledPost) => item.status === 'scheduled' || item.status === 'failed';
+
+const ContentCalendar: React.FC = () => {
+    const { locale, t } = useI18n();
+    const items = useContentCalendar();
+    const [month, setMonth] = useState(() => startOfMonth(new Date()));
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+    const [outbox, setOutbox] = useState<OutboxEntry[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const days = useMemo(() => getMonthGrid(month, WEEK_STARTS_ON[locale]), [month, locale]);
+    const itemsByDay = useMemo(() => {
+        const groups = new Map<string, ScheduledPost[]>();
+        items.forEach(item => {
+            const key = toDateValue(item.scheduledAt);
+            groups.set(key, [...(groups.get(key) ?? []), item]);
+        });
+        return groups;
+    }, [items]);
+    const monthCount = items.filter(item => new Date(item.scheduledAt).getMonth() === month.getMonth() && new Date(item.scheduledAt).getFullYear() === month.getFullYear()).length;
+    const selected = items.find(item => item.id === selectedId) ?? null;
+    const todayValue = toDateValue(Date.now());
+
+    // A caixa de saída muda quando algum item é publicado; recarrega junto com o calendário.
+    useEffect(() => {
+        listOutboxEntries()
+            .then(setOutbox)
+            .catch(e => {
+                console.error("Failed to load outbox:", e);
+                setError(t.calendar.outboxLoadFailed);
+            });
+    }, [items, t]);
+
+    const runAction = async (action: () => Promise<unknown>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (e) {
+            console.error(e);
+            setError(t.calendar.updateFailed);
+        }
+    };
+
+    const handleDrop = (e: React.DragEvent, dayValue: string) => {
+        e.preventDefault();
+        setDropTarget(null);
+        const item = items.find(existing => existing.id === e.dataTransfer.getData('text/plain'));
+        if (item && isEditable(item) && toDateValue(item.scheduledAt) !== dayValue) {
+            runAction(() => rescheduleItem(item.id, { scheduledAt: moveToDay(item.scheduledAt, dayValue) }));
+        }
+    };
+
+    const handleRemove = (item: ScheduledPost) => {
+        if (window.confirm(t.calendar.removeConfirm)) {
+            setSelectedId(null);
+            runAction(() => unscheduleItem(item.id));
+        }
+    };
+
+    const handleDeleteEntry = (entry: OutboxEntry) => {
+        runAction(async () => {
+            await deleteOutboxEntry(entry.id);
+            setOutbox(await listOutboxEntries());
+        });
+    };
+
+    const headlineOf = (item: ScheduledPost) => item.post.texts[item.post.activeTextIndex]?.headline || t.calendar.untitled;
+    const weekdayFormat = new Intl.DateTimeFormat(locale, { weekday: 'short' });
+    const formatDateTime = (timestamp: number) => new Date(timestamp).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short' });
+
+    return (
+        <div className="bg-gray-800 p-6 rounded-2xl shadow-2xl max-w-6xl mx-auto space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <h2 className="text-2xl font-bold text-white capitalize">
+                        {month.toLocaleDateString(locale, { month: 'long', year: 'numeric' })}
+                    </h2>
+                    <p className="text-sm text-gray-400">{t.calendar.monthSummary(monthCount)}</p>
+                </div>
+                <div className="flex items-center gap-2 text-sm font-semibold">
+                    <button onClick={() => setMonth(addMonths(month, -1))} className="py-2 px-4 bg-gray-700 rounded-full hover:bg-gray-600" aria-label={t.calendar.previousMonth}>‹</button>
+                    <button onClick={() => setMonth(startOfMonth(new Date()))} className="py-2 px-4 bg-gray-700 rounded-full hover:bg-gray-600">{t.calendar.today}</button>
+                    <button onClick={() => setMonth(addMonths(month, 1))} className="py-2 px-4 bg-gray-700 rounded-full hover:bg-gray-600" aria-label={t.calendar.nextMonth}>›</button>
+                </div>
+            </div>
+            <p className="text-sm text-gray-400">{items.length === 0 ? t.calendar.empty : t.calendar.hint}</p>
+            {error && <p className="text-center text-red-400" role="alert">{error}</p>}
+
+            <div className="grid grid-cols-7 gap-1 text-xs">
+                {days.slice(0, 7).map(day => (
+                    <div key={day.getDay()} className="text-center font-semibold text-gray-400 uppercase pb-1">{weekdayFormat.format(day)}</div>
+                ))}
+                {days.map(day => {
+                    const dayValue = toDateValue(day);
+                    const dayItems = itemsByDay.get(dayValue) ?? [];
+                    const isCurrentMonth = day.getMonth() === month.getMonth();
+                    return (
+                        <div
+                            key={dayValue}
+                            onDragOver={e => { e.preventDefault(); setDropTarget(dayValue); }}
+                            onDragLeave={() => setDropTarget(current => current === dayValue ? null : current)}
+                            onDrop={e => handleDrop(e, dayValue)}
+                            className={`min-h-24 rounded-lg p-1 flex flex-col gap-1 border-2 transition-colors ${dropTarget === dayValue ? 'border-orange-500' : 'border-transparent'} ${isCurrentMonth ? 'bg-gray-900' : 'bg-gray-900/40'}`}
+                        >
+                            <span className={`self-end px-1.5 rounded-full ${dayValue === todayValue ? 'bg-orange-600 text-white' : isCurrentMonth ? 'text-gray-300' : 'text-gray-600'}`}>
+                                {day.getDate()}
+                            </span>
+                            {dayItems.map(item => (
+                                <button
+                                    key={item.id}
+                                    draggable={isEditable(item)}
+                                    onDragStart={e => e.dataTransfer.setData('text/plain', item.id)}
+                                    onClick={() => setSelectedId(item.id)}
+                                    title={`${t.platforms[item.channel]} · ${t.calendar.statuses[item.status]}`}
+                                    className={`flex items-center gap-1 rounded px-1 py-0.5 text-left border ${STATUS_STYLES[item.status]} ${item.id === selectedId ? 'border-orange-500' : 'border-transparent'} ${isEditable(item) ? 'cursor-grab' : ''}`}
+                                >
+                                    <img src={`data:${item.post.imageMimeType};base64,${item.post.image}`} alt="" className="w-5 h-5 rounded-sm object-cover flex-shrink-0" />
+                                    <span className="font-semibold">{toTimeValue(item.scheduledAt)}</span>
+                                    <span className="truncate">{headlineOf(item)}</span>
+                                </button>
+                            ))}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {selected && (
+                <div className="bg-gray-700/50 rounded-xl p-4 flex flex-col sm:flex-row gap-4">
+                    <img src={`data:${selected.post.imageMimeType};base64,${selected.post.image}`} alt={selected.post.texts[selected.post.activeTextIndex]?.altText ?? ''} className="w-32 h-32 rounded-lg object-cover flex-shrink-0" />
+                    <div className="flex-grow space-y-3">
+                        <div className="flex flex-wrap items-center gap-2">
+                            <p className="font-semibold text-white">{headlineOf(selected)}</p>
+                            <span className={`text-xs font-semibold rounded-full px-2.5 py-1 ${STATUS_STYLES[selected.status]}`}>{t.calendar.statuses[selected.status]}</span>
+                            <button onClick={() => setSelectedId(null)} className="ml-auto text-gray-400 hover:text-white" aria-label={t.common.close}><RemoveIcon /></button>
+                        </div>
+                        <div className="flex flex-wrap gap-3">
+                            <input
+                                type="date"
+                                value={toDateValue(selected.scheduledAt)}
+                                disabled={!isEditable(selected)}
+                                onChange={e => e.target.value && runAction(() => rescheduleItem(selected.id, { scheduledAt: moveToDay(selected.scheduledAt, e.target.value) }))}
+                                className="bg-gray-700 text-white text-sm p-2 rounded-md border-2 border-gray-600 focus:border-orange-500 disabled:opacity-50"
+                                aria-label={t.scheduleDialog.date}
+                            />
+                            <input
+                                type="time"
+                                value={toTimeValue(selected.scheduledAt)}
+                                disabled={!isEditable(selected)}
+                                onChange={e => e.target.value && runAction(() => rescheduleItem(selected.id, { scheduledAt: fromDateAndTime(toDateValue(selected.scheduledAt), e.target.value) }))}
+                                className="bg-gray-700 text-white text-sm p-2 rounded-md border-2 border-gray-600 focus:border-orange-500 disabled:opacity-50"
+                                aria-label={t.scheduleDialog.time}
+                            />
+                            <select
+                                value={selected.channel}
+                                disabled={!isEditable(selected)}
+                                onChange={e => runAction(() => rescheduleItem(selected.id, { channel: e.target.value as Platform }))}
+                                className="bg-gray-700 text-white text-sm p-2 rounded-md border-2 border-gray-600 focus:border-orange-500 disabled:opacity-50"
+                                aria-label={t.scheduleDialog.channel}
+                            >
+                                {PLATFORMS.map(option => <option key={option} value={option}>{t.platforms[option]}</option>)}
+                            </select>
+                        </div>
+                        {selected.error && <p className="text-sm text-red-400">{selected.error}</p>}
+                        {selected.publishedAt && <p className="text-xs text-gray-400">{t.calendar.publishedAt(formatDateTime(selected.publishedAt))}</p>}
+                        {selected.receipt && <p className="text-xs text-gray-400">{t.calendar.receipt(selected.receipt)}</p>}
+                        <div className="flex flex-wrap gap-3 text-sm font-semibold">
+                            {selected.status === 'scheduled' && (
+                                <button onClick={() => runAction(() => publishNow(selected.id))} className="text-orange-400 hover:text-orange-300">{t.calendar.publishNow}</button>
+                            )}
+                            {selected.status === 'failed' && (
+                                <button onClick={() => runAction(() => publishNow(selected.id))} className="text-orange-400 hover:text-orange-300">{t.calendar.retry}</button>
+                            )}
+                            {selected.status !== 'publishing' && (
+                                <button onClick={() => handleRemove(selected)} className="text-red-400 hover:text-red-300">{t.calendar.remove}</button>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            <div className="border-t border-gray-700 pt-4 space-y-3">
+                <div>
+                    <h3 className="text-lg font-semibold text-orange-300">{t.calendar.outbox}</h3>
+                    <p className="text-sm text-gray-400">{t.calendar.outboxHint}</p>
+                </div>
+                {outbox?.length === 0 && <p className="text-sm text-gray-500">{t.calendar.outboxEmpty}</p>}
+                {outbox && outbox.length > 0 && (
+                    <ul className="space-y-2">
+                        {outbox.map(entry => (
+                            <li key={entry.id} className="bg-gray-700/50 rounded-lg px-3 py-2 flex flex-wrap items-center gap-3 text-sm">
+                                <span className="text-gray-400 text-xs">{formatDateTime(entry.createdAt)} · {t.platforms[entry.channel]}</span>
+                                {entry.files.map(file => (
+                                    <button key={file.name} onClick={() => downloadBlob(file.blob, file.name)} className="flex items-center gap-1 text-gray-200 hover:text-white" title={file.name}>
+                                        <DownloadIcon /> <span className="truncate max-w-xs">{file.name}</span>
+                                    </button>
+                                ))}
+                                <button onClick={() => handleDeleteEntry(entry)} className="ml-auto text-red-400 hover:text-red-300 text-xs font-semibold">{t.calendar.deleteEntry}</button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ContentCalendar;
@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+
+interface ImageCompareProps {
+    beforeSrc: string;
+    afterSrc: string;
+    aspectRatio?: string; // ex: '4 / 5'
+}
+
+const ImageCompare: React.FC<ImageCompareProps> = ({ beforeSrc, afterSrc, aspectRatio = '1 / 1' }) => {
+    const { t } = useI18n();
+    const [position, setPosition] = useState(50);
+
+    return (
+        <div className="relative w-full select-none" style={{ aspectRatio }}>
+            <img src={afterSrc} alt={t.imageCompare.after} className="absolute inset-0 w-full h-full object-cover" />
+            <img
+                src={beforeSrc}
+                alt={t.imageCompare.before}
+                className="absolute inset-0 w-full h-full object-cover"
+                style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+            />
+            <div className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${position}%` }} />
+            <span className="absolute top-2 left-2 bg-black/60 text-white text-xs px-2 py-0.5 rounded pointer-events-none">{t.imageCompare.before}</span>
+            <span className="absolute top-2 right-2 bg-black/60 text-white text-xs px-2 py-0.5 rounded pointer-events-none">{t.imageCompare.after}</span>
+            <input
+                type="range"
+                min="0"
+                max="100"
+                value={position}
+                onChange={e => setPosition(parseInt(e.target.value))}
+                className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+                aria-label={t.imageCompare.slider}
+            />
+        </div>
+    );
+};
+
+export default ImageCompare;
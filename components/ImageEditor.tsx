@@ -1,27 +1,78 @@
-import React, { useState, useRef } from 'react';
-import { editImage } from '../services/geminiService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import type { ImageEditProjectData } from '../types';
+import { editImage, editImageRegion, isAbortError } from '../services/geminiService';
 import { fileToBase64, downloadImage } from '../utils/fileUtils';
 import Spinner from './Spinner';
 import SparklesIcon from './icons/SparklesIcon';
 import DownloadIcon from './icons/DownloadIcon';
+import AutosaveIndicator from './AutosaveIndicator';
+import MaskEditor, { MASK_COLOR } from './MaskEditor';
+import { getProject } from '../services/projectStore';
+import { useProjectAutosave } from '../hooks/useProjectAutosave';
+import { useI18n } from '../hooks/useI18n';
 
-const ImageEditor: React.FC = () => {
+interface ImageEditorProps {
+    projectId: string | null;
+    onProjectIdChange: (projectId: string | null) => void;
+}
+
+const ImageEditor: React.FC<ImageEditorProps> = ({ projectId, onProjectIdChange }) => {
+    const { t } = useI18n();
     const [originalImage, setOriginalImage] = useState<{ base64: string, dataUrl: string, mimeType: string } | null>(null);
     const [editedImage, setEditedImage] = useState<string | null>(null);
     const [editPrompt, setEditPrompt] = useState<string>('');
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
+    // Área pintada sobre a original (PNG em base64); sem ela a edição vale para a imagem inteira.
+    const [mask, setMask] = useState<string | null>(null);
+    const [isPaintingMask, setIsPaintingMask] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    // Id do projeto cujo conteúdo está no editor; difere de `projectId` enquanto outro projeto é aberto.
+    const [loadedProjectId, setLoadedProjectId] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    useEffect(() => {
+        if (!projectId || projectId === loadedProjectId) return;
+        abortControllerRef.current?.abort();
+        getProject(projectId)
+            .then(project => {
+                if (project?.kind === 'image-edit') {
+                    const { originalImage: savedImage, editedImage: savedEdit, editPrompt: savedPrompt } = project.data;
+                    setOriginalImage(savedImage ? { ...savedImage, dataUrl: `data:${savedImage.mimeType};base64,${savedImage.base64}` } : null);
+                    setEditedImage(savedEdit);
+                    setEditPrompt(savedPrompt);
+                    setMask(null);
+                }
+            })
+            .catch(e => {
+                console.error("Failed to load project:", e);
+                setError(t.common.openProjectFailed);
+            })
+            .finally(() => setLoadedProjectId(projectId));
+    }, [projectId, loadedProjectId]);
+
+    const projectData = useMemo<ImageEditProjectData>(() => ({
+        originalImage: originalImage ? { base64: originalImage.base64, mimeType: originalImage.mimeType } : null,
+        editedImage,
+        editPrompt,
+    }), [originalImage, editedImage, editPrompt]);
+    // Só salva depois de carregar o projeto, para não sobrescrevê-lo com o estado vazio inicial.
+    const autosaveStatus = useProjectAutosave('image-edit', projectId === loadedProjectId ? projectId : null, editPrompt.trim().slice(0, 60) || t.imageEditor.untitledProject, projectData);
 
     const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
         if (file) {
             if (!file.type.startsWith('image/')) {
-                setError('Por favor, envie um arquivo de imagem válido.');
+                setError(t.imageEditor.invalidImageFile);
                 return;
             }
             setError(null);
             setEditedImage(null);
+            setMask(null);
+            // Uma nova imagem inicia um novo projeto; o anterior continua salvo em "Meus Projetos".
+            onProjectIdChange(null);
             const base64 = await fileToBase64(file);
             const dataUrl = URL.createObjectURL(file);
             setOriginalImage({ base64, dataUrl, mimeType: file.type });
@@ -30,33 +81,50 @@ const ImageEditor: React.FC = () => {
 
     const handleEditImage = async () => {
         if (!originalImage || !editPrompt.trim()) {
-            setError('Por favor, envie uma imagem e forneça um comando de edição.');
+            setError(t.imageEditor.missingInput);
             return;
         }
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         setIsLoading(true);
         setError(null);
         try {
-            const newImageBase64 = await editImage(originalImage.base64, originalImage.mimeType, editPrompt);
+            const newImageBase64 = mask
+                ? await editImageRegion(originalImage.base64, originalImage.mimeType, editPrompt, mask, controller.signal)
+                : await editImage(originalImage.base64, originalImage.mimeType, editPrompt, controller.signal);
             setEditedImage(newImageBase64);
+            if (!projectId) {
+                const newProjectId = crypto.randomUUID();
+                setLoadedProjectId(newProjectId);
+                onProjectIdChange(newProjectId);
+            }
         } catch (e) {
+            if (isAbortError(e)) return;
             console.error(e);
-            const errorMessage = e instanceof Error ? e.message : 'Falha ao editar a imagem. Por favor, tente novamente.';
+            const errorMessage = e instanceof Error ? e.message : t.imageEditor.editFailed;
             setError(errorMessage);
         } finally {
             setIsLoading(false);
         }
     };
     
+    const handleCancel = () => abortControllerRef.current?.abort();
+
     const triggerFileSelect = () => fileInputRef.current?.click();
 
     return (
         <div className="bg-gray-800 p-6 rounded-2xl shadow-2xl max-w-4xl mx-auto">
+            {projectId && (
+                <div className="flex justify-end mb-2">
+                    <AutosaveIndicator status={autosaveStatus} />
+                </div>
+            )}
             {!originalImage && (
                 <div onClick={triggerFileSelect} className="flex flex-col items-center justify-center border-2 border-dashed border-gray-600 rounded-lg p-12 text-center cursor-pointer hover:border-orange-500 hover:bg-gray-700/50 transition-colors">
                     <input type="file" accept="image/*" onChange={handleFileChange} className="hidden" ref={fileInputRef} />
                     <svg className="w-12 h-12 text-gray-500 mb-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
-                    <p className="text-xl font-semibold text-white">Clique para enviar uma imagem</p>
-                    <p className="text-gray-400">PNG, JPG, GIF até 10MB</p>
+                    <p className="text-xl font-semibold text-white">{t.imageEditor.uploadTitle}</p>
+                    <p className="text-gray-400">{t.imageEditor.uploadHint}</p>
                 </div>
             )}
             
@@ -66,54 +134,96 @@ const ImageEditor: React.FC = () => {
                         <textarea
                             value={editPrompt}
                             onChange={(e) => setEditPrompt(e.target.value)}
-                            placeholder="Ex: Remova a pessoa no fundo"
+                            placeholder={t.imageEditor.promptPlaceholder}
                             className="w-full bg-gray-700 text-white p-4 rounded-lg border-2 border-gray-600 focus:border-orange-500 focus:ring-orange-500 transition-colors duration-300 h-24 resize-none"
                         />
                         <div className="flex items-center justify-between mt-4">
-                             <button onClick={triggerFileSelect} className="text-orange-400 hover:text-orange-300 font-semibold">
-                                Trocar Imagem
-                             </button>
+                             <div className="flex items-center gap-4">
+                                <button onClick={triggerFileSelect} className="text-orange-400 hover:text-orange-300 font-semibold">
+                                    {t.imageEditor.changeImage}
+                                </button>
+                                <button onClick={() => setIsPaintingMask(true)} disabled={isLoading} className="text-orange-400 hover:text-orange-300 font-semibold disabled:opacity-50">
+                                    {mask ? t.imageEditor.repaintArea : t.imageEditor.paintArea}
+                                </button>
+                                {mask && (
+                                    <span className="inline-flex items-center gap-2 bg-gray-700 text-xs text-gray-200 rounded-full px-3 py-1">
+                                        {t.imageEditor.areaSelected}
+                                        <button onClick={() => setMask(null)} disabled={isLoading} className="text-orange-400 hover:text-orange-300 font-semibold disabled:opacity-40">{t.common.clear}</button>
+                                    </span>
+                                )}
+                             </div>
                              <input type="file" accept="image/*" onChange={handleFileChange} className="hidden" ref={fileInputRef} />
-                             <button
-                                onClick={handleEditImage}
-                                disabled={isLoading || !editPrompt.trim()}
-                                className="flex items-center justify-center gap-2 bg-gradient-to-r from-orange-500 to-orange-600 text-white font-bold py-3 px-6 rounded-full hover:from-orange-600 hover:to-orange-700 transition-all duration-300 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
-                            >
-                                <SparklesIcon />
-                                {isLoading ? 'Editando...' : 'Aplicar Edição'}
-                            </button>
+                             <div className="flex items-center gap-3">
+                                {isLoading && (
+                                    <button onClick={handleCancel} className="text-gray-300 font-semibold py-3 px-6 rounded-full border border-gray-600 hover:bg-gray-700 transition-colors">
+                                        {t.common.cancel}
+                                    </button>
+                                )}
+                                <button
+                                    onClick={handleEditImage}
+                                    disabled={isLoading || !editPrompt.trim()}
+                                    className="flex items-center justify-center gap-2 bg-gradient-to-r from-orange-500 to-orange-600 text-white font-bold py-3 px-6 rounded-full hover:from-orange-600 hover:to-orange-700 transition-all duration-300 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+                                >
+                                    <SparklesIcon />
+                                    {isLoading ? t.imageEditor.editing : t.imageEditor.applyEdit}
+                                </button>
+                             </div>
                         </div>
                     </div>
                      {error && <p className="text-center text-red-400 my-4">{error}</p>}
                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
                         <div>
-                            <h3 className="text-lg font-semibold text-center mb-3 text-gray-300">Original</h3>
-                            <img src={originalImage.dataUrl} alt="Original" className="rounded-lg w-full h-auto object-contain" />
+                            <h3 className="text-lg font-semibold text-center mb-3 text-gray-300">{t.imageEditor.original}</h3>
+                            <div className="relative">
+                                <img src={originalImage.dataUrl} alt={t.imageEditor.original} className="rounded-lg w-full h-auto object-contain" />
+                                {mask && (
+                                    <div
+                                        className="absolute inset-0 rounded-lg opacity-50 pointer-events-none"
+                                        style={{
+                                            backgroundColor: MASK_COLOR,
+                                            maskImage: `url(data:image/png;base64,${mask})`,
+                                            maskSize: '100% 100%',
+                                            WebkitMaskImage: `url(data:image/png;base64,${mask})`,
+                                            WebkitMaskSize: '100% 100%',
+                                        }}
+                                    />
+                                )}
+                            </div>
                         </div>
                          <div className="relative">
-                            <h3 className="text-lg font-semibold text-center mb-3 text-gray-300">Editada</h3>
+                            <h3 className="text-lg font-semibold text-center mb-3 text-gray-300">{t.imageEditor.edited}</h3>
                             <div className="rounded-lg w-full h-full bg-gray-700 flex items-center justify-center min-h-[200px] relative group">
                                 {isLoading && <Spinner />}
                                 {!isLoading && editedImage && originalImage && (
                                     <>
-                                        <img src={`data:${originalImage.mimeType};base64,${editedImage}`} alt="Editada" className="rounded-lg w-full h-auto object-contain" />
+                                        <img src={`data:${originalImage.mimeType};base64,${editedImage}`} alt={t.imageEditor.edited} className="rounded-lg w-full h-auto object-contain" />
                                         <button
                                             onClick={() => downloadImage(`data:${originalImage.mimeType};base64,${editedImage}`, 'imagem-editada.png')}
                                             className="absolute top-3 right-3 bg-green-600 text-white p-2 rounded-full hover:bg-green-700 transition-all opacity-0 group-hover:opacity-100 focus:opacity-100"
-                                            aria-label="Baixar Imagem Editada"
+                                            aria-label={t.imageEditor.downloadEdited}
                                         >
                                             <DownloadIcon />
                                         </button>
                                     </>
                                 )}
                                 {!isLoading && !editedImage && (
-                                    <p className="text-gray-400">Sua imagem editada aparecerá aqui</p>
+                                    <p className="text-gray-400">{t.imageEditor.editedPlaceholder}</p>
                                 )}
                             </div>
                          </div>
                     </div>
                 </div>
             )}
+            {isPaintingMask && originalImage && (
+                <MaskEditor
+                    imageDataUrl={originalImage.dataUrl}
+                    onSave={maskBase64 => {
+                        setMask(maskBase64);
+                        setIsPaintingMask(false);
+                    }}
+                    onClose={() => setIsPaintingMask(false)}
+                />
+            )}
         </div>
     );
 };
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { BrushTool, useBrushCanvas } from '../hooks/useBrushCanvas';
+import BrushToolbar from './BrushToolbar';
+import { useI18n } from '../hooks/useI18n';
+
+// Cor usada só para mostrar a área pintada; a máscara é convertida para preto e branco antes de ir ao modelo.
+export const MASK_COLOR = '#ff2d55';
+
+interface MaskEditorProps {
+    imageDataUrl: string;
+    onSave: (maskBase64: string) => void;
+    onClose: () => void;
+}
+
+/** Pinta a área da imagem que deve ser editada. A máscara é salva como PNG na resolução da imagem. */
+const MaskEditor: React.FC<MaskEditorProps> = ({ imageDataUrl, onSave, onClose }) => {
+    const { t } = useI18n();
+    const [displaySize, setDisplaySize] = useState<{ width: number; height: number } | null>(null);
+    const [tool, setTool] = useState<BrushTool>('brush');
+    const [brushSize, setBrushSize] = useState(40);
+    const { canvasRef, pointerHandlers, canUndo, canRedo, undo, redo, reset } = useBrushCanvas({ tool, color: MASK_COLOR, size: brushSize });
+
+    useEffect(() => {
+        const image = new Image();
+        image.onload = () => {
+            const canvas = canvasRef.current;
+            if (!canvas) return;
+            canvas.width = image.naturalWidth;
+            canvas.height = image.naturalHeight;
+
+            const maxWidth = window.innerWidth * 0.8;
+            const maxHeight = window.innerHeight * 0.7;
+            const scale = Math.min(1, maxWidth / image.naturalWidth, maxHeight / image.naturalHeight);
+            setDisplaySize({ width: image.naturalWidth * scale, height: image.naturalHeight * scale });
+            reset();
+        };
+        image.src = imageDataUrl;
+    }, [imageDataUrl, canvasRef, reset]);
+
+    const handleSave = () => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        onSave(canvas.toDataURL('image/png').split(',')[1]);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+            <div className="bg-gray-800 rounded-2xl p-6 shadow-2xl flex flex-col gap-4 max-w-full">
+                <div className="text-center">
+                    <h3 className="text-xl font-bold text-white">{t.maskEditor.title}</h3>
+                    <p className="text-sm text-gray-400">{t.maskEditor.hint}</p>
+                </div>
+                <BrushToolbar
+                    tool={tool}
+                    onToolChange={setTool}
+                    size={brushSize}
+                    onSizeChange={setBrushSize}
+                    maxSize={120}
+                    canUndo={canUndo}
+                    canRedo={canRedo}
+                    onUndo={undo}
+                    onRedo={redo}
+                >
+                    <button onClick={reset} disabled={!canUndo} className="py-2 px-3 rounded-md bg-gray-700 text-white text-sm font-semibold hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed">
+                        {t.common.clear}
+                    </button>
+                </BrushToolbar>
+                <div className="flex justify-center">
+                    <div
+                        className="relative rounded-lg overflow-hidden bg-no-repeat bg-center"
+                        style={displaySize ? { ...displaySize, backgroundImage: `url(${imageDataUrl})`, backgroundSize: 'contain' } : undefined}
+                    >
+                        <canvas
+                            ref={canvasRef}
+                            {...pointerHandlers}
+                            className="absolute top-0 left-0 w-full h-full cursor-crosshair touch-none opacity-50"
+                        />
+                    </div>
+                </div>
+                <div className="flex justify-end gap-3 pt-4">
+                    <button onClick={onClose} className="py-2 px-5 bg-gray-600 text-white font-semibold rounded-full hover:bg-gray-500 transition-colors">{t.common.cancel}</button>
+                    <button onClick={handleSave} disabled={!canUndo} className="py-2 px-5 bg-orange-600 text-white font-semibold rounded-full hover:bg-orange-700 transition-colors disabled:opacity-50">{t.maskEditor.useArea}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default MaskEditor;
@@ -0,0 +1,57 @@
+import React from 'react';
+import type { OutputLanguage } from '../types';
+import { getLanguageName, OUTPUT_LANGUAGES } from '../utils/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface OutputLanguagePickerProps {
+    selected: OutputLanguage[];
+    onChange: (languages: OutputLanguage[]) => void;
+    multiple?: boolean;
+    disabled?: boolean;
+}
+
+/**
+ * Escolhe o idioma do conteúdo gerado. Com `multiple`, a ordem de escolha importa:
+ * o primeiro idioma é o original e os demais viram traduções. Sempre fica ao menos um selecionado.
+ */
+const OutputLanguagePicker: React.FC<OutputLanguagePickerProps> = ({ selected, onChange, multiple = false, disabled = false }) => {
+    const { locale, t } = useI18n();
+
+    const handleToggle = (language: OutputLanguage) => {
+        if (!multiple) {
+            onChange([language]);
+            return;
+        }
+        if (!selected.includes(language)) {
+            onChange([...selected, language]);
+        } else if (selected.length > 1) {
+            onChange(selected.filter(item => item !== language));
+        }
+    };
+
+    return (
+        <div>
+            <h3 className="text-lg font-semibold text-gray-100 mb-3 text-center">{t.languages.output}</h3>
+            <div className="flex flex-wrap justify-center gap-2">
+                {OUTPUT_LANGUAGES.map(language => {
+                    const position = selected.indexOf(language);
+                    return (
+                        <button
+                            key={language}
+                            onClick={() => handleToggle(language)}
+                            disabled={disabled}
+                            aria-pressed={position !== -1}
+                            className={`px-3 py-1.5 rounded-full text-sm font-semibold transition-colors disabled:opacity-50 ${position !== -1 ? 'bg-orange-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                        >
+                            {getLanguageName(language, locale)}
+                            {multiple && selected.length > 1 && position !== -1 && <span className="ml-1.5 text-xs opacity-80">{position + 1}</span>}
+                        </button>
+                    );
+                })}
+            </div>
+            {multiple && <p className="text-xs text-gray-400 text-center mt-2">{t.languages.outputMultipleHint}</p>}
+        </div>
+    );
+};
+
+export default OutputLanguagePicker;
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import type { OutputLanguage, StructuredText } from '../types';
+import { formatPostCaption, normalizeHashtags } from '../utils/captionUtils';
+import { useI18n } from '../hooks/useI18n';
+
+type CaptionPart = 'body' | 'hashtags' | 'altText';
+
+interface PostCaptionEditorProps {
+    text: StructuredText;
+    language?: OutputLanguage;
+    onChange: <K extends CaptionPart>(part: K, value: StructuredText[K]) => void;
+}
+
+const COPIED_FEEDBACK_MS = 2000;
+
+/**
+ * Legenda publicada junto com a imagem: texto, hashtags e texto alternativo.
+ * As alterações são aplicadas ao sair do campo, como na edição do texto sobre a imagem.
+ */
+const PostCaptionEditor: React.FC<PostCaptionEditorProps> = ({ text, language, onChange }) => {
+    const { t } = useI18n();
+    const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+    const hashtagsText = (text.hashtags ?? []).join(' ');
+    const caption = formatPostCaption(text);
+
+    useEffect(() => {
+        if (copyStatus === 'idle') return;
+        const timeout = window.setTimeout(() => setCopyStatus('idle'), COPIED_FEEDBACK_MS);
+        return () => window.clearTimeout(timeout);
+    }, [copyStatus]);
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(caption);
+            setCopyStatus('copied');
+        } catch (error) {
+            console.error("Failed to copy caption:", error);
+            setCopyStatus('failed');
+        }
+    };
+
+    const fieldClassName = "w-full bg-gray-700 text-white p-2 rounded-md border-2 border-gray-600 focus:border-orange-500 focus:ring-orange-500 text-sm";
+
+    return (
+        <div className="space-y-2" lang={language}>
+            <div className="flex items-center justify-between">
+                <p className="text-sm font-semibold text-orange-300">{t.caption.title}</p>
+                <button
+                    onClick={handleCopy}
+                    disabled={!caption}
+                    className="text-xs font-semibold text-orange-400 hover:text-orange-300 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                    {copyStatus === 'copied' ? t.caption.copied : copyStatus === 'failed' ? t.caption.copyFailed : t.caption.copy}
+                </button>
+            </div>
+            <textarea
+                key={`body-${text.body ?? ''}`}
+                defaultValue={text.body ?? ''}
+                onBlur={e => e.target.value !== (text.body ?? '') && onChange('body', e.target.value)}
+                placeholder={t.caption.bodyPlaceholder}
+                className={`${fieldClassName} h-28 resize-y`}
+            />
+            <input
+                key={`hashtags-${hashtagsText}`}
+                type="text"
+                defaultValue={hashtagsText}
+                onBlur={e => {
+                    const hashtags = normalizeHashtags(e.target.value);
+                    if (hashtags.join(' ') !== hashtagsText) onChange('hashtags', hashtags);
+                    else e.target.value = hashtagsText;
+                }}
+                placeholder={t.caption.hashtagsPlaceholder}
+                className={`${fieldClassName} text-orange-200`}
+            />
+            <div>
+                <label className="block text-xs text-gray-400 mb-1">{t.caption.altTextLabel}</label>
+                <textarea
+                    key={`alt-${text.altText ?? ''}`}
+                    defaultValue={text.altText ?? ''}
+                    onBlur={e => e.target.value !== (text.altText ?? '') && onChange('altText', e.target.value)}
+                    placeholder={t.caption.altTextPlaceholder}
+                    className={`${fieldClassName} h-16 resize-none`}
+                />
+            </div>
+        </div>
+    );
+};
+
+export default PostCaptionEditor;
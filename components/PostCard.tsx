@@ -1,30 +1,70 @@
-import React, { useState } from 'react';
-import type { Post, StructuredText } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import type { BrandKit, CaptionRegenerationOptions, Post, PostLayout, StructuredText } from '../types';
 import Spinner from './Spinner';
+import PostPreview from './PostPreview';
+import ImageCompare from './ImageCompare';
+import MaskEditor from './MaskEditor';
+import PostCaptionEditor from './PostCaptionEditor';
+import CaptionRegenerator from './CaptionRegenerator';
+import SchedulePostDialog from './SchedulePostDialog';
 import EditIcon from './icons/EditIcon';
+import BrushIcon from './icons/BrushIcon';
 import DownloadIcon from './icons/DownloadIcon';
 import { downloadImage, mergeTextAndImage } from '../utils/fileUtils';
+import { DEFAULT_POST_LAYOUT, POST_LAYOUTS } from '../utils/postLayouts';
+import { getActiveVersion, getRedoTarget, getUndoTarget, getVersions } from '../utils/postVersions';
+import { getPostPreset, getTextWarnings, type TextWarning } from '../utils/platformPresets';
+import { getLanguageCode, getLanguageName } from '../utils/i18n';
+import { useI18n } from '../hooks/useI18n';
+import { useContentCalendar } from '../hooks/useContentCalendar';
 
 interface PostCardProps {
     post: Post;
-    onImageEdit: (postId: string, editPrompt: string) => Promise<void>;
+    brandKit: BrandKit;
+    onImageEdit: (postId: string, editPrompt: string, maskBase64?: string) => Promise<void>;
     onCaptionChange: (postId: string, newIndex: number) => void;
-    onCaptionPartChange: (postId: string, part: keyof StructuredText, value: string) => void;
+    onRegenerateCaptions: (postId: string, options: CaptionRegenerationOptions) => Promise<void>;
+    onCaptionPartChange: <K extends keyof StructuredText>(postId: string, part: K, value: StructuredText[K]) => void;
+    onLayoutChange: (postId: string, layout: PostLayout) => void;
+    onVersionChange: (postId: string, versionId: string) => void;
+    showLanguage?: boolean; // quando o mesmo post aparece em vários idiomas lado a lado
 }
 
-const PostCard: React.FC<PostCardProps> = ({ post, onImageEdit, onCaptionChange, onCaptionPartChange }) => {
+const PostCard: React.FC<PostCardProps> = ({ post, brandKit, onImageEdit, onCaptionChange, onRegenerateCaptions, onCaptionPartChange, onLayoutChange, onVersionChange, showLanguage = false }) => {
+    const { locale, t } = useI18n();
     const [editPrompt, setEditPrompt] = useState('');
     const [isEditingImage, setIsEditingImage] = useState(false);
     const [isDownloading, setIsDownloading] = useState(false);
+    const [isComparing, setIsComparing] = useState(false);
+    const [isPaintingMask, setIsPaintingMask] = useState(false);
+    const [isScheduling, setIsScheduling] = useState(false);
+    const [isRegeneratingOpen, setIsRegeneratingOpen] = useState(false);
+    // Área pintada para a próxima edição; vale só para a imagem em que foi desenhada.
+    const [mask, setMask] = useState<string | null>(null);
+
+    useEffect(() => setMask(null), [post.image]);
 
     const activeText = post.texts.length > 0 ? post.texts[post.activeTextIndex] : null;
+    const layout = post.layout ?? DEFAULT_POST_LAYOUT;
+    const aspectRatio = post.aspectRatio ?? '1:1';
+    const preset = getPostPreset(post);
+    const warnings = useMemo(
+        () => activeText && preset ? getTextWarnings(activeText, preset, brandKit, layout) : [],
+        [activeText, preset, brandKit, layout],
+    );
+    const versions = getVersions(post);
+    const activeVersion = getActiveVersion(post);
+    const undoTarget = getUndoTarget(post);
+    const redoTarget = getRedoTarget(post);
+    const scheduledCount = useContentCalendar().filter(item => item.post.id === post.id).length;
 
     const handleImageEdit = async () => {
         if (!editPrompt.trim() || isEditingImage) return;
         setIsEditingImage(true);
         try {
-            await onImageEdit(post.id, editPrompt);
+            await onImageEdit(post.id, editPrompt, mask ?? undefined);
             setEditPrompt('');
+            setMask(null);
         } catch (error) {
             console.error("Failed to edit image on card:", error);
         } finally {
@@ -39,70 +79,59 @@ const PostCard: React.FC<PostCardProps> = ({ post, onImageEdit, onCaptionChange,
         };
         setIsDownloading(true);
         try {
-            const mergedImageDataUrl = await mergeTextAndImage(post.image, post.imageMimeType, activeText);
+            const mergedImageDataUrl = await mergeTextAndImage(post.image, post.imageMimeType, activeText, {
+                brandKit,
+                layout,
+                size: preset?.size,
+                safeZone: preset?.safeZone,
+            });
             downloadImage(mergedImageDataUrl, `genius-post-${post.id.substring(0, 8)}.png`);
         } catch (error) {
             console.error("Failed to merge image and text:", error);
-            alert("Desculpe, ocorreu um erro ao criar a imagem do seu post.");
+            alert(t.postCard.downloadFailed);
         } finally {
             setIsDownloading(false);
         }
     };
 
+    const formatWarning = (warning: TextWarning): string => {
+        switch (warning.kind) {
+            case 'headline':
+                return t.postCard.headlineTooLong(warning.count, warning.limit);
+            case 'caption':
+                return t.postCard.captionTooLong(warning.count, warning.limit);
+            case 'hashtags':
+                return t.postCard.tooManyHashtags(warning.count, warning.limit);
+            case 'safeZone':
+                return t.postCard.outsideSafeZone(post.platform ? t.platforms[post.platform] : '');
+        }
+    };
+
     const handleCycleCaption = () => {
         const newIndex = (post.activeTextIndex + 1) % post.texts.length;
         onCaptionChange(post.id, newIndex);
     };
 
-    const handleTextUpdate = (part: keyof StructuredText, e: React.FocusEvent<HTMLElement>) => {
-        if (activeText && e.currentTarget.textContent !== activeText[part]) {
-            onCaptionPartChange(post.id, part, e.currentTarget.textContent || '');
-        }
-    };
-
     return (
         <div className="bg-gray-800 rounded-2xl overflow-hidden shadow-lg flex flex-col transition-transform duration-300 hover:transform hover:-translate-y-2">
             <div className="relative group/card">
-                <img
-                    src={`data:${post.imageMimeType};base64,${post.image}`}
-                    alt="Generated post background"
-                    className="w-full h-80 object-cover"
-                />
-                <div className="absolute inset-0 bg-gradient-to-t from-black/70 via-black/20 to-transparent flex flex-col justify-end p-4 text-white">
-                    {activeText && (
-                        <div className="absolute top-2 left-2 bg-black/50 backdrop-blur-sm px-2 py-1 rounded-md text-xs opacity-0 group-hover/card:opacity-100 transition-opacity pointer-events-none">
-                            Clique no texto para editar
-                        </div>
-                    )}
-                    {activeText && (
-                        <>
-                            <div className="mb-auto"></div>
-                             <div className="mb-2">
-                                <span 
-                                    contentEditable
-                                    suppressContentEditableWarning={true}
-                                    onBlur={(e) => handleTextUpdate('tag', e)}
-                                    className="text-sm font-semibold bg-orange-500 px-2 py-1 rounded-md outline-none focus:ring-2 focus:ring-orange-400 focus:bg-orange-600 transition-all cursor-text"
-                                >{activeText.tag}</span>
-                            </div>
-                            <h2 
-                                contentEditable
-                                suppressContentEditableWarning={true}
-                                onBlur={(e) => handleTextUpdate('headline', e)}
-                                className="text-2xl font-black leading-tight outline-none focus:ring-2 focus:ring-orange-400 rounded-sm p-1 -m-1 transition-all cursor-text"
-                                style={{textShadow: '1px 1px 4px rgba(0,0,0,0.9)'}}
-                            >{activeText.headline}</h2>
-                            <div className="mt-2">
-                                <span 
-                                    contentEditable
-                                    suppressContentEditableWarning={true}
-                                    onBlur={(e) => handleTextUpdate('cta', e)}
-                                    className="text-sm font-bold bg-red-600 px-2 py-1 rounded-md outline-none focus:ring-2 focus:ring-orange-400 focus:bg-red-700 transition-all cursor-text"
-                                >{activeText.cta}</span>
-                            </div>
-                        </>
-                    )}
-                </div>
+                {isComparing && undoTarget ? (
+                    <ImageCompare
+                        beforeSrc={`data:${undoTarget.mimeType};base64,${undoTarget.image}`}
+                        afterSrc={`data:${activeVersion.mimeType};base64,${activeVersion.image}`}
+                        aspectRatio={aspectRatio.replace(':', ' / ')}
+                    />
+                ) : (
+                    <PostPreview
+                        imageSrc={`data:${post.imageMimeType};base64,${post.image}`}
+                        text={activeText}
+                        brandKit={brandKit}
+                        layout={layout}
+                        aspectRatio={aspectRatio}
+                        safeZone={preset?.safeZone}
+                        onTextChange={(part, value) => onCaptionPartChange(post.id, part, value)}
+                    />
+                )}
                 {isEditingImage && (
                     <div className="absolute inset-0 bg-black bg-opacity-60 flex items-center justify-center">
                         <Spinner />
@@ -110,31 +139,119 @@ const PostCard: React.FC<PostCardProps> = ({ post, onImageEdit, onCaptionChange,
                 )}
             </div>
             <div className="p-5 flex-grow flex flex-col bg-gray-800 space-y-4">
-                 {post.texts.length > 1 && (
-                    <button
-                        onClick={handleCycleCaption}
-                        className="text-sm text-orange-400 hover:text-orange-300 font-semibold self-start"
-                    >
-                        Gerar Novas Opções ({post.activeTextIndex + 1}/{post.texts.length})
-                    </button>
+                {showLanguage && post.language && (
+                    <span className="self-start bg-gray-700 text-gray-200 text-xs font-semibold rounded-full px-2.5 py-1" lang={post.language}>
+                        {getLanguageCode(post.language)} · {getLanguageName(post.language, locale)}
+                    </span>
+                )}
+                {warnings.length > 0 && (
+                    <ul className="space-y-1 bg-yellow-900/30 border border-yellow-700/60 rounded-lg px-3 py-2 text-xs text-yellow-200" role="status">
+                        {warnings.map(warning => <li key={warning.kind}>⚠ {formatWarning(warning)}</li>)}
+                    </ul>
+                )}
+                {activeText && (
+                    <div>
+                        <p className="text-sm font-semibold text-orange-300 mb-2">{t.postCard.layout}</p>
+                        <div className="flex flex-wrap gap-1.5">
+                            {POST_LAYOUTS.map(option => (
+                                <button
+                                    key={option}
+                                    onClick={() => onLayoutChange(post.id, option)}
+                                    className={`px-2.5 py-1 rounded-full text-xs font-semibold transition-colors ${layout === option ? 'bg-orange-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                                >
+                                    {t.postLayouts[option]}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                    {post.texts.length > 1 && (
+                        <button
+                            onClick={handleCycleCaption}
+                            className="text-sm text-gray-300 hover:text-white font-semibold"
+                        >
+                            {t.postCard.nextOption(post.activeTextIndex + 1, post.texts.length)}
+                        </button>
+                    )}
+                    {!isRegeneratingOpen && (
+                        <button
+                            onClick={() => setIsRegeneratingOpen(true)}
+                            className="text-sm text-orange-400 hover:text-orange-300 font-semibold"
+                        >
+                            {t.postCard.newOptions}
+                        </button>
+                    )}
+                </div>
+                {isRegeneratingOpen && (
+                    <CaptionRegenerator
+                        onGenerate={options => onRegenerateCaptions(post.id, options)}
+                        onClose={() => setIsRegeneratingOpen(false)}
+                    />
+                )}
+                {activeText && (
+                    <PostCaptionEditor text={activeText} language={post.language} onChange={(part, value) => onCaptionPartChange(post.id, part, value)} />
                 )}
                
                 <div className="pt-4 border-t border-gray-700 mt-auto">
-                     <p className="text-sm font-semibold text-orange-300 mb-2">Ajustes Finais na Imagem</p>
+                     <p className="text-sm font-semibold text-orange-300 mb-2">{t.postCard.finalAdjustments}</p>
+                    {versions.length > 1 && (
+                        <div className="mb-3 space-y-2">
+                            <div className="flex items-center gap-3 text-xs font-semibold">
+                                <button onClick={() => undoTarget && onVersionChange(post.id, undoTarget.id)} disabled={!undoTarget || isEditingImage} className="text-gray-300 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed">{t.postCard.undo}</button>
+                                <button onClick={() => redoTarget && onVersionChange(post.id, redoTarget.id)} disabled={!redoTarget || isEditingImage} className="text-gray-300 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed">{t.postCard.redo}</button>
+                                <button onClick={() => setIsComparing(value => !value)} disabled={!undoTarget} className={`ml-auto disabled:opacity-40 disabled:cursor-not-allowed ${isComparing ? 'text-orange-400' : 'text-gray-300 hover:text-white'}`}>
+                                    {isComparing ? t.postCard.closeCompare : t.postCard.compare}
+                                </button>
+                            </div>
+                            <div className="flex gap-2 overflow-x-auto pb-1">
+                                {versions.map((version, index) => (
+                                    <button
+                                        key={version.id}
+                                        onClick={() => onVersionChange(post.id, version.id)}
+                                        disabled={isEditingImage}
+                                        title={version.prompt ?? t.postCard.originalImage}
+                                        className={`flex-shrink-0 w-12 h-12 rounded-md overflow-hidden border-2 transition-colors ${version.id === activeVersion.id ? 'border-orange-500' : 'border-transparent hover:border-gray-500'}`}
+                                        aria-label={t.postCard.versionLabel(index + 1, version.prompt)}
+                                    >
+                                        <img src={`data:${version.mimeType};base64,${version.image}`} alt="" className="w-full h-full object-cover" />
+                                    </button>
+                                ))}
+                            </div>
+                            {activeVersion.prompt && (
+                                <p className="text-xs text-gray-400 truncate" title={activeVersion.prompt}>{t.postCard.editedWith(activeVersion.prompt)}</p>
+                            )}
+                        </div>
+                    )}
+                    {mask && (
+                        <div className="mb-2 inline-flex items-center gap-2 bg-gray-700 text-xs text-gray-200 rounded-full px-3 py-1">
+                            <span>{t.postCard.maskActive}</span>
+                            <button onClick={() => setMask(null)} disabled={isEditingImage} className="text-orange-400 hover:text-orange-300 font-semibold disabled:opacity-40">{t.common.clear}</button>
+                        </div>
+                    )}
                     <div className="flex gap-2">
                         <input
                             type="text"
                             value={editPrompt}
                             onChange={(e) => setEditPrompt(e.target.value)}
-                            placeholder="Editar imagem..."
+                            placeholder={t.postCard.editPlaceholder}
                             className="flex-grow bg-gray-700 text-white p-2 rounded-md border-2 border-gray-600 focus:border-orange-500 focus:ring-orange-500 text-sm"
                             disabled={isEditingImage}
                         />
+                        <button
+                            onClick={() => setIsPaintingMask(true)}
+                            disabled={isEditingImage}
+                            className={`p-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${mask ? 'bg-orange-600 hover:bg-orange-700' : 'bg-gray-700 hover:bg-gray-600'}`}
+                            aria-label={t.postCard.paintArea}
+                            title={t.postCard.paintArea}
+                        >
+                            <BrushIcon />
+                        </button>
                         <button
                             onClick={handleImageEdit}
                             disabled={isEditingImage || !editPrompt.trim()}
                             className="bg-orange-600 p-2 rounded-md hover:bg-orange-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                            aria-label="Editar Imagem"
+                            aria-label={t.postCard.editImage}
                         >
                            <EditIcon />
                         </button>
@@ -142,13 +259,30 @@ const PostCard: React.FC<PostCardProps> = ({ post, onImageEdit, onCaptionChange,
                             onClick={handleDownload}
                             disabled={isDownloading}
                             className="bg-green-600 p-2 rounded-md hover:bg-green-700 transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
-                            aria-label="Baixar Post"
+                            aria-label={t.postCard.downloadPost}
                         >
                             {isDownloading ? <Spinner /> : <DownloadIcon />}
                         </button>
                     </div>
+                    <div className="flex items-center gap-3 mt-3 text-sm">
+                        <button onClick={() => setIsScheduling(true)} className="text-orange-400 hover:text-orange-300 font-semibold">
+                            {t.postCard.schedule}
+                        </button>
+                        {scheduledCount > 0 && <span className="text-xs text-gray-400">{t.postCard.scheduledCount(scheduledCount)}</span>}
+                    </div>
                 </div>
             </div>
+            {isScheduling && <SchedulePostDialog post={post} onClose={() => setIsScheduling(false)} />}
+            {isPaintingMask && (
+                <MaskEditor
+                    imageDataUrl={`data:${post.imageMimeType};base64,${post.image}`}
+                    onSave={maskBase64 => {
+                        setMask(maskBase64);
+                        setIsPaintingMask(false);
+                    }}
+                    onClose={() => setIsPaintingMask(false)}
+                />
+            )}
         </div>
     );
 };
@@ -0,0 +1,162 @@
+import React from 'react';
+import type { AspectRatio, BrandKit, OverlayTextPart, PostLayout, SafeZone, StructuredText } from '../types';
+import { hexToRgba } from '../utils/brandKit';
+import { SPLIT_PANEL_RATIO } from '../utils/postLayouts';
+import { aspectRatioToNumber } from '../utils/fileUtils';
+import { useI18n } from '../hooks/useI18n';
+
+interface PostPreviewProps {
+    imageSrc: string;
+    text: StructuredText | null;
+    brandKit: BrandKit;
+    layout: PostLayout;
+    aspectRatio: AspectRatio;
+    safeZone?: SafeZone;
+    onTextChange?: (part: OverlayTextPart, value: string) => void;
+}
+
+// Os degradês espelham os de `mergeTextAndImage` para que a prévia corresponda ao download.
+const overlayStyle = (layout: PostLayout, brandKit: BrandKit): React.CSSProperties => {
+    const solid = hexToRgba(brandKit.gradientColor, brandKit.gradientOpacity);
+    const clear = hexToRgba(brandKit.gradientColor, 0);
+    switch (layout) {
+        case 'centered':
+            return { backgroundColor: hexToRgba(brandKit.gradientColor, brandKit.gradientOpacity * 0.6) };
+        case 'top-headline':
+            return { backgroundImage: `linear-gradient(to bottom, ${solid}, ${clear} 45%), linear-gradient(to top, ${solid}, ${clear} 30%)` };
+        case 'split':
+            return {};
+        default:
+            return { backgroundImage: `linear-gradient(to top, ${solid}, ${clear} 60%)` };
+    }
+};
+
+const overlayClasses: Record<PostLayout, string> = {
+    'bottom-left': 'justify-end items-start',
+    'centered': 'justify-center items-center text-center',
+    'top-headline': 'justify-between items-start',
+    'split': 'justify-center items-start',
+    'minimal': 'justify-end items-start',
+};
+
+/**
+ * Afasta o texto das bordas cobertas pela rede, como em `mergeTextAndImage`. O padding em % é relativo
+ * à largura do quadro, então as margens verticais são convertidas pela proporção. No 'split', a borda
+ * direita do texto é a do painel, não a do quadro.
+ */
+const safeZonePadding = (safeZone: SafeZone, aspectRatio: AspectRatio, layout: PostLayout): React.CSSProperties => {
+    const heightRatio = 1 / aspectRatioToNumber(aspectRatio);
+    const inset = (percent: number) => `max(1rem, ${percent * 100}%)`;
+    return {
+        paddingTop: inset(safeZone.top * heightRatio),
+        paddingRight: layout === 'split' ? '1rem' : inset(safeZone.right),
+        paddingBottom: inset(safeZone.bottom * heightRatio),
+        paddingLeft: inset(safeZone.left),
+    };
+};
+
+const PostPreview: React.FC<PostPreviewProps> = ({ imageSrc, text, brandKit, layout, aspectRatio, safeZone, onTextChange }) => {
+    const { t } = useI18n();
+    const isEditable = !!onTextChange;
+
+    const handleBlur = (part: OverlayTextPart, e: React.FocusEvent<HTMLElement>) => {
+        if (text && onTextChange && e.currentTarget.textContent !== text[part]) {
+            onTextChange(part, e.currentTarget.textContent || '');
+        }
+    };
+
+    const editableProps = (part: OverlayTextPart) => isEditable ? {
+        contentEditable: true,
+        suppressContentEditableWarning: true,
+        onBlur: (e: React.FocusEvent<HTMLElement>) => handleBlur(part, e),
+    } : {};
+
+    const renderTag = () => text && (
+        <div>
+            <span
+                {...editableProps('tag')}
+                className="inline-block text-sm font-semibold px-2 py-1 outline-none focus:ring-2 focus:ring-orange-400 transition-all cursor-text"
+                style={{ backgroundColor: brandKit.primaryColor, borderRadius: brandKit.cornerRadius, fontFamily: brandKit.bodyFont }}
+            >{text.tag}</span>
+        </div>
+    );
+
+    const renderHeadline = () => text && (
+        <h2
+            {...editableProps('headline')}
+            className="text-2xl font-black leading-tight outline-none focus:ring-2 focus:ring-orange-400 rounded-sm p-1 -m-1 transition-all cursor-text"
+            style={{ textShadow: '1px 1px 4px rgba(0,0,0,0.9)', fontFamily: brandKit.headlineFont }}
+        >{text.headline}</h2>
+    );
+
+    const renderCta = () => text && (
+        <div>
+            <span
+                {...editableProps('cta')}
+                className="inline-block text-sm font-bold px-2 py-1 outline-none focus:ring-2 focus:ring-orange-400 transition-all cursor-text"
+                style={{ backgroundColor: brandKit.secondaryColor, borderRadius: brandKit.cornerRadius, fontFamily: brandKit.bodyFont }}
+            >{text.cta}</span>
+        </div>
+    );
+
+    const renderText = () => {
+        if (!text) return null;
+        switch (layout) {
+            case 'top-headline':
+                return (
+                    <>
+                        <div className="space-y-2">{renderTag()}{renderHeadline()}</div>
+                        {renderCta()}
+                    </>
+                );
+            case 'minimal':
+                return renderHeadline();
+            default:
+                return <div className="space-y-2">{renderTag()}{renderHeadline()}{renderCta()}</div>;
+        }
+    };
+
+    const logoPosition = layout === 'top-headline' ? 'bottom-3 right-3' : 'top-3 right-3';
+    const splitPanelWidth = `${SPLIT_PANEL_RATIO * 100}%`;
+    const frameStyle: React.CSSProperties = { aspectRatio: aspectRatio.replace(':', ' / ') };
+
+    return (
+        <div className="relative">
+            {layout === 'split' ? (
+                <div className="flex w-full" style={frameStyle}>
+                    <div className="h-full flex-shrink-0" style={{ width: splitPanelWidth, backgroundColor: brandKit.gradientColor }} />
+                    <img src={imageSrc} alt={text?.altText || t.postPreview.imageAlt} className="h-full flex-grow min-w-0 object-cover" />
+                </div>
+            ) : (
+                <img src={imageSrc} alt={text?.altText || t.postPreview.imageAlt} className="w-full object-cover" style={frameStyle} />
+            )}
+            <div
+                className={`absolute inset-y-0 left-0 flex flex-col p-4 text-white ${overlayClasses[layout]}`}
+                style={{ ...overlayStyle(layout, brandKit), ...(safeZone && safeZonePadding(safeZone, aspectRatio, layout)), width: layout === 'split' ? splitPanelWidth : '100%' }}
+            >
+                {isEditable && text && (
+                    <div className="absolute top-2 left-2 bg-black/50 backdrop-blur-sm px-2 py-1 rounded-md text-xs opacity-0 group-hover/card:opacity-100 transition-opacity pointer-events-none">
+                        {t.postPreview.clickToEdit}
+                    </div>
+                )}
+                {renderText()}
+            </div>
+            {safeZone && (
+                <div
+                    className="absolute border border-dashed border-white/60 rounded-sm opacity-0 group-hover/card:opacity-100 transition-opacity pointer-events-none"
+                    style={{ top: `${safeZone.top * 100}%`, right: `${safeZone.right * 100}%`, bottom: `${safeZone.bottom * 100}%`, left: `${safeZone.left * 100}%` }}
+                    aria-hidden="true"
+                />
+            )}
+            {brandKit.logo && (
+                <img
+                    src={`data:${brandKit.logo.mimeType};base64,${brandKit.logo.base64}`}
+                    alt={t.postPreview.logoAlt}
+                    className={`absolute ${logoPosition} h-8 max-w-[35%] object-contain pointer-events-none`}
+                />
+            )}
+        </div>
+    );
+};
+
+export default PostPreview;
@@ -0,0 +1,112 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Project } from '../types';
+import { listProjects, renameProject, duplicateProject, deleteProject } from '../services/projectStore';
+import Spinner from './Spinner';
+import { useI18n } from '../hooks/useI18n';
+
+interface ProjectListProps {
+    onOpen: (project: Project) => void;
+}
+
+const getThumbnail = (project: Project): string | null => {
+    switch (project.kind) {
+        case 'posts': {
+            const post = project.data.posts[0];
+            return post ? `data:${post.imageMimeType};base64,${post.image}` : null;
+        }
+        case 'comic': {
+            const panel = project.data.panels[0];
+            return panel ? `data:${panel.mimeType};base64,${panel.imageBase64}` : null;
+        }
+        case 'image-edit': {
+            const { originalImage, editedImage } = project.data;
+            if (!originalImage) return null;
+            return `data:${originalImage.mimeType};base64,${editedImage ?? originalImage.base64}`;
+        }
+    }
+};
+
+const ProjectList: React.FC<ProjectListProps> = ({ onOpen }) => {
+    const { locale, t } = useI18n();
+    const [projects, setProjects] = useState<Project[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setProjects(await listProjects());
+        } catch (e) {
+            console.error(e);
+            setError(t.projects.loadFailed);
+        }
+    }, [t]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const runAction = async (action: () => Promise<unknown>) => {
+        setError(null);
+        try {
+            await action();
+            await refresh();
+        } catch (e) {
+            console.error(e);
+            setError(e instanceof Error ? e.message : t.projects.actionFailed);
+        }
+    };
+
+    const handleRename = (project: Project) => {
+        const name = window.prompt(t.projects.renamePrompt, project.name);
+        if (name && name.trim() && name.trim() !== project.name) {
+            runAction(() => renameProject(project.id, name.trim()));
+        }
+    };
+
+    const handleDelete = (project: Project) => {
+        if (window.confirm(t.projects.deleteConfirm(project.name))) {
+            runAction(() => deleteProject(project.id));
+        }
+    };
+
+    return (
+        <div className="bg-gray-800 p-6 rounded-2xl shadow-2xl max-w-5xl mx-auto">
+            {error && <p className="text-center text-red-400 mb-4">{error}</p>}
+            {projects === null && (
+                <div className="flex justify-center py-10"><Spinner /></div>
+            )}
+            {projects?.length === 0 && (
+                <p className="text-center text-gray-400 py-10">{t.projects.empty}</p>
+            )}
+            {projects && projects.length > 0 && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {projects.map(project => {
+                        const thumbnail = getThumbnail(project);
+                        return (
+                            <div key={project.id} className="bg-gray-700/50 rounded-xl overflow-hidden flex flex-col">
+                                <button onClick={() => onOpen(project)} className="h-36 bg-gray-900 flex items-center justify-center" aria-label={t.projects.openNamed(project.name)}>
+                                    {thumbnail
+                                        ? <img src={thumbnail} alt="" className="w-full h-full object-cover" />
+                                        : <span className="text-gray-500 text-sm">{t.projects.noImage}</span>}
+                                </button>
+                                <div className="p-3 flex-grow flex flex-col gap-1">
+                                    <p className="font-semibold text-white truncate" title={project.name}>{project.name}</p>
+                                    <p className="text-xs text-gray-400">
+                                        {t.projects.kinds[project.kind]} · {new Date(project.updatedAt).toLocaleString(locale)}
+                                    </p>
+                                    <div className="flex flex-wrap gap-3 mt-2 text-sm font-semibold">
+                                        <button onClick={() => onOpen(project)} className="text-orange-400 hover:text-orange-300">{t.projects.open}</button>
+                                        <button onClick={() => runAction(() => duplicateProject(project.id))} className="text-gray-300 hover:text-white">{t.projects.duplicate}</button>
+                                        <button onClick={() => handleRename(project)} className="text-gray-300 hover:text-white">{t.projects.rename}</button>
+                                        <button onClick={() => handleDelete(project)} className="text-red-400 hover:text-red-300">{t.common.delete}</button>
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ProjectList;
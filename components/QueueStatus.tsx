@@ -0,0 +1,22 @@
+import React from 'react';
+import { useQueueStatus } from '../hooks/useQueueStatus';
+import { useI18n } from '../hooks/useI18n';
+
+const formatEta = (ms: number): string => {
+    const seconds = Math.max(1, Math.round(ms / 1000));
+    return seconds < 60 ? `~${seconds}s` : `~${Math.round(seconds / 60)} min`;
+};
+
+const QueueStatus: React.FC = () => {
+    const { t } = useI18n();
+    const { queued, running, etaMs } = useQueueStatus();
+    if (queued === 0 && running === 0) return null;
+
+    return (
+        <p className="text-sm text-gray-400">
+            {t.queue.status(running, queued, formatEta(etaMs))}
+        </p>
+    );
+};
+
+export default QueueStatus;
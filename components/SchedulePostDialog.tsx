@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import type { Platform, Post } from '../types';
+import { schedulePost } from '../services/contentCalendar';
+import { DEFAULT_PLATFORM, PLATFORMS, PLATFORM_PRESETS } from '../utils/platformPresets';
+import { fromDateAndTime, toDateValue } from '../utils/calendarUtils';
+import { useI18n } from '../hooks/useI18n';
+
+interface SchedulePostDialogProps {
+    post: Post;
+    onClose: () => void;
+}
+
+const DEFAULT_TIME = '09:00';
+
+const tomorrow = (): string => {
+    const date = new Date();
+    date.setDate(date.getDate() + 1);
+    return toDateValue(date);
+};
+
+const SchedulePostDialog: React.FC<SchedulePostDialogProps> = ({ post, onClose }) => {
+    const { t } = useI18n();
+    const [dateValue, setDateValue] = useState(tomorrow);
+    const [timeValue, setTimeValue] = useState(DEFAULT_TIME);
+    const [channel, setChannel] = useState<Platform>(post.platform ?? DEFAULT_PLATFORM);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const scheduledAt = dateValue && timeValue ? fromDateAndTime(dateValue, timeValue) : NaN;
+    const imageRatio = post.aspectRatio ?? '1:1';
+    const channelRatio = PLATFORM_PRESETS[channel].aspectRatio;
+
+    const handleSchedule = async () => {
+        if (Number.isNaN(scheduledAt)) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            await schedulePost(post, channel, scheduledAt);
+            onClose();
+        } catch (e) {
+            console.error("Failed to schedule post:", e);
+            setError(t.scheduleDialog.failed);
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+            <div className="bg-gray-800 rounded-2xl p-6 shadow-2xl flex flex-col gap-5 w-full max-w-md max-h-full overflow-auto">
+                <h3 className="text-xl font-bold text-white text-center">{t.scheduleDialog.title}</h3>
+
+                <div className="grid grid-cols-2 gap-3">
+                    <label className="text-sm font-semibold text-gray-300 space-y-1">
+                        <span>{t.scheduleDialog.date}</span>
+                        <input
+                            type="date"
+                            value={dateValue}
+                            onChange={e => setDateValue(e.target.value)}
+                            className="w-full bg-gray-700 text-white p-2 rounded-md border-2 border-gray-600 focus:border-orange-500"
+                        />
+                    </label>
+                    <label className="text-sm font-semibold text-gray-300 space-y-1">
+                        <span>{t.scheduleDialog.time}</span>
+                        <input
+                            type="time"
+                            value={timeValue}
+                            onChange={e => setTimeValue(e.target.value)}
+                            className="w-full bg-gray-700 text-white p-2 rounded-md border-2 border-gray-600 focus:border-orange-500"
+                        />
+                    </label>
+                </div>
+
+                <div>
+                    <p className="text-sm font-semibold text-gray-300 mb-2">{t.scheduleDialog.channel}</p>
+                    <div className="flex flex-wrap gap-1.5">
+                        {PLATFORMS.map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setChannel(option)}
+                                className={`px-2.5 py-1 rounded-full text-xs font-semibold transition-colors ${channel === option ? 'bg-orange-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                            >
+                                {t.platforms[option]}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {(channelRatio !== imageRatio || scheduledAt <= Date.now()) && (
+                    <ul className="space-y-1 bg-yellow-900/30 border border-yellow-700/60 rounded-lg px-3 py-2 text-xs text-yellow-200" role="status">
+                        {channelRatio !== imageRatio && <li>⚠ {t.scheduleDialog.cropWarning(imageRatio, channelRatio)}</li>}
+                        {scheduledAt <= Date.now() && <li>⚠ {t.scheduleDialog.pastWarning}</li>}
+                    </ul>
+                )}
+                {error && <p className="text-sm text-red-400" role="alert">{error}</p>}
+
+                <div className="flex justify-end gap-3">
+                    <button onClick={onClose} className="py-2 px-5 bg-gray-600 text-white font-semibold rounded-full hover:bg-gray-500 transition-colors">{t.common.cancel}</button>
+                    <button
+                        onClick={handleSchedule}
+                        disabled={isSaving || Number.isNaN(scheduledAt)}
+                        className="py-2 px-5 bg-orange-600 text-white font-semibold rounded-full hover:bg-orange-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {t.scheduleDialog.confirm}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SchedulePostDialog;
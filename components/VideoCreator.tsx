@@ -1,6 +1,19 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { generateVideo } from '../services/geminiService';
+import { isUsingMockProvider } from '../services/geminiService';
+import {
+    cancelVideoJob,
+    DEFAULT_VIDEO_TIMEOUT_MS,
+    getVideoJobUrl,
+    isVideoJobActive,
+    loadVideoJobUrl,
+    MAX_CONSECUTIVE_POLL_FAILURES,
+    removeVideoJob,
+    startVideoJob,
+} from '../services/videoJobs';
+import { useVideoJobs } from '../hooks/useVideoJobs';
 import { fileToBase64 } from '../utils/fileUtils';
+import { useI18n } from '../hooks/useI18n';
+import type { VideoJob, VideoJobStatus } from '../types';
 import Spinner from './Spinner';
 import VideoIcon from './icons/VideoIcon';
 import RemoveIcon from './icons/RemoveIcon';
@@ -9,66 +22,95 @@ import DownloadIcon from './icons/DownloadIcon';
 type AspectRatio = '16:9' | '9:16';
 type Resolution = '720p' | '1080p';
 
-const loadingMessages = [
-    "Aquecendo os motores de vídeo...",
-    "Consultando as musas da criatividade...",
-    "Renderizando pixels fotograma a fotograma...",
-    "Alinhando os fótons para a cena perfeita...",
-    "A magia está quase a acontecer...",
-    "Compilando a sua obra-prima digital...",
-    "Só mais um momento, polindo as arestas...",
-];
+const TIMEOUT_OPTIONS_MIN = [5, 10, 20, 30];
+
+const STATUS_COLORS: Record<VideoJobStatus, string> = {
+    starting: 'text-orange-300',
+    processing: 'text-orange-300',
+    downloading: 'text-orange-300',
+    succeeded: 'text-green-400',
+    failed: 'text-red-400',
+    cancelled: 'text-gray-400',
+};
+
+const formatElapsed = (ms: number): string => {
+    const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// Conta a partir do mesmo instante que o prazo do job (services/videoJobs.ts), não do tempo na fila.
+const getElapsedMs = (job: VideoJob, now: number): number => (job.finishedAt ?? now) - (job.startedAt ?? job.createdAt);
 
 const VideoCreator: React.FC = () => {
-    const [apiKeySelected, setApiKeySelected] = useState(false);
+    const { locale, t } = useI18n();
+    // O fornecedor de demonstração não usa chave de API, então a seleção é dispensada.
+    const [apiKeySelected, setApiKeySelected] = useState(isUsingMockProvider);
     const [prompt, setPrompt] = useState('');
     const [image, setImage] = useState<{ base64: string; dataUrl: string; mimeType: string } | null>(null);
     const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
     const [resolution, setResolution] = useState<Resolution>('720p');
-    const [isLoading, setIsLoading] = useState(false);
-    const [loadingMessage, setLoadingMessage] = useState('');
+    const [timeoutMinutes, setTimeoutMinutes] = useState(DEFAULT_VIDEO_TIMEOUT_MS / 60000);
     const [error, setError] = useState<string | null>(null);
-    const [generatedVideoUrl, setGeneratedVideoUrl] = useState<string | null>(null);
-    
+    const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+    const [loadingVideoJobId, setLoadingVideoJobId] = useState<string | null>(null);
+    const [now, setNow] = useState(Date.now());
+    const jobs = useVideoJobs();
+
     const fileInputRef = useRef<HTMLInputElement>(null);
-    const loadingIntervalRef = useRef<number | null>(null);
+
+    const selectedJob = jobs.find(job => job.id === selectedJobId) ?? jobs[0] ?? null;
+    const hasActiveJobs = jobs.some(isVideoJobActive);
+    const selectedVideoUrl = selectedJob ? getVideoJobUrl(selectedJob.id) : null;
 
     useEffect(() => {
         const checkKey = async () => {
+            if (isUsingMockProvider()) return;
             if (window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function') {
                 const hasKey = await window.aistudio.hasSelectedApiKey();
                 setApiKeySelected(hasKey);
             }
         };
         checkKey();
-
-        return () => {
-            if (loadingIntervalRef.current) {
-                clearInterval(loadingIntervalRef.current);
-            }
-            if (generatedVideoUrl) {
-                URL.revokeObjectURL(generatedVideoUrl);
-            }
-        };
     }, []);
 
+    // Atualiza o tempo decorrido enquanto houver vídeos em andamento.
     useEffect(() => {
-        if (isLoading) {
-            setLoadingMessage(loadingMessages[0]);
-            loadingIntervalRef.current = window.setInterval(() => {
-                setLoadingMessage(prev => {
-                    const currentIndex = loadingMessages.indexOf(prev);
-                    const nextIndex = (currentIndex + 1) % loadingMessages.length;
-                    return loadingMessages[nextIndex];
-                });
-            }, 5000);
-        } else {
-            if (loadingIntervalRef.current) {
-                clearInterval(loadingIntervalRef.current);
-                loadingIntervalRef.current = null;
-            }
+        if (!hasActiveJobs) return;
+        const interval = window.setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [hasActiveJobs]);
+
+    useEffect(() => {
+        if (selectedJob?.errorCode === 'invalid-api-key' && !isUsingMockProvider()) {
+            setApiKeySelected(false);
         }
-    }, [isLoading]);
+    }, [selectedJob?.errorCode]);
+
+    const describeJobError = (job: VideoJob): string | null => {
+        switch (job.errorCode) {
+            case 'invalid-api-key':
+                return t.videoJobs.invalidApiKey;
+            case 'timeout':
+                return t.videoJobs.timedOut(Math.round(job.timeoutMs / 60000));
+            case 'poll-failed':
+                return t.videoJobs.pollFailed(MAX_CONSECUTIVE_POLL_FAILURES, job.error ?? '');
+            case 'no-operation':
+                return t.videoJobs.noOperation;
+            case 'no-video':
+                return t.videoJobs.noVideo;
+            case 'reloaded-before-start':
+                return t.videoJobs.reloadedBeforeStart;
+            case 'cancelled':
+                return t.videoJobs.cancelledByUser;
+            case 'failed':
+                return job.error ?? t.video.statuses.failed;
+            default:
+                // Trabalhos salvos antes dos códigos guardavam a mensagem já traduzida.
+                return job.error;
+        }
+    };
 
     const handleSelectKey = async () => {
         if (window.aistudio && typeof window.aistudio.openSelectKey === 'function') {
@@ -81,7 +123,7 @@ const VideoCreator: React.FC = () => {
         const file = event.target.files?.[0];
         if (file) {
             if (!file.type.startsWith('image/')) {
-                setError('Por favor, envie um arquivo de imagem válido (PNG, JPG, etc.).');
+                setError(t.common.invalidImageFile);
                 return;
             }
             setError(null);
@@ -97,52 +139,48 @@ const VideoCreator: React.FC = () => {
         if (fileInputRef.current) fileInputRef.current.value = '';
     };
 
-    const handleGenerateVideo = async () => {
+    const handleGenerateVideo = () => {
         if (!prompt.trim() && !image) {
-            setError('Por favor, insira um comando ou envie uma imagem.');
+            setError(t.common.promptOrImageRequired);
             return;
         }
-        setIsLoading(true);
         setError(null);
-        if (generatedVideoUrl) URL.revokeObjectURL(generatedVideoUrl);
-        setGeneratedVideoUrl(null);
-        
+        const job = startVideoJob({
+            prompt,
+            image: image ? { base64: image.base64, mimeType: image.mimeType } : null,
+            aspectRatio,
+            resolution,
+            timeoutMs: timeoutMinutes * 60000,
+        });
+        setSelectedJobId(job.id);
+        setNow(Date.now());
+    };
+
+    const handleLoadVideo = async (jobId: string) => {
+        setLoadingVideoJobId(jobId);
+        setError(null);
         try {
-            const videoBlob = await generateVideo(
-                prompt, 
-                image ? { base64: image.base64, mimeType: image.mimeType } : null,
-                aspectRatio, 
-                resolution,
-                (progressMsg) => { console.log(progressMsg); }
-            );
-            const url = URL.createObjectURL(videoBlob);
-            setGeneratedVideoUrl(url);
+            await loadVideoJobUrl(jobId);
         } catch (e) {
-            console.error(e);
-            const errorMessage = e instanceof Error ? e.message : 'Falha ao gerar o vídeo.';
-            setError(errorMessage);
-            if (errorMessage.includes("Requested entity was not found")) {
-                setError("Chave de API inválida. Por favor, selecione uma chave de API válida para usar este recurso.");
-                setApiKeySelected(false);
-            }
+            setError(e instanceof Error ? e.message : t.video.loadFailed);
         } finally {
-            setIsLoading(false);
+            setLoadingVideoJobId(null);
         }
     };
 
     if (!apiKeySelected) {
         return (
             <div className="bg-gray-800 p-8 rounded-2xl shadow-2xl text-center max-w-2xl mx-auto">
-                <h3 className="text-2xl font-bold text-orange-400 mb-4">Recurso Premium: Geração de Vídeo</h3>
-                <p className="text-gray-300 mb-6">A criação de vídeos com IA é um recurso avançado. Para utilizá-lo, por favor, selecione sua própria chave de API do Google AI Studio. O uso será cobrado na sua conta Google Cloud.</p>
+                <h3 className="text-2xl font-bold text-orange-400 mb-4">{t.video.apiKeyTitle}</h3>
+                <p className="text-gray-300 mb-6">{t.video.apiKeyBody}</p>
                 <button
                     onClick={handleSelectKey}
                     className="bg-orange-600 text-white font-bold py-3 px-8 rounded-full hover:bg-orange-700 transition-colors"
                 >
-                    Selecionar Chave de API
+                    {t.video.selectKey}
                 </button>
                 <p className="text-xs text-gray-500 mt-4">
-                    Para mais informações sobre preços, consulte a <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="underline hover:text-orange-400">documentação de cobrança</a>.
+                    {t.video.billingBefore}<a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="underline hover:text-orange-400">{t.video.billingLink}</a>{t.video.billingAfter}
                 </p>
             </div>
         );
@@ -154,74 +192,139 @@ const VideoCreator: React.FC = () => {
                 {/* Coluna de Controles */}
                 <div>
                     <div>
-                        <label className="block text-xl font-bold text-gray-100 mb-2">1. Descreva seu vídeo</label>
-                        <textarea value={prompt} onChange={(e) => setPrompt(e.target.value)} placeholder="Ex: Um holograma de néon de um gato a conduzir em alta velocidade" className="w-full bg-gray-700 text-white p-4 rounded-lg border-2 border-gray-600 focus:border-orange-500 h-32 resize-none" />
+                        <label className="block text-xl font-bold text-gray-100 mb-2">{t.video.describe}</label>
+                        <textarea value={prompt} onChange={(e) => setPrompt(e.target.value)} placeholder={t.video.promptPlaceholder} className="w-full bg-gray-700 text-white p-4 rounded-lg border-2 border-gray-600 focus:border-orange-500 h-32 resize-none" />
                     </div>
 
                     <div className="mt-6">
-                        <label className="block text-xl font-bold text-gray-100 mb-2">2. Imagem Inicial (Opcional)</label>
+                        <label className="block text-xl font-bold text-gray-100 mb-2">{t.video.initialImage}</label>
                         <input type="file" accept="image/*" onChange={handleImageUpload} className="hidden" ref={fileInputRef} />
                         {image ? (
                             <div className="relative group">
-                                <img src={image.dataUrl} alt="Preview" className="w-full h-40 object-cover rounded-lg" />
-                                <button onClick={handleRemoveImage} className="absolute top-2 right-2 bg-black bg-opacity-60 text-white p-1.5 rounded-full hover:bg-opacity-80 transition-all opacity-0 group-hover:opacity-100" aria-label="Remover imagem"><RemoveIcon /></button>
+                                <img src={image.dataUrl} alt={t.video.previewAlt} className="w-full h-40 object-cover rounded-lg" />
+                                <button onClick={handleRemoveImage} className="absolute top-2 right-2 bg-black bg-opacity-60 text-white p-1.5 rounded-full hover:bg-opacity-80 transition-all opacity-0 group-hover:opacity-100" aria-label={t.common.removeImage}><RemoveIcon /></button>
                             </div>
                         ) : (
                             <div onClick={() => fileInputRef.current?.click()} className="flex flex-col items-center justify-center w-full h-40 border-2 border-dashed border-gray-600 rounded-lg text-center cursor-pointer hover:border-orange-500 hover:bg-gray-700/50 transition-colors">
                                 <svg className="w-10 h-10 text-gray-500 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
-                                <p className="font-semibold text-white">Clique para enviar</p>
+                                <p className="font-semibold text-white">{t.common.clickToUpload}</p>
                             </div>
                         )}
                     </div>
 
                      <div className="mt-6">
-                        <label className="block text-xl font-bold text-gray-100 mb-2">3. Configurações</label>
+                        <label className="block text-xl font-bold text-gray-100 mb-2">{t.video.settings}</label>
                         <div className="space-y-4">
                             <div>
-                                <h4 className="text-sm font-semibold text-gray-300 mb-2">Proporção</h4>
+                                <h4 className="text-sm font-semibold text-gray-300 mb-2">{t.video.aspectRatio}</h4>
                                 <div className="flex items-center gap-2 bg-gray-700 rounded-full p-1">
-                                    {(['16:9', '9:16'] as AspectRatio[]).map(ratio => <button key={ratio} onClick={() => setAspectRatio(ratio)} className={`w-full px-4 py-2 rounded-full text-sm font-semibold transition-all ${aspectRatio === ratio ? 'bg-orange-600' : 'hover:bg-gray-600'}`}>{ratio === '16:9' ? 'Paisagem' : 'Retrato'}</button>)}
+                                    {(['16:9', '9:16'] as AspectRatio[]).map(ratio => <button key={ratio} onClick={() => setAspectRatio(ratio)} className={`w-full px-4 py-2 rounded-full text-sm font-semibold transition-all ${aspectRatio === ratio ? 'bg-orange-600' : 'hover:bg-gray-600'}`}>{ratio === '16:9' ? t.video.landscape : t.video.portrait}</button>)}
                                 </div>
                             </div>
                              <div>
-                                <h4 className="text-sm font-semibold text-gray-300 mb-2">Resolução</h4>
+                                <h4 className="text-sm font-semibold text-gray-300 mb-2">{t.video.resolution}</h4>
                                 <div className="flex items-center gap-2 bg-gray-700 rounded-full p-1">
                                     {(['720p', '1080p'] as Resolution[]).map(res => <button key={res} onClick={() => setResolution(res)} className={`w-full px-4 py-2 rounded-full text-sm font-semibold transition-all ${resolution === res ? 'bg-orange-600' : 'hover:bg-gray-600'}`}>{res}</button>)}
                                 </div>
                             </div>
+                            <div>
+                                <h4 className="text-sm font-semibold text-gray-300 mb-2">{t.video.timeout}</h4>
+                                <div className="flex items-center gap-2 bg-gray-700 rounded-full p-1">
+                                    {TIMEOUT_OPTIONS_MIN.map(minutes => <button key={minutes} onClick={() => setTimeoutMinutes(minutes)} className={`w-full px-4 py-2 rounded-full text-sm font-semibold transition-all ${timeoutMinutes === minutes ? 'bg-orange-600' : 'hover:bg-gray-600'}`}>{t.video.minutes(minutes)}</button>)}
+                                </div>
+                            </div>
                         </div>
                      </div>
                      <div className="mt-8">
-                        <button onClick={handleGenerateVideo} disabled={isLoading || (!prompt.trim() && !image)} className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-orange-500 to-orange-600 text-white font-bold py-3 px-6 rounded-full hover:from-orange-600 hover:to-orange-700 transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed">
+                        <button onClick={handleGenerateVideo} disabled={!prompt.trim() && !image} className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-orange-500 to-orange-600 text-white font-bold py-3 px-6 rounded-full hover:from-orange-600 hover:to-orange-700 transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed">
                             <VideoIcon />
-                            {isLoading ? 'Gerando Vídeo...' : 'Gerar Vídeo'}
+                            {t.video.generate}
                         </button>
                     </div>
                 </div>
 
                 {/* Coluna de Resultado */}
                 <div>
-                     <h3 className="text-xl font-bold text-center mb-4 text-gray-100">Resultado</h3>
+                     <h3 className="text-xl font-bold text-center mb-4 text-gray-100">{t.common.result}</h3>
                      {error && <p className="text-center text-red-400 my-4">{error}</p>}
                      <div className="rounded-lg w-full bg-gray-900/50 flex items-center justify-center min-h-[400px] aspect-video mx-auto relative group border border-gray-700">
-                        {isLoading && <div className="text-center p-4"><Spinner /><p className="mt-4 text-gray-300 animate-pulse">{loadingMessage}</p></div>}
-                        {!isLoading && generatedVideoUrl && (
+                        {selectedJob && isVideoJobActive(selectedJob) && (
+                            <div className="text-center p-4">
+                                <Spinner />
+                                <p className="mt-4 text-gray-300">{selectedJob.statusMessage}</p>
+                                <p className="mt-1 text-sm text-gray-400">
+                                    {t.video.elapsed(formatElapsed(getElapsedMs(selectedJob, now)), formatElapsed(selectedJob.timeoutMs))}
+                                </p>
+                                {selectedJob.lastCheckedAt && (
+                                    <p className="text-xs text-gray-500">{t.video.lastChecked(formatElapsed(now - selectedJob.lastCheckedAt))}</p>
+                                )}
+                                <button onClick={() => cancelVideoJob(selectedJob.id)} className="mt-4 text-gray-300 font-semibold py-2 px-6 rounded-full border border-gray-600 hover:bg-gray-700 transition-colors">
+                                    {t.common.cancel}
+                                </button>
+                            </div>
+                        )}
+                        {selectedJob?.status === 'succeeded' && selectedVideoUrl && (
                             <>
-                                <video src={generatedVideoUrl} controls autoPlay loop className="max-w-full max-h-full rounded-lg" />
-                                <a href={generatedVideoUrl} download={`genius-post-video.mp4`} className="absolute top-2 right-2 bg-green-600 text-white p-2 rounded-full hover:bg-green-700 transition-all opacity-0 group-hover:opacity-100" aria-label="Baixar Vídeo">
+                                <video src={selectedVideoUrl} controls autoPlay loop className="max-w-full max-h-full rounded-lg" />
+                                <a href={selectedVideoUrl} download={`genius-post-video.${isUsingMockProvider() ? 'webm' : 'mp4'}`} className="absolute top-2 right-2 bg-green-600 text-white p-2 rounded-full hover:bg-green-700 transition-all opacity-0 group-hover:opacity-100" aria-label={t.video.download}>
                                     <DownloadIcon />
                                 </a>
                             </>
                         )}
-                        {!isLoading && !generatedVideoUrl && (
+                        {selectedJob?.status === 'succeeded' && !selectedVideoUrl && (
+                            <button onClick={() => handleLoadVideo(selectedJob.id)} disabled={loadingVideoJobId === selectedJob.id} className="flex items-center gap-2 text-orange-400 font-semibold py-2 px-6 rounded-full border border-gray-600 hover:bg-gray-700 transition-colors disabled:opacity-50">
+                                {loadingVideoJobId === selectedJob.id ? <><Spinner /> {t.video.loading}</> : t.video.loadVideo}
+                            </button>
+                        )}
+                        {(selectedJob?.status === 'failed' || selectedJob?.status === 'cancelled') && (
+                            <div className="text-center p-4">
+                                <p className={`font-semibold ${STATUS_COLORS[selectedJob.status]}`}>{t.video.statuses[selectedJob.status]}</p>
+                                {describeJobError(selectedJob) && <p className="mt-2 text-gray-300">{describeJobError(selectedJob)}</p>}
+                            </div>
+                        )}
+                        {!selectedJob && (
                              <div className="text-center text-gray-500">
                                 <VideoIcon className="h-16 w-16 mx-auto mb-2" />
-                                <p>Seu vídeo gerado aparecerá aqui</p>
+                                <p>{t.video.placeholder}</p>
                             </div>
                         )}
                      </div>
                 </div>
             </div>
+
+            {jobs.length > 0 && (
+                <div className="mt-8 pt-6 border-t border-gray-700">
+                    <h3 className="text-lg font-bold text-gray-100 mb-3">{t.video.yourVideos}</h3>
+                    <ul className="space-y-2">
+                        {jobs.map(job => (
+                            <li
+                                key={job.id}
+                                className={`flex items-center gap-4 p-3 rounded-lg border transition-colors ${selectedJob?.id === job.id ? 'border-orange-500 bg-gray-700/60' : 'border-gray-700 bg-gray-700/30'}`}
+                            >
+                                <button onClick={() => setSelectedJobId(job.id)} className="flex-1 min-w-0 text-left">
+                                    <p className="text-white truncate">{job.prompt || t.video.fromImage}</p>
+                                    <p className="text-xs text-gray-400">
+                                        <span className={`font-semibold ${STATUS_COLORS[job.status]}`}>{t.video.statuses[job.status]}</span>
+                                        {' · '}{formatElapsed(getElapsedMs(job, now))}
+                                        {' · '}{job.aspectRatio} · {job.resolution}
+                                        {' · '}{new Date(job.createdAt).toLocaleString(locale)}
+                                    </p>
+                                    {job.status === 'failed' && describeJobError(job) && <p className="text-xs text-red-400 mt-1">{describeJobError(job)}</p>}
+                                </button>
+                                {isVideoJobActive(job) ? (
+                                    <button onClick={() => cancelVideoJob(job.id)} className="text-sm text-gray-300 hover:text-white font-semibold">
+                                        {t.common.cancel}
+                                    </button>
+                                ) : (
+                                    <button onClick={() => removeVideoJob(job.id)} className="text-sm text-gray-400 hover:text-red-400 font-semibold">
+                                        {t.common.remove}
+                                    </button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
         </div>
     );
 };
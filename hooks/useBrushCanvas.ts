@@ -0,0 +1,152 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+export type BrushTool = 'brush' | 'eraser';
+
+interface Stroke {
+    tool: BrushTool;
+    color: string;
+    size: number; // em pixels da imagem original
+    points: { x: number; y: number }[];
+}
+
+interface BrushOptions {
+    tool: BrushTool;
+    color: string;
+    size: number; // em pixels da tela
+}
+
+const drawStroke = (context: CanvasRenderingContext2D, stroke: Stroke) => {
+    const [first, ...rest] = stroke.points;
+    if (!first) return;
+    context.save();
+    context.globalCompositeOperation = stroke.tool === 'brush' ? 'source-over' : 'destination-out';
+    context.strokeStyle = stroke.color;
+    context.fillStyle = stroke.color;
+    context.lineWidth = stroke.size;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    if (rest.length === 0) {
+        // Um toque sem arrastar vira um ponto.
+        context.beginPath();
+        context.arc(first.x, first.y, stroke.size / 2, 0, Math.PI * 2);
+        context.fill();
+    } else {
+        context.beginPath();
+        context.moveTo(first.x, first.y);
+        rest.forEach(point => context.lineTo(point.x, point.y));
+        context.stroke();
+    }
+    context.restore();
+};
+
+/**
+ * Desenho livre com pincel e borracha sobre um canvas. O canvas deve ter a resolução nativa
+ * da imagem e ser apenas reduzido na tela; os traços são guardados como vetores para permitir
+ * desfazer e refazer traço a traço (também por Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y).
+ */
+export const useBrushCanvas = ({ tool, color, size }: BrushOptions) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const currentStrokeRef = useRef<Stroke | null>(null);
+    const [history, setHistory] = useState<{ strokes: Stroke[]; redoStack: Stroke[] }>({ strokes: [], redoStack: [] });
+    const { strokes, redoStack } = history;
+
+    // Redesenha todos os traços sempre que o histórico muda (desfazer/refazer).
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext('2d');
+        if (!canvas || !context) return;
+        context.clearRect(0, 0, canvas.width, canvas.height);
+        strokes.forEach(stroke => drawStroke(context, stroke));
+    }, [strokes]);
+
+    /** Converte a posição do ponteiro na tela para pixels da imagem original. */
+    const getCanvasScale = (): number => {
+        const canvas = canvasRef.current!;
+        return canvas.width / canvas.getBoundingClientRect().width;
+    };
+
+    const getPointerPos = (e: { clientX: number; clientY: number }): { x: number, y: number } => {
+        const rect = canvasRef.current!.getBoundingClientRect();
+        const scale = getCanvasScale();
+        return {
+            x: (e.clientX - rect.left) * scale,
+            y: (e.clientY - rect.top) * scale,
+        };
+    };
+
+    const onPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (e.button !== 0) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        currentStrokeRef.current = {
+            tool,
+            color,
+            // O tamanho do pincel é escolhido em pixels da tela.
+            size: size * getCanvasScale(),
+            points: [getPointerPos(e)],
+        };
+    };
+
+    const onPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const stroke = currentStrokeRef.current;
+        const context = canvasRef.current?.getContext('2d');
+        if (!stroke || !context) return;
+        const previous = stroke.points[stroke.points.length - 1];
+        // Canetas e telas de toque entregam vários pontos por quadro de animação.
+        const events = e.nativeEvent.getCoalescedEvents?.() ?? [e.nativeEvent];
+        const newPoints = events.map(getPointerPos);
+        stroke.points.push(...newPoints);
+        drawStroke(context, { ...stroke, points: [previous, ...newPoints] });
+    };
+
+    const onPointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const stroke = currentStrokeRef.current;
+        if (!stroke) return;
+        currentStrokeRef.current = null;
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+            e.currentTarget.releasePointerCapture(e.pointerId);
+        }
+        setHistory(current => ({ strokes: [...current.strokes, stroke], redoStack: [] }));
+    };
+
+    const undo = useCallback(() => {
+        setHistory(current => current.strokes.length === 0 ? current : {
+            strokes: current.strokes.slice(0, -1),
+            redoStack: [...current.redoStack, current.strokes[current.strokes.length - 1]],
+        });
+    }, []);
+
+    const redo = useCallback(() => {
+        setHistory(current => current.redoStack.length === 0 ? current : {
+            strokes: [...current.strokes, current.redoStack[current.redoStack.length - 1]],
+            redoStack: current.redoStack.slice(0, -1),
+        });
+    }, []);
+
+    const reset = useCallback(() => setHistory({ strokes: [], redoStack: [] }), []);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [undo, redo]);
+
+    return {
+        canvasRef,
+        pointerHandlers: { onPointerDown, onPointerMove, onPointerUp, onPointerCancel: onPointerUp },
+        canUndo: strokes.length > 0,
+        canRedo: redoStack.length > 0,
+        undo,
+        redo,
+        reset,
+    };
+};
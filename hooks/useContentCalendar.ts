@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+import type { ScheduledPost } from '../types';
+import { startCalendarDispatcher, subscribeToCalendar } from '../services/contentCalendar';
+
+/** Acompanha os itens do calendário e garante que os vencidos sejam publicados enquanto o app está aberto. */
+export const useContentCalendar = (): ScheduledPost[] => {
+    const [items, setItems] = useState<ScheduledPost[]>([]);
+
+    useEffect(() => {
+        const unsubscribe = subscribeToCalendar(setItems);
+        startCalendarDispatcher();
+        return unsubscribe;
+    }, []);
+
+    return items;
+};
@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState } from 'react';
+
+const readRoute = <T extends string>(paths: Record<T, string>, fallback: T): T => {
+    const hashPath = window.location.hash.replace(/^#/, '');
+    const match = (Object.keys(paths) as T[]).find(route => paths[route] === hashPath);
+    return match ?? fallback;
+};
+
+/**
+ * Mantém a rota atual sincronizada com o hash da URL (ex.: `#/quadrinhos`), para que
+ * links diretos e os botões voltar/avançar do navegador funcionem. Hashes desconhecidos
+ * caem na rota `fallback`.
+ */
+export const useHashRoute = <T extends string>(paths: Record<T, string>, fallback: T): [T, (route: T) => void] => {
+    const [route, setRoute] = useState<T>(() => readRoute(paths, fallback));
+
+    useEffect(() => {
+        const handleHashChange = () => setRoute(readRoute(paths, fallback));
+        window.addEventListener('hashchange', handleHashChange);
+        return () => window.removeEventListener('hashchange', handleHashChange);
+    }, [paths, fallback]);
+
+    const navigate = useCallback((nextRoute: T) => {
+        // Alterar o hash cria uma entrada no histórico e dispara o `hashchange`.
+        window.location.hash = paths[nextRoute];
+    }, [paths]);
+
+    return [route, navigate];
+};
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+import { getLocale, getMessages, setLocale, subscribeToLocale, type Locale } from '../utils/i18n';
+import type { Messages } from '../locales/pt-BR';
+
+/** Idioma atual da interface e o catálogo de textos correspondente; re-renderiza quando o idioma muda. */
+export const useI18n = (): { locale: Locale; t: Messages; setLocale: (locale: Locale) => void } => {
+    const [locale, setCurrentLocale] = useState<Locale>(getLocale);
+
+    useEffect(() => {
+        setCurrentLocale(getLocale());
+        return subscribeToLocale(setCurrentLocale);
+    }, []);
+
+    return { locale, t: getMessages(locale), setLocale };
+};
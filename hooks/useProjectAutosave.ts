@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ProjectDataByKind, ProjectKind } from '../types';
+import { saveProjectData } from '../services/projectStore';
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+/**
+ * Salva automaticamente os dados de um projeto no IndexedDB sempre que eles mudam,
+ * aguardando `delay` ms sem alterações antes de gravar. Nada é salvo enquanto
+ * `projectId` for nulo (por exemplo, antes da primeira geração). Um salvamento
+ * pendente é gravado imediatamente se o projeto mudar ou o componente for desmontado.
+ */
+export const useProjectAutosave = <K extends ProjectKind>(
+    kind: K,
+    projectId: string | null,
+    defaultName: string,
+    data: ProjectDataByKind[K],
+    delay = 1000
+): AutosaveStatus => {
+    const [status, setStatus] = useState<AutosaveStatus>('idle');
+    const pendingSaveRef = useRef<(() => Promise<void>) | null>(null);
+
+    // Declarado antes do efeito do debounce para que esta limpeza rode primeiro e ainda encontre
+    // o salvamento pendente do projeto anterior, em vez de ele ser descartado com o timeout.
+    useEffect(() => () => {
+        pendingSaveRef.current?.();
+    }, [projectId]);
+
+    useEffect(() => {
+        if (!projectId) {
+            setStatus('idle');
+            return;
+        }
+        let isCancelled = false;
+        const save = async () => {
+            pendingSaveRef.current = null;
+            if (!isCancelled) setStatus('saving');
+            try {
+                await saveProjectData(projectId, kind, defaultName, data);
+                if (!isCancelled) setStatus('saved');
+            } catch (e) {
+                console.error("Failed to autosave project:", e);
+                if (!isCancelled) setStatus('error');
+            }
+        };
+        pendingSaveRef.current = save;
+        const timeout = window.setTimeout(save, delay);
+        return () => {
+            isCancelled = true;
+            clearTimeout(timeout);
+        };
+        // O nome padrão só é usado na criação do projeto, então não precisa disparar um novo salvamento.
+    }, [kind, projectId, data, delay]);
+
+    return status;
+};
@@ -0,0 +1,12 @@
+import { useEffect, useState } from 'react';
+import { subscribeToQueue } from '../services/geminiService';
+import type { QueueSnapshot } from '../services/requestScheduler';
+
+/** Acompanha a fila do agendador de chamadas de IA. */
+export const useQueueStatus = (): QueueSnapshot => {
+    const [snapshot, setSnapshot] = useState<QueueSnapshot>({ queued: 0, running: 0, etaMs: 0 });
+
+    useEffect(() => subscribeToQueue(setSnapshot), []);
+
+    return snapshot;
+};
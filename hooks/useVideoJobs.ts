@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+import type { VideoJob } from '../types';
+import { resumeVideoJobs, subscribeToVideoJobs } from '../services/videoJobs';
+
+/** Acompanha os trabalhos de vídeo, retomando os que ficaram em andamento antes de recarregar a página. */
+export const useVideoJobs = (): VideoJob[] => {
+    const [jobs, setJobs] = useState<VideoJob[]>([]);
+
+    useEffect(() => {
+        const unsubscribe = subscribeToVideoJobs(setJobs);
+        resumeVideoJobs();
+        return unsubscribe;
+    }, []);
+
+    return jobs;
+};
@@ -0,0 +1,543 @@
+import type { Messages } from './pt-BR';
+
+export const en: Messages = {
+    common: {
+        cancel: 'Cancel',
+        close: 'Close',
+        back: 'Back',
+        clear: 'Clear',
+        edit: 'Edit',
+        delete: 'Delete',
+        remove: 'Remove',
+        generating: 'Generating...',
+        exporting: 'Exporting...',
+        result: 'Result',
+        clickToUpload: 'Click to upload',
+        removeImage: 'Remove image',
+        invalidImageFile: 'Please upload a valid image file (PNG, JPG, etc.).',
+        promptOrImageRequired: 'Please enter a prompt or upload an image.',
+        openProjectFailed: 'Could not open the saved project.',
+        newProject: '+ New project',
+    },
+    languages: {
+        interface: 'Interface language',
+        output: 'Content language',
+        outputMultipleHint: 'Pick one or more languages. The first one is the original; the others are translations side by side.',
+    },
+    app: {
+        title: 'GÊNIO POST',
+        subtitle: 'Create and Edit Professional Social Media Content with a Single Prompt',
+        tabs: {
+            creator: 'Post Creator',
+            editor: 'Image Editor',
+            generator: 'Image Generator',
+            comic: 'Comics',
+            video: 'Video',
+            projects: 'My Projects',
+            calendar: 'Calendar',
+            bulk: 'Bulk',
+        },
+        describePost: '1. Describe your post',
+        promptPlaceholder: 'E.g.: Grand opening announcement for a new vegan coffee shop... or upload an image and describe the post.',
+        uploadOptional: '2. Upload an image (Optional)',
+        uploadHint: 'Or the AI will generate one for you',
+        postTypes: { single: 'Single Post', carousel: 'Carousel' },
+        platform: 'Platform',
+        platformSize: (aspectRatio: string, width: number, height: number) => `${aspectRatio} · ${width}×${height}px`,
+        fitLabel: 'Image in a different ratio:',
+        fitModes: { crop: 'Crop', pad: 'Pad with borders' },
+        includeCaption: 'Include AI caption',
+        visualStyle: 'Visual Style',
+        generatePosts: 'Generate Posts',
+        creatingContent: 'Creating your content... this may take a moment.',
+        exportCarousel: 'Export carousel',
+        exportCarouselIn: (language: string) => `Export carousel (${language})`,
+        untitledProject: 'Untitled post',
+        processImageFailed: 'Something went wrong while processing your image.',
+        generationCancelled: 'Generation cancelled.',
+        generationCancelledKept: (count: number) =>
+            `Generation cancelled. ${count === 1 ? '1 finished post was kept' : `${count} finished posts were kept`}.`,
+        generatePostsFailed: 'Failed to generate the posts. Please try again.',
+        translationsFailed: 'The posts were generated, but some translations failed.',
+        editImageFailed: 'Failed to edit the image. Please try again.',
+        deleteBrandKitConfirm: 'Delete this brand kit?',
+        exportCarouselFailed: 'Sorry, something went wrong while exporting the carousel.',
+        uploadedImageAlt: 'Uploaded image',
+        regenerateCaptionsFailed: 'Failed to generate new caption options. Please try again.',
+    },
+    visualStyles: {
+        Moderno: 'Modern',
+        Tech: 'Tech',
+        Dark: 'Dark',
+        Vibrante: 'Vibrant',
+        Elegante: 'Elegant',
+        Natureza: 'Nature',
+        Realismo: 'Realism',
+        Anime: 'Anime',
+    },
+    autosave: {
+        idle: '',
+        saving: 'Saving...',
+        saved: 'Saved automatically',
+        error: 'Failed to save the project',
+    },
+    queue: {
+        status: (running: number, queued: number, eta: string) =>
+            `${running} in progress${queued > 0 ? ` · ${queued} queued` : ''} · ${eta} left`,
+    },
+    platforms: {
+        'instagram-feed': 'Instagram (feed)',
+        'instagram-story': 'Instagram Story',
+        'linkedin': 'LinkedIn',
+        'x': 'X',
+        'facebook': 'Facebook',
+        'pinterest': 'Pinterest',
+        'tiktok-cover': 'TikTok cover',
+    },
+    postLayouts: {
+        'bottom-left': 'Bottom',
+        'centered': 'Centered',
+        'top-headline': 'Headline on Top',
+        'split': 'Side Panel',
+        'minimal': 'Minimal',
+    },
+    captionRegenerator: {
+        tone: 'Tone',
+        tones: {
+            formal: 'Formal',
+            divertido: 'Playful',
+            urgente: 'Urgent',
+            inspirador: 'Inspiring',
+        },
+        headlineLength: 'Headline length',
+        headlineLengths: {
+            short: 'Short',
+            medium: 'Medium',
+            long: 'Long',
+        },
+        instructionPlaceholder: 'Extra instruction (optional). E.g.: mention free shipping',
+        generate: 'Generate 3 options',
+    },
+    postCard: {
+        layout: 'Layout',
+        nextOption: (current: number, total: number) => `Next option (${current}/${total})`,
+        newOptions: 'Generate new options',
+        finalAdjustments: 'Final Image Touches',
+        undo: '↶ Undo',
+        redo: 'Redo ↷',
+        compare: 'Before / After',
+        closeCompare: 'Close comparison',
+        originalImage: 'Original image',
+        versionLabel: (index: number, prompt: string | null) => `Version ${index}: ${prompt ?? 'original'}`,
+        editedWith: (prompt: string) => `Edit: "${prompt}"`,
+        maskActive: 'Only the painted area will be edited',
+        editPlaceholder: 'Edit image...',
+        paintArea: 'Paint the area to edit',
+        editImage: 'Edit Image',
+        downloadPost: 'Download Post',
+        downloadFailed: 'Sorry, something went wrong while creating your post image.',
+        headlineTooLong: (count: number, limit: number) => `Headline has ${count} characters; the limit is ${limit}.`,
+        captionTooLong: (count: number, limit: number) => `Caption has ${count} characters; the limit is ${limit}.`,
+        tooManyHashtags: (count: number, limit: number) => `${count} hashtags; the limit is ${limit}.`,
+        outsideSafeZone: (platform: string) => `Part of the text falls outside the safe zone (${platform}).`,
+        schedule: 'Schedule post',
+        scheduledCount: (count: number) => count === 1 ? 'Scheduled once in the calendar' : `Scheduled ${count} times in the calendar`,
+    },
+    caption: {
+        title: 'Post Caption',
+        copy: 'Copy caption',
+        copied: 'Copied!',
+        copyFailed: 'Could not copy',
+        bodyPlaceholder: 'Write the post caption...',
+        hashtagsPlaceholder: '#hashtags separated by spaces',
+        altTextLabel: 'Alt text (accessibility)',
+        altTextPlaceholder: 'Describe what the image shows...',
+    },
+    postPreview: {
+        imageAlt: 'Post background image',
+        logoAlt: 'Brand logo',
+        clickToEdit: 'Click the text to edit it',
+    },
+    imageCompare: {
+        before: 'Before',
+        after: 'After',
+        slider: 'Compare before and after',
+    },
+    brush: {
+        brush: 'Brush',
+        eraser: 'Eraser',
+        size: 'Size:',
+        undo: '↶ Undo',
+        undoHint: 'Undo (Ctrl+Z)',
+        redo: '↷ Redo',
+        redoHint: 'Redo (Ctrl+Shift+Z)',
+    },
+    maskEditor: {
+        title: 'Paint Area',
+        hint: 'Paint what should change. The rest of the image stays exactly as the original.',
+        useArea: 'Use Area',
+    },
+    comicEditor: {
+        title: 'Panel Editor',
+        save: 'Save Edits',
+    },
+    imageEditor: {
+        uploadTitle: 'Click to upload an image',
+        uploadHint: 'PNG, JPG, GIF up to 10MB',
+        invalidImageFile: 'Please upload a valid image file.',
+        promptPlaceholder: 'E.g.: Remove the person in the background',
+        changeImage: 'Change Image',
+        paintArea: 'Paint Area',
+        repaintArea: 'Repaint Area',
+        areaSelected: 'Area selected',
+        applyEdit: 'Apply Edit',
+        editing: 'Editing...',
+        original: 'Original',
+        edited: 'Edited',
+        downloadEdited: 'Download Edited Image',
+        editedPlaceholder: 'Your edited image will appear here',
+        missingInput: 'Please upload an image and enter an edit prompt.',
+        editFailed: 'Failed to edit the image. Please try again.',
+        untitledProject: 'Image edit',
+    },
+    imageGenerator: {
+        missingPrompt: 'Please enter a prompt to generate the image.',
+        promptPlaceholder: 'E.g.: An astronaut surfing a cosmic wave, synthwave style...',
+        promptLabel: 'Prompt to generate the image',
+        generate: 'Generate Image',
+        generatedAlt: 'Generated image',
+        download: 'Download Generated Image',
+        placeholder: 'Your generated image will appear here',
+        failed: 'Failed to generate the image. Please try again.',
+    },
+    brandKit: {
+        title: 'Brand Kit',
+        defaultName: 'Gênio Post Default',
+        new: 'New',
+        newKitName: 'New Kit',
+        unnamedKit: 'Untitled kit',
+        namePlaceholder: 'Client or brand name',
+        primaryColor: 'Primary color (tag)',
+        secondaryColor: 'Secondary color (CTA)',
+        headlineFont: 'Headline font',
+        bodyFont: 'Body font',
+        gradientColor: 'Gradient color',
+        gradientOpacity: 'Gradient opacity',
+        cornerRadius: 'Corner radius',
+        logo: 'Logo',
+        removeLogo: 'Remove logo',
+        upload: 'Upload',
+        save: 'Save Kit',
+        saveFailed: 'Could not save the brand kit in this browser. Try a smaller logo.',
+        logoFailed: 'Could not read the logo file.',
+    },
+    projects: {
+        kinds: {
+            'posts': 'Posts',
+            'comic': 'Comics',
+            'image-edit': 'Image Edit',
+        },
+        loadFailed: 'Could not load your projects.',
+        actionFailed: 'The operation failed. Please try again.',
+        renamePrompt: 'New project name:',
+        deleteConfirm: (name: string) => `Delete the project "${name}"? This cannot be undone.`,
+        empty: 'No saved projects yet. Your work is saved here automatically.',
+        openNamed: (name: string) => `Open ${name}`,
+        noImage: 'No image',
+        open: 'Open',
+        duplicate: 'Duplicate',
+        rename: 'Rename',
+        copyName: (name: string) => `${name} (copy)`,
+        notFound: 'Project not found.',
+        databaseBlocked: 'Storage is being upgraded, but another tab of the app still uses the old version. Close the other tabs and reload the page.',
+    },
+    video: {
+        statuses: {
+            starting: 'Starting',
+            processing: 'Processing',
+            downloading: 'Downloading',
+            succeeded: 'Done',
+            failed: 'Failed',
+            cancelled: 'Cancelled',
+        },
+        apiKeyTitle: 'Premium Feature: Video Generation',
+        apiKeyBody: 'AI video creation is an advanced feature. To use it, please select your own Google AI Studio API key. Usage will be billed to your Google Cloud account.',
+        selectKey: 'Select API Key',
+        billingBefore: 'For pricing details, see the ',
+        billingLink: 'billing documentation',
+        billingAfter: '.',
+        describe: '1. Describe your video',
+        promptPlaceholder: 'E.g.: A neon hologram of a cat driving at top speed',
+        initialImage: '2. Starting Image (Optional)',
+        settings: '3. Settings',
+        aspectRatio: 'Aspect ratio',
+        landscape: 'Landscape',
+        portrait: 'Portrait',
+        resolution: 'Resolution',
+        timeout: 'Time limit',
+        minutes: (minutes: number) => `${minutes} min`,
+        generate: 'Generate Video',
+        elapsed: (elapsed: string, limit: string) => `Elapsed time: ${elapsed} of ${limit}`,
+        lastChecked: (ago: string) => `Last checked ${ago} ago`,
+        download: 'Download Video',
+        loading: 'Loading...',
+        loadVideo: 'Load video',
+        loadFailed: 'Failed to load the video.',
+        placeholder: 'Your generated video will appear here',
+        yourVideos: 'Your videos',
+        fromImage: 'Video from image',
+        previewAlt: 'Image preview',
+    },
+    videoJobs: {
+        invalidApiKey: 'Invalid API key. Please select a valid API key to use this feature.',
+        noOperation: 'The video job has no operation to check.',
+        timedOut: (minutes: number) => `Time limit of ${minutes} min exceeded: the server did not finish the video in time.`,
+        processing: 'Video processing on the server...',
+        pollFailed: (failures: number, reason: string) => `Could not check the video status after ${failures} attempts: ${reason}`,
+        pollRetry: (failure: number, max: number) => `Failed to check the status (attempt ${failure} of ${max}). Retrying...`,
+        noVideo: 'Video generation finished without returning a video.',
+        waiting: 'Waiting for a turn to start the generation...',
+        started: 'Operation started. The video is being processed...',
+        downloading: 'Processing finished. Downloading the video...',
+        starting: 'Starting the video generation...',
+        resuming: 'Resuming the video status checks...',
+        reloadedBeforeStart: 'The page was reloaded before the generation started. Please try again.',
+        cancelledByUser: 'Cancelled by the user.',
+        unavailable: 'This video is no longer available for download.',
+        downloadAgainFailed: 'Could not download the video again. Generated links expire after a few days.',
+    },
+    comic: {
+        steps: { idea: 'Idea', script: 'Script', panels: 'Panels', page: 'Page' },
+        artStyles: {
+            'Cartoon': 'Cartoon',
+            'Mangá': 'Manga',
+            'Realista': 'Realistic',
+            'Desenho Simples': 'Simple Drawing',
+        },
+        untitledProject: 'Untitled comic',
+        ideaMissing: 'Please describe your story idea.',
+        scriptFailed: 'Failed to generate the script.',
+        referenceFailed: 'Failed to generate the character reference.',
+        rewriteFailed: 'Failed to rewrite the scene.',
+        versionFailed: 'Failed to generate a new version of the panel.',
+        panelCancelled: 'Cancelled',
+        panelFailed: 'Generation failed',
+        downloadPanelFailed: 'Could not download the panel.',
+        exportFailed: 'Could not export the comic.',
+        manualEdit: 'Edited by hand',
+        ideaTitle: '1. Start with your Idea',
+        ideaHint: 'Describe the story you want to create. The AI will turn it into a comic script.',
+        ideaPlaceholder: 'E.g.: A boy finds an abandoned robot in the backyard and they become friends.',
+        generateScript: 'Generate Script',
+        generatingScript: 'Generating Script...',
+        scriptTitle: '2. Script and Style',
+        scriptHint: 'Review the generated script: edit the text, drag scenes to reorder them and ask for a scene to be rewritten. Then pick the art style.',
+        cast: 'Cast',
+        castHint: 'Descriptions are repeated in every panel. With a reference image, panels are generated from it to keep the character consistent.',
+        chooseArtStyle: 'Choose the Art Style',
+        generatePanels: 'Generate Panels',
+        panelsTitle: '3. Your Comic Story!',
+        panel: (sceneNumber: number) => `Panel ${sceneNumber}`,
+        retry: 'Try again',
+        generatingVersion: 'Generating version...',
+        editPanel: (sceneNumber: number) => `Edit panel ${sceneNumber}`,
+        balloons: 'Balloons',
+        editBalloons: (sceneNumber: number) => `Edit balloons of panel ${sceneNumber}`,
+        versions: (count: number) => count > 1 ? `Versions (${count})` : 'Versions',
+        panelVersions: (sceneNumber: number) => `Versions of panel ${sceneNumber}`,
+        downloadPanel: (sceneNumber: number) => `Download panel ${sceneNumber}`,
+        startOver: 'Create a New Story',
+        composePage: 'Build Page',
+        pageTitle: '4. Build the Page',
+        pageHint: 'Pick the layout, tweak the look and export the page ready to publish.',
+        exportBookTitle: 'Export the full comic',
+        exportBookHint: 'A cover with title and summary, followed by the panels on A4 pages, in order and with the captions above.',
+        exportPdf: 'PDF for printing',
+        exportCbz: 'CBZ for readers',
+        backToPanels: 'Back to Panels',
+        backToScript: 'Back to Script',
+        viewPanels: 'View Panels',
+        panelNotGenerated: 'New scene, no panel yet',
+        generatePanel: 'Generate panel',
+    },
+    scriptEditor: {
+        titlePlaceholder: 'Story title',
+        summaryPlaceholder: 'One-sentence summary',
+        dragToReorder: 'Drag to reorder',
+        movePanel: (sceneNumber: number) => `Move panel ${sceneNumber}`,
+        rewriteScene: 'Rewrite scene',
+        deletePanel: (sceneNumber: number) => `Delete panel ${sceneNumber}`,
+        rewritePlaceholder: 'E.g.: make the scene funnier, change it to night...',
+        rewrite: 'Rewrite',
+        scene: 'Scene',
+        scenePlaceholder: 'Visual description of the scene',
+        dialogue: 'Dialogue',
+        removeLine: 'Remove line',
+        addLine: '+ Add line',
+        characters: 'Characters:',
+        unnamed: 'Unnamed',
+        rewriting: 'Rewriting scene...',
+        addScene: '+ Add scene',
+    },
+    cast: {
+        loadReferenceFailed: 'Could not load the reference image.',
+        referenceAlt: (name: string) => `Reference for ${name}`,
+        noReference: 'No reference',
+        removeReference: 'Remove reference',
+        namePlaceholder: 'Character name',
+        removeCharacter: (name: string) => `Remove ${name || 'character'}`,
+        descriptionPlaceholder: 'Appearance: age, face, hair, clothes, colors...',
+        uploadImage: 'Upload image',
+        generateReference: 'Generate reference',
+        addCharacter: '+ Add character',
+    },
+    variations: {
+        title: (sceneNumber: number) => `Versions of Panel ${sceneNumber}`,
+        useVersion: (artStyle: string) => `Use the ${artStyle} version`,
+        discard: 'Discard version',
+        newVersion: 'Generate a new version',
+        instructionPlaceholder: 'Extra instruction (optional). E.g.: closer shot, starry sky...',
+        onlyThisPanel: (artStyle: string, defaultArtStyle: string) =>
+            `Only this panel will use the ${artStyle} style; the others stay in ${defaultArtStyle}.`,
+        generate: 'Generate version',
+    },
+    balloonKinds: {
+        speech: 'Speech',
+        thought: 'Thought',
+        caption: 'Caption',
+    },
+    balloonEditor: {
+        title: 'Balloons and Lettering',
+        panelAlt: 'Panel',
+        balloon: (text: string) => `Balloon: ${text || 'empty'}`,
+        resize: 'Resize balloon',
+        moveTail: 'Move the balloon tail',
+        add: 'Add',
+        selected: 'Selected balloon',
+        textPlaceholder: 'Balloon text',
+        delete: 'Delete balloon',
+        hint: 'Select a balloon to edit its text. Drag to move it, use the corner to resize and the dot to point the tail.',
+        save: 'Save Balloons',
+    },
+    comicPageLayouts: {
+        'strip': 'Strip',
+        'grid-2x2': '2x2 grid',
+        'rows-3': '3-row page',
+        'custom': 'Custom grid',
+    },
+    pageComposer: {
+        layout: 'Layout',
+        columns: 'Columns:',
+        gutter: (px: number) => `Gutter: ${px}px`,
+        border: (px: number) => `Border: ${px}px`,
+        borderColor: 'Border color',
+        background: 'Background',
+        showTitle: (title: string) => `Show the title "${title}"`,
+        orderAndCaptions: 'Order and captions',
+        dragHint: 'Drag the panels to change the order.',
+        captionPlaceholder: 'Caption (optional)',
+        previewAlt: 'Page preview',
+        export: 'Export page (PNG)',
+        exportFailed: 'Sorry, something went wrong while exporting the page.',
+    },
+    bulk: {
+        intro: 'Plan the whole month at once: upload a CSV spreadsheet with one row per post (columns prompt, style, type, ratio and, optionally, the image file name).',
+        downloadTemplate: 'Download template spreadsheet',
+        uploadBrief: 'Upload CSV spreadsheet',
+        replaceBrief: 'Replace spreadsheet',
+        uploadImages: 'Upload images',
+        briefSummary: (name: string, rows: number, images: number) =>
+            `${name} · ${rows === 1 ? '1 row' : `${rows} rows`} · ${images === 1 ? '1 image' : `${images} images`}`,
+        missingImages: (names: string) => `Images named in the spreadsheet that have not been uploaded yet: ${names}.`,
+        generateAll: 'Generate all',
+        retryFailed: (count: number) => `Try again (${count})`,
+        retry: 'Try again',
+        exportAll: 'Export all',
+        openInCreator: 'Open in creator',
+        progress: (done: number, failed: number, total: number) =>
+            `${done} of ${total} done${failed > 0 ? ` · ${failed} failed` : ''}`,
+        row: (rowNumber: number) => `Row ${rowNumber}`,
+        statuses: {
+            invalid: 'Invalid',
+            pending: 'Queued',
+            running: 'Generating',
+            done: 'Done',
+            failed: 'Failed',
+            cancelled: 'Cancelled',
+        },
+        missingPromptColumn: 'The spreadsheet needs a "prompt" column in its header.',
+        noRows: 'The spreadsheet has no rows besides the header.',
+        missingPrompt: 'No prompt or image.',
+        unknownPostType: (value: string) => `Unknown post type: "${value}". Use "single" or "carousel".`,
+        unknownAspectRatio: (value: string) => `Unknown ratio or platform: "${value}".`,
+        imageNotFound: (name: string) => `The image "${name}" has not been uploaded.`,
+        readFailed: 'Could not read the spreadsheet.',
+        rowFailed: 'Failed to generate the posts for this row.',
+        exportFailed: 'Sorry, there was an error exporting the posts.',
+    },
+    scheduleDialog: {
+        title: 'Schedule post',
+        date: 'Date',
+        time: 'Time',
+        channel: 'Channel',
+        cropWarning: (from: string, to: string) => `The image is ${from}; on this channel it will be cropped to ${to}.`,
+        pastWarning: 'This time has already passed: the post will be published as soon as it is scheduled.',
+        confirm: 'Schedule',
+        failed: 'Could not schedule the post.',
+    },
+    calendar: {
+        hint: 'Drag a post to another day to reschedule it. At the scheduled time it is handed to the publisher; for now, the image and a caption JSON go to the outbox.',
+        previousMonth: 'Previous month',
+        nextMonth: 'Next month',
+        today: 'Today',
+        monthSummary: (count: number) => count === 1 ? '1 post this month' : `${count} posts this month`,
+        empty: 'No posts scheduled. Use "Schedule post" on a post in the creator to add it to the calendar.',
+        statuses: {
+            scheduled: 'Scheduled',
+            publishing: 'Publishing...',
+            published: 'Published',
+            failed: 'Failed',
+        },
+        untitled: 'Untitled',
+        publishNow: 'Publish now',
+        retry: 'Try again',
+        remove: 'Remove from calendar',
+        removeConfirm: 'Remove this post from the calendar?',
+        publishedAt: (when: string) => `Published on ${when}`,
+        receipt: (location: string) => `Destination: ${location}`,
+        updateFailed: 'Could not update the calendar.',
+        outbox: 'Outbox',
+        outboxHint: 'What the local publisher wrote: the final image and the caption JSON of each post.',
+        outboxEmpty: 'Nothing published yet.',
+        outboxLoadFailed: 'Could not read the outbox.',
+        deleteEntry: 'Delete from outbox',
+    },
+    carouselExport: {
+        noText: '(no text)',
+        tag: 'Tag',
+        headline: 'Headline',
+        cta: 'CTA',
+        caption: 'Caption',
+        altText: 'Alt text',
+    },
+    errors: {
+        rateLimit: 'You have hit the request limit. Please wait a moment and try again.',
+        imageGenerationFailed: 'The AI could not generate an image for this prompt. Try being more descriptive or changing your request.',
+        editBlocked: (reason: string) => `The image edit was blocked for safety reasons: ${reason}. Please try a different prompt.`,
+        editEmptyResponse: 'The image edit failed: the API returned an empty or invalid response.',
+        editNoImage: 'The AI could not edit the image with this prompt. Try being clearer or changing your request.',
+        editFailed: 'The image edit failed or returned no data.',
+        generationBlocked: (reason: string) => `The image generation was blocked for safety reasons: ${reason}. Please try a different prompt.`,
+        referencesFailed: 'The AI could not generate an image from the references. Try being more descriptive or changing your request.',
+        videoPromptRequired: 'A prompt is required when no image is provided.',
+        videoFailed: (reason: string) => `The video generation failed: ${reason}`,
+        videoFiltered: (reasons: string) => `The video was blocked by the safety filters: ${reasons}`,
+        videoNoLink: 'The video generation finished without returning a download link.',
+        videoKeyMissing: 'The API key needed to download the video was not found.',
+        videoDownloadFailed: (status: number) => `Failed to download the video. Status: ${status}`,
+        mockVideoUnsupported: 'This browser cannot record the demo video.',
+        mockUnknownOperation: 'Unknown operation for the demo provider.',
+        pngFailed: 'Failed to create the PNG.',
+        jpegFailed: 'Failed to create the JPEG.',
+    },
+};
@@ -0,0 +1,543 @@
+import type { Messages } from './pt-BR';
+
+export const es: Messages = {
+    common: {
+        cancel: 'Cancelar',
+        close: 'Cerrar',
+        back: 'Volver',
+        clear: 'Limpiar',
+        edit: 'Editar',
+        delete: 'Eliminar',
+        remove: 'Quitar',
+        generating: 'Generando...',
+        exporting: 'Exportando...',
+        result: 'Resultado',
+        clickToUpload: 'Haz clic para subir',
+        removeImage: 'Quitar imagen',
+        invalidImageFile: 'Sube un archivo de imagen válido (PNG, JPG, etc.).',
+        promptOrImageRequired: 'Escribe una instrucción o sube una imagen.',
+        openProjectFailed: 'No se pudo abrir el proyecto guardado.',
+        newProject: '+ Nuevo proyecto',
+    },
+    languages: {
+        interface: 'Idioma de la interfaz',
+        output: 'Idioma del contenido',
+        outputMultipleHint: 'Elige uno o más idiomas. El primero es el original; los demás son traducciones lado a lado.',
+    },
+    app: {
+        title: 'GÊNIO POST',
+        subtitle: 'Crea y Edita Contenido Profesional para Redes Sociales con una Sola Instrucción',
+        tabs: {
+            creator: 'Creador de Posts',
+            editor: 'Editor de Imágenes',
+            generator: 'Generador de Imágenes',
+            comic: 'Cómics',
+            video: 'Vídeo',
+            projects: 'Mis Proyectos',
+            calendar: 'Calendario',
+            bulk: 'En Lote',
+        },
+        describePost: '1. Describe tu post',
+        promptPlaceholder: 'Ej.: Anuncio de la inauguración de una nueva cafetería vegana... o sube una imagen y describe el post.',
+        uploadOptional: '2. Sube una imagen (Opcional)',
+        uploadHint: 'O la IA generará una por ti',
+        postTypes: { single: 'Post Único', carousel: 'Carrusel' },
+        platform: 'Plataforma',
+        platformSize: (aspectRatio: string, width: number, height: number) => `${aspectRatio} · ${width}×${height}px`,
+        fitLabel: 'Imagen con otra proporción:',
+        fitModes: { crop: 'Recortar', pad: 'Rellenar con bordes' },
+        includeCaption: 'Incluir texto de IA',
+        visualStyle: 'Estilo Visual',
+        generatePosts: 'Generar Posts',
+        creatingContent: 'Creando tu contenido... esto puede tardar un momento.',
+        exportCarousel: 'Exportar carrusel',
+        exportCarouselIn: (language: string) => `Exportar carrusel (${language})`,
+        untitledProject: 'Post sin título',
+        processImageFailed: 'Ocurrió un error al procesar tu imagen.',
+        generationCancelled: 'Generación cancelada.',
+        generationCancelledKept: (count: number) =>
+            `Generación cancelada. ${count === 1 ? 'Se conservó 1 post terminado' : `Se conservaron ${count} posts terminados`}.`,
+        generatePostsFailed: 'No se pudieron generar los posts. Inténtalo de nuevo.',
+        translationsFailed: 'Los posts se generaron, pero algunas traducciones fallaron.',
+        editImageFailed: 'No se pudo editar la imagen. Inténtalo de nuevo.',
+        deleteBrandKitConfirm: '¿Eliminar este kit de marca?',
+        exportCarouselFailed: 'Lo sentimos, ocurrió un error al exportar el carrusel.',
+        uploadedImageAlt: 'Imagen subida',
+        regenerateCaptionsFailed: 'No se pudieron generar nuevas opciones de texto. Por favor, inténtalo de nuevo.',
+    },
+    visualStyles: {
+        Moderno: 'Moderno',
+        Tech: 'Tech',
+        Dark: 'Oscuro',
+        Vibrante: 'Vibrante',
+        Elegante: 'Elegante',
+        Natureza: 'Naturaleza',
+        Realismo: 'Realismo',
+        Anime: 'Anime',
+    },
+    autosave: {
+        idle: '',
+        saving: 'Guardando...',
+        saved: 'Guardado automáticamente',
+        error: 'No se pudo guardar el proyecto',
+    },
+    queue: {
+        status: (running: number, queued: number, eta: string) =>
+            `${running} en curso${queued > 0 ? ` · ${queued} en cola` : ''} · faltan ${eta}`,
+    },
+    platforms: {
+        'instagram-feed': 'Instagram (feed)',
+        'instagram-story': 'Instagram Story',
+        'linkedin': 'LinkedIn',
+        'x': 'X',
+        'facebook': 'Facebook',
+        'pinterest': 'Pinterest',
+        'tiktok-cover': 'Portada de TikTok',
+    },
+    postLayouts: {
+        'bottom-left': 'Inferior',
+        'centered': 'Centrado',
+        'top-headline': 'Título Arriba',
+        'split': 'Panel Lateral',
+        'minimal': 'Minimalista',
+    },
+    captionRegenerator: {
+        tone: 'Tono',
+        tones: {
+            formal: 'Formal',
+            divertido: 'Divertido',
+            urgente: 'Urgente',
+            inspirador: 'Inspirador',
+        },
+        headlineLength: 'Longitud del título',
+        headlineLengths: {
+            short: 'Corto',
+            medium: 'Medio',
+            long: 'Largo',
+        },
+        instructionPlaceholder: 'Instrucción extra (opcional). Ej.: menciona el envío gratis',
+        generate: 'Generar 3 opciones',
+    },
+    postCard: {
+        layout: 'Diseño',
+        nextOption: (current: number, total: number) => `Siguiente opción (${current}/${total})`,
+        newOptions: 'Generar nuevas opciones',
+        finalAdjustments: 'Ajustes Finales de la Imagen',
+        undo: '↶ Deshacer',
+        redo: 'Rehacer ↷',
+        compare: 'Antes / Después',
+        closeCompare: 'Cerrar comparación',
+        originalImage: 'Imagen original',
+        versionLabel: (index: number, prompt: string | null) => `Versión ${index}: ${prompt ?? 'original'}`,
+        editedWith: (prompt: string) => `Edición: "${prompt}"`,
+        maskActive: 'Solo se editará el área pintada',
+        editPlaceholder: 'Editar imagen...',
+        paintArea: 'Pintar el área a editar',
+        editImage: 'Editar Imagen',
+        downloadPost: 'Descargar Post',
+        downloadFailed: 'Lo sentimos, ocurrió un error al crear la imagen de tu post.',
+        headlineTooLong: (count: number, limit: number) => `Título con ${count} caracteres; el límite es ${limit}.`,
+        captionTooLong: (count: number, limit: number) => `Texto con ${count} caracteres; el límite es ${limit}.`,
+        tooManyHashtags: (count: number, limit: number) => `${count} hashtags; el límite es ${limit}.`,
+        outsideSafeZone: (platform: string) => `Parte del texto queda fuera de la zona segura (${platform}).`,
+        schedule: 'Programar publicación',
+        scheduledCount: (count: number) => count === 1 ? '1 programación en el calendario' : `${count} programaciones en el calendario`,
+    },
+    caption: {
+        title: 'Texto del Post',
+        copy: 'Copiar texto',
+        copied: '¡Copiado!',
+        copyFailed: 'No se pudo copiar',
+        bodyPlaceholder: 'Escribe el texto del post...',
+        hashtagsPlaceholder: '#hashtags separados por espacios',
+        altTextLabel: 'Texto alternativo (accesibilidad)',
+        altTextPlaceholder: 'Describe lo que aparece en la imagen...',
+    },
+    postPreview: {
+        imageAlt: 'Imagen de fondo del post',
+        logoAlt: 'Logo de la marca',
+        clickToEdit: 'Haz clic en el texto para editarlo',
+    },
+    imageCompare: {
+        before: 'Antes',
+        after: 'Después',
+        slider: 'Comparar antes y después',
+    },
+    brush: {
+        brush: 'Pincel',
+        eraser: 'Borrador',
+        size: 'Tamaño:',
+        undo: '↶ Deshacer',
+        undoHint: 'Deshacer (Ctrl+Z)',
+        redo: '↷ Rehacer',
+        redoHint: 'Rehacer (Ctrl+Shift+Z)',
+    },
+    maskEditor: {
+        title: 'Pintar Área',
+        hint: 'Pinta lo que debe cambiar. El resto de la imagen queda igual que el original.',
+        useArea: 'Usar Área',
+    },
+    comicEditor: {
+        title: 'Editor de Viñeta',
+        save: 'Guardar Cambios',
+    },
+    imageEditor: {
+        uploadTitle: 'Haz clic para subir una imagen',
+        uploadHint: 'PNG, JPG, GIF hasta 10MB',
+        invalidImageFile: 'Sube un archivo de imagen válido.',
+        promptPlaceholder: 'Ej.: Quita a la persona del fondo',
+        changeImage: 'Cambiar Imagen',
+        paintArea: 'Pintar Área',
+        repaintArea: 'Volver a Pintar',
+        areaSelected: 'Área seleccionada',
+        applyEdit: 'Aplicar Edición',
+        editing: 'Editando...',
+        original: 'Original',
+        edited: 'Editada',
+        downloadEdited: 'Descargar Imagen Editada',
+        editedPlaceholder: 'Tu imagen editada aparecerá aquí',
+        missingInput: 'Sube una imagen y escribe una instrucción de edición.',
+        editFailed: 'No se pudo editar la imagen. Inténtalo de nuevo.',
+        untitledProject: 'Edición de imagen',
+    },
+    imageGenerator: {
+        missingPrompt: 'Escribe una instrucción para generar la imagen.',
+        promptPlaceholder: 'Ej.: Un astronauta surfeando una ola cósmica, estilo synthwave...',
+        promptLabel: 'Instrucción para generar la imagen',
+        generate: 'Generar Imagen',
+        generatedAlt: 'Imagen generada',
+        download: 'Descargar Imagen Generada',
+        placeholder: 'Tu imagen generada aparecerá aquí',
+        failed: 'No se pudo generar la imagen. Inténtalo de nuevo.',
+    },
+    brandKit: {
+        title: 'Kit de Marca',
+        defaultName: 'Predeterminado Gênio Post',
+        new: 'Nuevo',
+        newKitName: 'Nuevo Kit',
+        unnamedKit: 'Kit sin nombre',
+        namePlaceholder: 'Nombre del cliente o de la marca',
+        primaryColor: 'Color primario (etiqueta)',
+        secondaryColor: 'Color secundario (CTA)',
+        headlineFont: 'Fuente del título',
+        bodyFont: 'Fuente del texto',
+        gradientColor: 'Color del degradado',
+        gradientOpacity: 'Opacidad del degradado',
+        cornerRadius: 'Redondeo',
+        logo: 'Logo',
+        removeLogo: 'Quitar logo',
+        upload: 'Subir',
+        save: 'Guardar Kit',
+        saveFailed: 'No se pudo guardar el kit de marca en este navegador. Prueba con un logo más pequeño.',
+        logoFailed: 'No se pudo leer el archivo del logo.',
+    },
+    projects: {
+        kinds: {
+            'posts': 'Posts',
+            'comic': 'Cómics',
+            'image-edit': 'Edición de Imagen',
+        },
+        loadFailed: 'No se pudieron cargar tus proyectos.',
+        actionFailed: 'La operación falló. Inténtalo de nuevo.',
+        renamePrompt: 'Nuevo nombre del proyecto:',
+        deleteConfirm: (name: string) => `¿Eliminar el proyecto "${name}"? Esta acción no se puede deshacer.`,
+        empty: 'Aún no hay proyectos guardados. Tus trabajos se guardan aquí automáticamente.',
+        openNamed: (name: string) => `Abrir ${name}`,
+        noImage: 'Sin imagen',
+        open: 'Abrir',
+        duplicate: 'Duplicar',
+        rename: 'Renombrar',
+        copyName: (name: string) => `${name} (copia)`,
+        notFound: 'Proyecto no encontrado.',
+        databaseBlocked: 'El almacenamiento se está actualizando, pero otra pestaña de la aplicación todavía usa la versión anterior. Cierra las otras pestañas y recarga la página.',
+    },
+    video: {
+        statuses: {
+            starting: 'Iniciando',
+            processing: 'Procesando',
+            downloading: 'Descargando',
+            succeeded: 'Completado',
+            failed: 'Falló',
+            cancelled: 'Cancelado',
+        },
+        apiKeyTitle: 'Función Premium: Generación de Vídeo',
+        apiKeyBody: 'La creación de vídeos con IA es una función avanzada. Para usarla, selecciona tu propia clave de API de Google AI Studio. El uso se cobrará en tu cuenta de Google Cloud.',
+        selectKey: 'Seleccionar Clave de API',
+        billingBefore: 'Para más información sobre precios, consulta la ',
+        billingLink: 'documentación de facturación',
+        billingAfter: '.',
+        describe: '1. Describe tu vídeo',
+        promptPlaceholder: 'Ej.: Un holograma de neón de un gato conduciendo a toda velocidad',
+        initialImage: '2. Imagen Inicial (Opcional)',
+        settings: '3. Configuración',
+        aspectRatio: 'Proporción',
+        landscape: 'Horizontal',
+        portrait: 'Vertical',
+        resolution: 'Resolución',
+        timeout: 'Tiempo límite',
+        minutes: (minutes: number) => `${minutes} min`,
+        generate: 'Generar Vídeo',
+        elapsed: (elapsed: string, limit: string) => `Tiempo transcurrido: ${elapsed} de ${limit}`,
+        lastChecked: (ago: string) => `Última comprobación hace ${ago}`,
+        download: 'Descargar Vídeo',
+        loading: 'Cargando...',
+        loadVideo: 'Cargar vídeo',
+        loadFailed: 'No se pudo cargar el vídeo.',
+        placeholder: 'Tu vídeo generado aparecerá aquí',
+        yourVideos: 'Tus vídeos',
+        fromImage: 'Vídeo a partir de imagen',
+        previewAlt: 'Vista previa de la imagen',
+    },
+    videoJobs: {
+        invalidApiKey: 'Clave de API no válida. Selecciona una clave de API válida para usar esta función.',
+        noOperation: 'El trabajo de vídeo no tiene una operación que consultar.',
+        timedOut: (minutes: number) => `Se superó el límite de ${minutes} min: el servidor no terminó el vídeo a tiempo.`,
+        processing: 'Vídeo en proceso en el servidor...',
+        pollFailed: (failures: number, reason: string) => `No se pudo consultar el estado del vídeo tras ${failures} intentos: ${reason}`,
+        pollRetry: (failure: number, max: number) => `No se pudo consultar el estado (intento ${failure} de ${max}). Reintentando...`,
+        noVideo: 'La generación del vídeo terminó sin devolver un vídeo.',
+        waiting: 'Esperando turno para iniciar la generación...',
+        started: 'Operación iniciada. El vídeo se está procesando...',
+        downloading: 'Proceso completado. Descargando el vídeo...',
+        starting: 'Iniciando la generación del vídeo...',
+        resuming: 'Reanudando la consulta del vídeo...',
+        reloadedBeforeStart: 'La página se recargó antes de que empezara la generación. Inténtalo de nuevo.',
+        cancelledByUser: 'Cancelado por el usuario.',
+        unavailable: 'Este vídeo ya no está disponible para descargar.',
+        downloadAgainFailed: 'No se pudo volver a descargar el vídeo. Los enlaces generados caducan a los pocos días.',
+    },
+    comic: {
+        steps: { idea: 'Idea', script: 'Guion', panels: 'Viñetas', page: 'Página' },
+        artStyles: {
+            'Cartoon': 'Caricatura',
+            'Mangá': 'Manga',
+            'Realista': 'Realista',
+            'Desenho Simples': 'Dibujo Sencillo',
+        },
+        untitledProject: 'Cómic sin título',
+        ideaMissing: 'Describe tu idea para la historia.',
+        scriptFailed: 'No se pudo generar el guion.',
+        referenceFailed: 'No se pudo generar la referencia del personaje.',
+        rewriteFailed: 'No se pudo reescribir la escena.',
+        versionFailed: 'No se pudo generar una nueva versión de la viñeta.',
+        panelCancelled: 'Cancelado',
+        panelFailed: 'Error al generar',
+        downloadPanelFailed: 'No se pudo descargar la viñeta.',
+        exportFailed: 'No se pudo exportar el cómic.',
+        manualEdit: 'Editado a mano',
+        ideaTitle: '1. Empieza con tu Idea',
+        ideaHint: 'Describe la historia que quieres crear. La IA la convertirá en un guion de cómic.',
+        ideaPlaceholder: 'Ej.: Un niño encuentra un robot abandonado en el patio y se hacen amigos.',
+        generateScript: 'Generar Guion',
+        generatingScript: 'Generando Guion...',
+        scriptTitle: '2. Guion y Estilo',
+        scriptHint: 'Revisa el guion generado: edita el texto, arrastra las escenas para reordenarlas y pide reescribir una escena. Después, elige el estilo de arte.',
+        cast: 'Reparto',
+        castHint: 'Las descripciones se repiten en todas las viñetas. Con una imagen de referencia, las viñetas se generan a partir de ella para mantener igual al personaje.',
+        chooseArtStyle: 'Elige el Estilo de Arte',
+        generatePanels: 'Generar Viñetas',
+        panelsTitle: '3. ¡Tu Historia en Cómic!',
+        panel: (sceneNumber: number) => `Viñeta ${sceneNumber}`,
+        retry: 'Reintentar',
+        generatingVersion: 'Generando versión...',
+        editPanel: (sceneNumber: number) => `Editar viñeta ${sceneNumber}`,
+        balloons: 'Bocadillos',
+        editBalloons: (sceneNumber: number) => `Editar bocadillos de la viñeta ${sceneNumber}`,
+        versions: (count: number) => count > 1 ? `Versiones (${count})` : 'Versiones',
+        panelVersions: (sceneNumber: number) => `Versiones de la viñeta ${sceneNumber}`,
+        downloadPanel: (sceneNumber: number) => `Descargar viñeta ${sceneNumber}`,
+        startOver: 'Crear Nueva Historia',
+        composePage: 'Montar Página',
+        pageTitle: '4. Monta la Página',
+        pageHint: 'Elige el diseño, ajusta el aspecto y exporta la página lista para publicar.',
+        exportBookTitle: 'Exportar el cómic completo',
+        exportBookHint: 'Portada con título y resumen, seguida de las viñetas en páginas A4, en orden y con los cartuchos encima.',
+        exportPdf: 'PDF para imprimir',
+        exportCbz: 'CBZ para lectores',
+        backToPanels: 'Volver a las Viñetas',
+        backToScript: 'Volver al Guion',
+        viewPanels: 'Ver Viñetas',
+        panelNotGenerated: 'Escena nueva, todavía sin viñeta',
+        generatePanel: 'Generar viñeta',
+    },
+    scriptEditor: {
+        titlePlaceholder: 'Título de la historia',
+        summaryPlaceholder: 'Resumen en una frase',
+        dragToReorder: 'Arrastra para reordenar',
+        movePanel: (sceneNumber: number) => `Mover viñeta ${sceneNumber}`,
+        rewriteScene: 'Reescribir escena',
+        deletePanel: (sceneNumber: number) => `Eliminar viñeta ${sceneNumber}`,
+        rewritePlaceholder: 'Ej.: haz la escena más divertida, pásala a la noche...',
+        rewrite: 'Reescribir',
+        scene: 'Escena',
+        scenePlaceholder: 'Descripción visual de la escena',
+        dialogue: 'Diálogos',
+        removeLine: 'Quitar frase',
+        addLine: '+ Añadir frase',
+        characters: 'Personajes:',
+        unnamed: 'Sin nombre',
+        rewriting: 'Reescribiendo escena...',
+        addScene: '+ Añadir escena',
+    },
+    cast: {
+        loadReferenceFailed: 'No se pudo cargar la imagen de referencia.',
+        referenceAlt: (name: string) => `Referencia de ${name}`,
+        noReference: 'Sin referencia',
+        removeReference: 'Quitar referencia',
+        namePlaceholder: 'Nombre del personaje',
+        removeCharacter: (name: string) => `Quitar ${name || 'personaje'}`,
+        descriptionPlaceholder: 'Aspecto: edad, cara, pelo, ropa, colores...',
+        uploadImage: 'Subir imagen',
+        generateReference: 'Generar referencia',
+        addCharacter: '+ Añadir personaje',
+    },
+    variations: {
+        title: (sceneNumber: number) => `Versiones de la Viñeta ${sceneNumber}`,
+        useVersion: (artStyle: string) => `Usar la versión en ${artStyle}`,
+        discard: 'Descartar versión',
+        newVersion: 'Generar nueva versión',
+        instructionPlaceholder: 'Instrucción extra (opcional). Ej.: plano más cerrado, cielo estrellado...',
+        onlyThisPanel: (artStyle: string, defaultArtStyle: string) =>
+            `Solo esta viñeta usará el estilo ${artStyle}; las demás siguen en ${defaultArtStyle}.`,
+        generate: 'Generar versión',
+    },
+    balloonKinds: {
+        speech: 'Diálogo',
+        thought: 'Pensamiento',
+        caption: 'Cartucho',
+    },
+    balloonEditor: {
+        title: 'Bocadillos y Rotulado',
+        panelAlt: 'Viñeta',
+        balloon: (text: string) => `Bocadillo: ${text || 'vacío'}`,
+        resize: 'Cambiar tamaño del bocadillo',
+        moveTail: 'Mover la punta del bocadillo',
+        add: 'Añadir',
+        selected: 'Bocadillo seleccionado',
+        textPlaceholder: 'Texto del bocadillo',
+        delete: 'Eliminar bocadillo',
+        hint: 'Selecciona un bocadillo para editar el texto. Arrastra para moverlo, usa la esquina para cambiar el tamaño y el punto para orientar la punta.',
+        save: 'Guardar Bocadillos',
+    },
+    comicPageLayouts: {
+        'strip': 'Tira',
+        'grid-2x2': 'Cuadrícula 2x2',
+        'rows-3': 'Página en 3 franjas',
+        'custom': 'Cuadrícula personalizada',
+    },
+    pageComposer: {
+        layout: 'Diseño',
+        columns: 'Columnas:',
+        gutter: (px: number) => `Separación: ${px}px`,
+        border: (px: number) => `Borde: ${px}px`,
+        borderColor: 'Color del borde',
+        background: 'Fondo',
+        showTitle: (title: string) => `Mostrar el título "${title}"`,
+        orderAndCaptions: 'Orden y cartuchos',
+        dragHint: 'Arrastra las viñetas para cambiar el orden.',
+        captionPlaceholder: 'Cartucho (opcional)',
+        previewAlt: 'Vista previa de la página',
+        export: 'Exportar página (PNG)',
+        exportFailed: 'Lo sentimos, ocurrió un error al exportar la página.',
+    },
+    bulk: {
+        intro: 'Genera el plan del mes de una vez: sube una hoja de cálculo en CSV con una fila por post (columnas prompt, estilo, tipo, proporción y, si hay, el nombre del archivo de imagen).',
+        downloadTemplate: 'Descargar hoja de ejemplo',
+        uploadBrief: 'Subir hoja CSV',
+        replaceBrief: 'Cambiar hoja',
+        uploadImages: 'Subir imágenes',
+        briefSummary: (name: string, rows: number, images: number) =>
+            `${name} · ${rows === 1 ? '1 fila' : `${rows} filas`} · ${images === 1 ? '1 imagen' : `${images} imágenes`}`,
+        missingImages: (names: string) => `Imágenes citadas en la hoja que aún no se han subido: ${names}.`,
+        generateAll: 'Generar todas',
+        retryFailed: (count: number) => `Reintentar (${count})`,
+        retry: 'Reintentar',
+        exportAll: 'Exportar todo',
+        openInCreator: 'Abrir en el creador',
+        progress: (done: number, failed: number, total: number) =>
+            `${done} de ${total} completadas${failed > 0 ? ` · ${failed === 1 ? '1 falló' : `${failed} fallaron`}` : ''}`,
+        row: (rowNumber: number) => `Fila ${rowNumber}`,
+        statuses: {
+            invalid: 'No válida',
+            pending: 'En cola',
+            running: 'Generando',
+            done: 'Completada',
+            failed: 'Falló',
+            cancelled: 'Cancelada',
+        },
+        missingPromptColumn: 'La hoja necesita una columna "prompt" en el encabezado.',
+        noRows: 'La hoja no tiene filas además del encabezado.',
+        missingPrompt: 'Sin prompt ni imagen.',
+        unknownPostType: (value: string) => `Tipo de post desconocido: "${value}". Usa "único" o "carrusel".`,
+        unknownAspectRatio: (value: string) => `Proporción o plataforma desconocida: "${value}".`,
+        imageNotFound: (name: string) => `La imagen "${name}" no se ha subido.`,
+        readFailed: 'No se pudo leer la hoja.',
+        rowFailed: 'No se pudieron generar los posts de esta fila.',
+        exportFailed: 'Lo sentimos, ocurrió un error al exportar los posts.',
+    },
+    scheduleDialog: {
+        title: 'Programar publicación',
+        date: 'Fecha',
+        time: 'Hora',
+        channel: 'Canal',
+        cropWarning: (from: string, to: string) => `La imagen está en ${from}; en este canal se recortará a ${to}.`,
+        pastWarning: 'Esa hora ya pasó: el post se publicará en cuanto se programe.',
+        confirm: 'Programar',
+        failed: 'No se pudo programar el post.',
+    },
+    calendar: {
+        hint: 'Arrastra un post a otro día para reprogramarlo. A la hora indicada se entrega al publicador; por ahora, la imagen y el texto en JSON van a la bandeja de salida.',
+        previousMonth: 'Mes anterior',
+        nextMonth: 'Mes siguiente',
+        today: 'Hoy',
+        monthSummary: (count: number) => count === 1 ? '1 post este mes' : `${count} posts este mes`,
+        empty: 'No hay posts programados. Usa "Programar publicación" en un post del creador para añadirlo al calendario.',
+        statuses: {
+            scheduled: 'Programado',
+            publishing: 'Publicando...',
+            published: 'Publicado',
+            failed: 'Falló',
+        },
+        untitled: 'Sin título',
+        publishNow: 'Publicar ahora',
+        retry: 'Reintentar',
+        remove: 'Quitar del calendario',
+        removeConfirm: '¿Quitar este post del calendario?',
+        publishedAt: (when: string) => `Publicado el ${when}`,
+        receipt: (location: string) => `Destino: ${location}`,
+        updateFailed: 'No se pudo actualizar el calendario.',
+        outbox: 'Bandeja de salida',
+        outboxHint: 'Lo que grabó el publicador local: la imagen final y el texto en JSON de cada post.',
+        outboxEmpty: 'Aún no se ha publicado nada.',
+        outboxLoadFailed: 'No se pudo leer la bandeja de salida.',
+        deleteEntry: 'Eliminar de la bandeja de salida',
+    },
+    carouselExport: {
+        noText: '(sin texto)',
+        tag: 'Etiqueta',
+        headline: 'Título',
+        cta: 'CTA',
+        caption: 'Texto',
+        altText: 'Texto alternativo',
+    },
+    errors: {
+        rateLimit: 'Has alcanzado el límite de solicitudes. Espera un momento e inténtalo de nuevo.',
+        imageGenerationFailed: 'La IA no pudo generar una imagen para esta instrucción. Intenta ser más descriptivo o cambiar tu petición.',
+        editBlocked: (reason: string) => `La edición de la imagen se bloqueó por motivos de seguridad: ${reason}. Prueba con otra instrucción.`,
+        editEmptyResponse: 'La edición de la imagen falló: la API devolvió una respuesta vacía o no válida.',
+        editNoImage: 'La IA no pudo editar la imagen con esta instrucción. Intenta ser más claro o cambiar tu petición.',
+        editFailed: 'La edición de la imagen falló o no devolvió datos.',
+        generationBlocked: (reason: string) => `La generación de la imagen se bloqueó por motivos de seguridad: ${reason}. Prueba con otra instrucción.`,
+        referencesFailed: 'La IA no pudo generar una imagen a partir de las referencias. Intenta ser más descriptivo o cambiar tu petición.',
+        videoPromptRequired: 'Se necesita una instrucción si no se proporciona ninguna imagen.',
+        videoFailed: (reason: string) => `La generación del vídeo falló: ${reason}`,
+        videoFiltered: (reasons: string) => `El vídeo fue bloqueado por los filtros de seguridad: ${reasons}`,
+        videoNoLink: 'La generación del vídeo terminó sin devolver un enlace de descarga.',
+        videoKeyMissing: 'No se encontró la clave de API para descargar el vídeo.',
+        videoDownloadFailed: (status: number) => `No se pudo descargar el vídeo. Estado: ${status}`,
+        mockVideoUnsupported: 'Este navegador no admite la grabación del vídeo de demostración.',
+        mockUnknownOperation: 'Operación desconocida para el proveedor de demostración.',
+        pngFailed: 'No se pudo generar el PNG.',
+        jpegFailed: 'No se pudo generar el JPEG.',
+    },
+};
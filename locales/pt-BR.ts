@@ -0,0 +1,550 @@
+import type { BalloonKind, CaptionTone, ComicPageLayout, HeadlineLength, Platform, PostLayout, ProjectKind, ScheduledPostStatus, VideoJobStatus } from '../types';
+import type { AutosaveStatus } from '../hooks/useProjectAutosave';
+
+/**
+ * Catálogo de referência da interface. Os outros idiomas são tipados com `Messages`,
+ * então precisam ter exatamente as mesmas chaves; textos com valores variáveis são funções.
+ */
+export const ptBR = {
+    common: {
+        cancel: 'Cancelar',
+        close: 'Fechar',
+        back: 'Voltar',
+        clear: 'Limpar',
+        edit: 'Editar',
+        delete: 'Excluir',
+        remove: 'Remover',
+        generating: 'Gerando...',
+        exporting: 'Exportando...',
+        result: 'Resultado',
+        clickToUpload: 'Clique para enviar',
+        removeImage: 'Remover imagem',
+        invalidImageFile: 'Por favor, envie um arquivo de imagem válido (PNG, JPG, etc.).',
+        promptOrImageRequired: 'Por favor, insira um comando ou envie uma imagem.',
+        openProjectFailed: 'Não foi possível abrir o projeto salvo.',
+        newProject: '+ Novo projeto',
+    },
+    languages: {
+        interface: 'Idioma da interface',
+        output: 'Idioma do conteúdo',
+        outputMultipleHint: 'Escolha um ou mais idiomas. O primeiro é o original; os demais são traduções lado a lado.',
+    },
+    app: {
+        title: 'GÊNIO POST',
+        subtitle: 'Crie e Edite Conteúdo Profissional para Redes Sociais com um Simples Comando',
+        tabs: {
+            creator: 'Criador de Posts',
+            editor: 'Editor de Imagens',
+            generator: 'Gerador de Imagens',
+            comic: 'Quadrinhos',
+            video: 'Vídeo',
+            projects: 'Meus Projetos',
+            calendar: 'Calendário',
+            bulk: 'Em Lote',
+        },
+        describePost: '1. Descreva seu post',
+        promptPlaceholder: 'Ex: Anúncio da inauguração de uma nova cafeteria vegana... ou envie uma imagem e descreva o post.',
+        uploadOptional: '2. Envie uma imagem (Opcional)',
+        uploadHint: 'Ou a IA irá gerar uma para você',
+        postTypes: { single: 'Post Único', carousel: 'Carrossel' },
+        platform: 'Plataforma',
+        platformSize: (aspectRatio: string, width: number, height: number) => `${aspectRatio} · ${width}×${height}px`,
+        fitLabel: 'Imagem fora da proporção:',
+        fitModes: { crop: 'Cortar', pad: 'Preencher com bordas' },
+        includeCaption: 'Incluir legenda de IA',
+        visualStyle: 'Estilo Visual',
+        generatePosts: 'Gerar Posts',
+        creatingContent: 'Criando seu conteúdo... isso pode levar um momento.',
+        exportCarousel: 'Exportar carrossel',
+        exportCarouselIn: (language: string) => `Exportar carrossel (${language})`,
+        untitledProject: 'Post sem título',
+        processImageFailed: 'Ocorreu um erro ao processar sua imagem.',
+        generationCancelled: 'Geração cancelada.',
+        generationCancelledKept: (count: number) =>
+            `Geração cancelada. ${count === 1 ? '1 post concluído foi mantido' : `${count} posts concluídos foram mantidos`}.`,
+        generatePostsFailed: 'Falha ao gerar os posts. Por favor, tente novamente.',
+        translationsFailed: 'Os posts foram gerados, mas algumas traduções falharam.',
+        editImageFailed: 'Falha ao editar a imagem. Por favor, tente novamente.',
+        deleteBrandKitConfirm: 'Excluir este kit de marca?',
+        exportCarouselFailed: 'Desculpe, ocorreu um erro ao exportar o carrossel.',
+        uploadedImageAlt: 'Imagem enviada',
+        regenerateCaptionsFailed: 'Falha ao gerar novas opções de legenda. Por favor, tente novamente.',
+    },
+    visualStyles: {
+        Moderno: 'Moderno',
+        Tech: 'Tech',
+        Dark: 'Dark',
+        Vibrante: 'Vibrante',
+        Elegante: 'Elegante',
+        Natureza: 'Natureza',
+        Realismo: 'Realismo',
+        Anime: 'Anime',
+    } as Record<string, string>,
+    autosave: {
+        idle: '',
+        saving: 'Salvando...',
+        saved: 'Salvo automaticamente',
+        error: 'Falha ao salvar o projeto',
+    } as Record<AutosaveStatus, string>,
+    queue: {
+        status: (running: number, queued: number, eta: string) =>
+            `${running} em andamento${queued > 0 ? ` · ${queued} na fila` : ''} · ${eta} restantes`,
+    },
+    platforms: {
+        'instagram-feed': 'Instagram (feed)',
+        'instagram-story': 'Instagram Story',
+        'linkedin': 'LinkedIn',
+        'x': 'X',
+        'facebook': 'Facebook',
+        'pinterest': 'Pinterest',
+        'tiktok-cover': 'Capa do TikTok',
+    } as Record<Platform, string>,
+    postLayouts: {
+        'bottom-left': 'Inferior',
+        'centered': 'Centralizado',
+        'top-headline': 'Título no Topo',
+        'split': 'Painel Lateral',
+        'minimal': 'Minimalista',
+    } as Record<PostLayout, string>,
+    captionRegenerator: {
+        tone: 'Tom',
+        tones: {
+            formal: 'Formal',
+            divertido: 'Divertido',
+            urgente: 'Urgente',
+            inspirador: 'Inspirador',
+        } as Record<CaptionTone, string>,
+        headlineLength: 'Tamanho do título',
+        headlineLengths: {
+            short: 'Curto',
+            medium: 'Médio',
+            long: 'Longo',
+        } as Record<HeadlineLength, string>,
+        instructionPlaceholder: 'Instrução extra (opcional). Ex: mencione o frete grátis',
+        generate: 'Gerar 3 opções',
+    },
+    postCard: {
+        layout: 'Layout',
+        nextOption: (current: number, total: number) => `Próxima opção (${current}/${total})`,
+        newOptions: 'Gerar novas opções',
+        finalAdjustments: 'Ajustes Finais na Imagem',
+        undo: '↶ Desfazer',
+        redo: 'Refazer ↷',
+        compare: 'Antes / Depois',
+        closeCompare: 'Fechar comparação',
+        originalImage: 'Imagem original',
+        versionLabel: (index: number, prompt: string | null) => `Versão ${index}: ${prompt ?? 'original'}`,
+        editedWith: (prompt: string) => `Edição: "${prompt}"`,
+        maskActive: 'Só a área pintada será editada',
+        editPlaceholder: 'Editar imagem...',
+        paintArea: 'Pintar área a editar',
+        editImage: 'Editar Imagem',
+        downloadPost: 'Baixar Post',
+        downloadFailed: 'Desculpe, ocorreu um erro ao criar a imagem do seu post.',
+        headlineTooLong: (count: number, limit: number) => `Título com ${count} caracteres; o limite é ${limit}.`,
+        captionTooLong: (count: number, limit: number) => `Legenda com ${count} caracteres; o limite é ${limit}.`,
+        tooManyHashtags: (count: number, limit: number) => `${count} hashtags; o limite é ${limit}.`,
+        outsideSafeZone: (platform: string) => `Parte do texto fica fora da área segura (${platform}).`,
+        schedule: 'Agendar publicação',
+        scheduledCount: (count: number) => count === 1 ? '1 agendamento no calendário' : `${count} agendamentos no calendário`,
+    },
+    caption: {
+        title: 'Legenda do Post',
+        copy: 'Copiar legenda',
+        copied: 'Copiada!',
+        copyFailed: 'Não foi possível copiar',
+        bodyPlaceholder: 'Escreva a legenda do post...',
+        hashtagsPlaceholder: '#hashtags separadas por espaço',
+        altTextLabel: 'Texto alternativo (acessibilidade)',
+        altTextPlaceholder: 'Descreva o que aparece na imagem...',
+    },
+    postPreview: {
+        imageAlt: 'Imagem de fundo do post',
+        logoAlt: 'Logo da marca',
+        clickToEdit: 'Clique no texto para editar',
+    },
+    imageCompare: {
+        before: 'Antes',
+        after: 'Depois',
+        slider: 'Comparar antes e depois',
+    },
+    brush: {
+        brush: 'Pincel',
+        eraser: 'Borracha',
+        size: 'Tamanho:',
+        undo: '↶ Desfazer',
+        undoHint: 'Desfazer (Ctrl+Z)',
+        redo: '↷ Refazer',
+        redoHint: 'Refazer (Ctrl+Shift+Z)',
+    },
+    maskEditor: {
+        title: 'Pintar Área',
+        hint: 'Pinte o que deve mudar. O restante da imagem fica igual ao original.',
+        useArea: 'Usar Área',
+    },
+    comicEditor: {
+        title: 'Editor de Painel',
+        save: 'Salvar Edições',
+    },
+    imageEditor: {
+        uploadTitle: 'Clique para enviar uma imagem',
+        uploadHint: 'PNG, JPG, GIF até 10MB',
+        invalidImageFile: 'Por favor, envie um arquivo de imagem válido.',
+        promptPlaceholder: 'Ex: Remova a pessoa no fundo',
+        changeImage: 'Trocar Imagem',
+        paintArea: 'Pintar Área',
+        repaintArea: 'Repintar Área',
+        areaSelected: 'Área selecionada',
+        applyEdit: 'Aplicar Edição',
+        editing: 'Editando...',
+        original: 'Original',
+        edited: 'Editada',
+        downloadEdited: 'Baixar Imagem Editada',
+        editedPlaceholder: 'Sua imagem editada aparecerá aqui',
+        missingInput: 'Por favor, envie uma imagem e forneça um comando de edição.',
+        editFailed: 'Falha ao editar a imagem. Por favor, tente novamente.',
+        untitledProject: 'Edição de imagem',
+    },
+    imageGenerator: {
+        missingPrompt: 'Por favor, insira um comando para gerar a imagem.',
+        promptPlaceholder: 'Ex: Um astronauta surfando em uma onda cósmica, estilo synthwave...',
+        promptLabel: 'Comando para gerar imagem',
+        generate: 'Gerar Imagem',
+        generatedAlt: 'Imagem gerada',
+        download: 'Baixar Imagem Gerada',
+        placeholder: 'Sua imagem gerada aparecerá aqui',
+        failed: 'Falha ao gerar a imagem. Tente novamente.',
+    },
+    brandKit: {
+        title: 'Kit de Marca',
+        defaultName: 'Padrão Gênio Post',
+        new: 'Novo',
+        newKitName: 'Novo Kit',
+        unnamedKit: 'Kit sem nome',
+        namePlaceholder: 'Nome do cliente ou da marca',
+        primaryColor: 'Cor primária (etiqueta)',
+        secondaryColor: 'Cor secundária (CTA)',
+        headlineFont: 'Fonte do título',
+        bodyFont: 'Fonte do texto',
+        gradientColor: 'Cor do degradê',
+        gradientOpacity: 'Opacidade do degradê',
+        cornerRadius: 'Arredondamento',
+        logo: 'Logo',
+        removeLogo: 'Remover logo',
+        upload: 'Enviar',
+        save: 'Salvar Kit',
+        saveFailed: 'Não foi possível salvar o kit de marca neste navegador. Tente um logo menor.',
+        logoFailed: 'Não foi possível ler o arquivo do logo.',
+    },
+    projects: {
+        kinds: {
+            'posts': 'Posts',
+            'comic': 'Quadrinhos',
+            'image-edit': 'Edição de Imagem',
+        } as Record<ProjectKind, string>,
+        loadFailed: 'Não foi possível carregar seus projetos.',
+        actionFailed: 'A operação falhou. Tente novamente.',
+        renamePrompt: 'Novo nome do projeto:',
+        deleteConfirm: (name: string) => `Excluir o projeto "${name}"? Esta ação não pode ser desfeita.`,
+        empty: 'Nenhum projeto salvo ainda. Seus trabalhos são salvos automaticamente aqui.',
+        openNamed: (name: string) => `Abrir ${name}`,
+        noImage: 'Sem imagem',
+        open: 'Abrir',
+        duplicate: 'Duplicar',
+        rename: 'Renomear',
+        copyName: (name: string) => `${name} (cópia)`,
+        notFound: 'Projeto não encontrado.',
+        databaseBlocked: 'O armazenamento está sendo atualizado, mas outra aba do aplicativo ainda usa a versão antiga. Feche as outras abas e recarregue a página.',
+    },
+    video: {
+        statuses: {
+            starting: 'Iniciando',
+            processing: 'Processando',
+            downloading: 'Baixando',
+            succeeded: 'Concluído',
+            failed: 'Falhou',
+            cancelled: 'Cancelado',
+        } as Record<VideoJobStatus, string>,
+        apiKeyTitle: 'Recurso Premium: Geração de Vídeo',
+        apiKeyBody: 'A criação de vídeos com IA é um recurso avançado. Para utilizá-lo, por favor, selecione sua própria chave de API do Google AI Studio. O uso será cobrado na sua conta Google Cloud.',
+        selectKey: 'Selecionar Chave de API',
+        billingBefore: 'Para mais informações sobre preços, consulte a ',
+        billingLink: 'documentação de cobrança',
+        billingAfter: '.',
+        describe: '1. Descreva seu vídeo',
+        promptPlaceholder: 'Ex: Um holograma de néon de um gato a conduzir em alta velocidade',
+        initialImage: '2. Imagem Inicial (Opcional)',
+        settings: '3. Configurações',
+        aspectRatio: 'Proporção',
+        landscape: 'Paisagem',
+        portrait: 'Retrato',
+        resolution: 'Resolução',
+        timeout: 'Tempo limite',
+        minutes: (minutes: number) => `${minutes} min`,
+        generate: 'Gerar Vídeo',
+        elapsed: (elapsed: string, limit: string) => `Tempo decorrido: ${elapsed} de ${limit}`,
+        lastChecked: (ago: string) => `Última verificação há ${ago}`,
+        download: 'Baixar Vídeo',
+        loading: 'Carregando...',
+        loadVideo: 'Carregar vídeo',
+        loadFailed: 'Falha ao carregar o vídeo.',
+        placeholder: 'Seu vídeo gerado aparecerá aqui',
+        yourVideos: 'Seus vídeos',
+        fromImage: 'Vídeo a partir de imagem',
+        previewAlt: 'Pré-visualização da imagem',
+    },
+    videoJobs: {
+        invalidApiKey: 'Chave de API inválida. Por favor, selecione uma chave de API válida para usar este recurso.',
+        noOperation: 'O trabalho de vídeo não tem uma operação para consultar.',
+        timedOut: (minutes: number) => `Tempo limite de ${minutes} min excedido: o servidor não terminou o vídeo a tempo.`,
+        processing: 'Vídeo em processamento no servidor...',
+        pollFailed: (failures: number, reason: string) => `Não foi possível consultar o status do vídeo após ${failures} tentativas: ${reason}`,
+        pollRetry: (failure: number, max: number) => `Falha ao consultar o status (tentativa ${failure} de ${max}). Tentando novamente...`,
+        noVideo: 'A geração do vídeo terminou sem retornar um vídeo.',
+        waiting: 'Aguardando a vez para iniciar a geração...',
+        started: 'Operação iniciada. O vídeo está sendo processado...',
+        downloading: 'Processamento concluído. Baixando o vídeo...',
+        starting: 'Iniciando a geração do vídeo...',
+        resuming: 'Retomando a consulta do vídeo...',
+        reloadedBeforeStart: 'A página foi recarregada antes de a geração começar. Tente novamente.',
+        cancelledByUser: 'Cancelado pelo usuário.',
+        unavailable: 'Este vídeo não está mais disponível para download.',
+        downloadAgainFailed: 'Não foi possível baixar o vídeo novamente. Os links gerados expiram depois de alguns dias.',
+    },
+    comic: {
+        steps: { idea: 'Ideia', script: 'Roteiro', panels: 'Quadros', page: 'Página' },
+        artStyles: {
+            'Cartoon': 'Cartoon',
+            'Mangá': 'Mangá',
+            'Realista': 'Realista',
+            'Desenho Simples': 'Desenho Simples',
+        } as Record<string, string>,
+        untitledProject: 'Quadrinho sem título',
+        ideaMissing: 'Por favor, descreva sua ideia para a história.',
+        scriptFailed: 'Falha ao gerar o roteiro.',
+        referenceFailed: 'Falha ao gerar a referência do personagem.',
+        rewriteFailed: 'Falha ao reescrever a cena.',
+        versionFailed: 'Falha ao gerar uma nova versão do quadro.',
+        panelCancelled: 'Cancelado',
+        panelFailed: 'Falha ao gerar',
+        downloadPanelFailed: 'Não foi possível baixar o quadro.',
+        exportFailed: 'Não foi possível exportar a HQ.',
+        manualEdit: 'Editado à mão',
+        ideaTitle: '1. Comece com sua Ideia',
+        ideaHint: 'Descreva a história que você quer criar. A IA irá transformá-la em um roteiro de HQ.',
+        ideaPlaceholder: 'Ex: Um menino encontra um robô abandonado no quintal e eles se tornam amigos.',
+        generateScript: 'Gerar Roteiro',
+        generatingScript: 'Gerando Roteiro...',
+        scriptTitle: '2. Roteiro e Estilo',
+        scriptHint: 'Revise o roteiro gerado: edite o texto, arraste as cenas para reordenar e peça para reescrever uma cena. Depois, escolha o estilo de arte.',
+        cast: 'Elenco',
+        castHint: 'As descrições são repetidas em todos os quadros. Com uma imagem de referência, os quadros são gerados a partir dela para manter o personagem igual.',
+        chooseArtStyle: 'Escolha o Estilo de Arte',
+        generatePanels: 'Gerar Quadros',
+        panelsTitle: '3. Sua História em Quadrinhos!',
+        panel: (sceneNumber: number) => `Quadro ${sceneNumber}`,
+        retry: 'Tentar novamente',
+        generatingVersion: 'Gerando versão...',
+        editPanel: (sceneNumber: number) => `Editar quadro ${sceneNumber}`,
+        balloons: 'Balões',
+        editBalloons: (sceneNumber: number) => `Editar balões do quadro ${sceneNumber}`,
+        versions: (count: number) => count > 1 ? `Versões (${count})` : 'Versões',
+        panelVersions: (sceneNumber: number) => `Versões do quadro ${sceneNumber}`,
+        downloadPanel: (sceneNumber: number) => `Baixar quadro ${sceneNumber}`,
+        startOver: 'Criar Nova História',
+        composePage: 'Montar Página',
+        pageTitle: '4. Monte a Página',
+        pageHint: 'Escolha o layout, ajuste o visual e exporte a página pronta para publicar.',
+        exportBookTitle: 'Exportar a HQ completa',
+        exportBookHint: 'Capa com título e resumo, seguida dos quadros em páginas A4, na ordem e com os recordatórios acima.',
+        exportPdf: 'PDF para impressão',
+        exportCbz: 'CBZ para leitores',
+        backToPanels: 'Voltar aos Quadros',
+        backToScript: 'Voltar ao Roteiro',
+        viewPanels: 'Ver Quadros',
+        panelNotGenerated: 'Cena nova, ainda sem quadro',
+        generatePanel: 'Gerar quadro',
+    },
+    scriptEditor: {
+        titlePlaceholder: 'Título da história',
+        summaryPlaceholder: 'Resumo em uma frase',
+        dragToReorder: 'Arraste para reordenar',
+        movePanel: (sceneNumber: number) => `Mover quadro ${sceneNumber}`,
+        rewriteScene: 'Reescrever cena',
+        deletePanel: (sceneNumber: number) => `Excluir quadro ${sceneNumber}`,
+        rewritePlaceholder: 'Ex: deixe a cena mais engraçada, mude para a noite...',
+        rewrite: 'Reescrever',
+        scene: 'Cena',
+        scenePlaceholder: 'Descrição visual da cena',
+        dialogue: 'Diálogos',
+        removeLine: 'Remover fala',
+        addLine: '+ Adicionar fala',
+        characters: 'Personagens:',
+        unnamed: 'Sem nome',
+        rewriting: 'Reescrevendo cena...',
+        addScene: '+ Adicionar cena',
+    },
+    cast: {
+        loadReferenceFailed: 'Não foi possível carregar a imagem de referência.',
+        referenceAlt: (name: string) => `Referência de ${name}`,
+        noReference: 'Sem referência',
+        removeReference: 'Remover referência',
+        namePlaceholder: 'Nome do personagem',
+        removeCharacter: (name: string) => `Remover ${name || 'personagem'}`,
+        descriptionPlaceholder: 'Aparência: idade, rosto, cabelo, roupas, cores...',
+        uploadImage: 'Enviar imagem',
+        generateReference: 'Gerar referência',
+        addCharacter: '+ Adicionar personagem',
+    },
+    variations: {
+        title: (sceneNumber: number) => `Versões do Quadro ${sceneNumber}`,
+        useVersion: (artStyle: string) => `Usar versão em ${artStyle}`,
+        discard: 'Descartar versão',
+        newVersion: 'Gerar nova versão',
+        instructionPlaceholder: 'Instrução extra (opcional). Ex: plano mais fechado, céu estrelado...',
+        onlyThisPanel: (artStyle: string, defaultArtStyle: string) =>
+            `Só este quadro usará o estilo ${artStyle}; os demais continuam em ${defaultArtStyle}.`,
+        generate: 'Gerar versão',
+    },
+    balloonKinds: {
+        speech: 'Fala',
+        thought: 'Pensamento',
+        caption: 'Recordatório',
+    } as Record<BalloonKind, string>,
+    balloonEditor: {
+        title: 'Balões e Letreiro',
+        panelAlt: 'Quadro',
+        balloon: (text: string) => `Balão: ${text || 'vazio'}`,
+        resize: 'Redimensionar balão',
+        moveTail: 'Mover a ponta do balão',
+        add: 'Adicionar',
+        selected: 'Balão selecionado',
+        textPlaceholder: 'Texto do balão',
+        delete: 'Excluir balão',
+        hint: 'Selecione um balão para editar o texto. Arraste para mover, use o canto para redimensionar e a bolinha para apontar o rabicho.',
+        save: 'Salvar Balões',
+    },
+    comicPageLayouts: {
+        'strip': 'Tira',
+        'grid-2x2': 'Grade 2x2',
+        'rows-3': 'Página em 3 faixas',
+        'custom': 'Grade personalizada',
+    } as Record<ComicPageLayout, string>,
+    pageComposer: {
+        layout: 'Layout',
+        columns: 'Colunas:',
+        gutter: (px: number) => `Espaçamento: ${px}px`,
+        border: (px: number) => `Borda: ${px}px`,
+        borderColor: 'Cor da borda',
+        background: 'Fundo',
+        showTitle: (title: string) => `Mostrar o título "${title}"`,
+        orderAndCaptions: 'Ordem e recordatórios',
+        dragHint: 'Arraste os quadros para mudar a ordem.',
+        captionPlaceholder: 'Recordatório (opcional)',
+        previewAlt: 'Pré-visualização da página',
+        export: 'Exportar página (PNG)',
+        exportFailed: 'Desculpe, ocorreu um erro ao exportar a página.',
+    },
+    bulk: {
+        intro: 'Gere o plano do mês de uma vez: envie uma planilha em CSV com uma linha por post (colunas prompt, estilo, tipo, proporção e, se houver, o nome do arquivo de imagem).',
+        downloadTemplate: 'Baixar planilha modelo',
+        uploadBrief: 'Enviar planilha CSV',
+        replaceBrief: 'Trocar planilha',
+        uploadImages: 'Enviar imagens',
+        briefSummary: (name: string, rows: number, images: number) =>
+            `${name} · ${rows === 1 ? '1 linha' : `${rows} linhas`} · ${images === 1 ? '1 imagem' : `${images} imagens`}`,
+        missingImages: (names: string) => `Imagens citadas na planilha que ainda não foram enviadas: ${names}.`,
+        generateAll: 'Gerar todas',
+        retryFailed: (count: number) => `Tentar de novo (${count})`,
+        retry: 'Tentar de novo',
+        exportAll: 'Exportar tudo',
+        openInCreator: 'Abrir no criador',
+        progress: (done: number, failed: number, total: number) =>
+            `${done} de ${total} concluídas${failed > 0 ? ` · ${failed === 1 ? '1 falhou' : `${failed} falharam`}` : ''}`,
+        row: (rowNumber: number) => `Linha ${rowNumber}`,
+        statuses: {
+            invalid: 'Inválida',
+            pending: 'Na fila',
+            running: 'Gerando',
+            done: 'Concluída',
+            failed: 'Falhou',
+            cancelled: 'Cancelada',
+        },
+        missingPromptColumn: 'A planilha precisa de uma coluna "prompt" no cabeçalho.',
+        noRows: 'A planilha não tem nenhuma linha além do cabeçalho.',
+        missingPrompt: 'Sem prompt nem imagem.',
+        unknownPostType: (value: string) => `Tipo de post desconhecido: "${value}". Use "único" ou "carrossel".`,
+        unknownAspectRatio: (value: string) => `Proporção ou plataforma desconhecida: "${value}".`,
+        imageNotFound: (name: string) => `A imagem "${name}" não foi enviada.`,
+        readFailed: 'Não foi possível ler a planilha.',
+        rowFailed: 'Falha ao gerar os posts desta linha.',
+        exportFailed: 'Desculpe, ocorreu um erro ao exportar os posts.',
+    },
+    scheduleDialog: {
+        title: 'Agendar publicação',
+        date: 'Data',
+        time: 'Horário',
+        channel: 'Canal',
+        cropWarning: (from: string, to: string) => `A imagem está em ${from}; neste canal ela será recortada para ${to}.`,
+        pastWarning: 'Esse horário já passou: o post será publicado assim que for agendado.',
+        confirm: 'Agendar',
+        failed: 'Não foi possível agendar o post.',
+    },
+    calendar: {
+        hint: 'Arraste um post para outro dia para reagendá-lo. Na hora marcada, ele é entregue ao publicador; por enquanto, a imagem e a legenda em JSON vão para a caixa de saída.',
+        previousMonth: 'Mês anterior',
+        nextMonth: 'Próximo mês',
+        today: 'Hoje',
+        monthSummary: (count: number) => count === 1 ? '1 post neste mês' : `${count} posts neste mês`,
+        empty: 'Nenhum post agendado. Use "Agendar publicação" em um post do criador para colocá-lo no calendário.',
+        statuses: {
+            scheduled: 'Agendado',
+            publishing: 'Publicando...',
+            published: 'Publicado',
+            failed: 'Falhou',
+        } as Record<ScheduledPostStatus, string>,
+        untitled: 'Sem título',
+        publishNow: 'Publicar agora',
+        retry: 'Tentar novamente',
+        remove: 'Remover do calendário',
+        removeConfirm: 'Remover este post do calendário?',
+        publishedAt: (when: string) => `Publicado em ${when}`,
+        receipt: (location: string) => `Destino: ${location}`,
+        updateFailed: 'Não foi possível atualizar o calendário.',
+        outbox: 'Caixa de saída',
+        outboxHint: 'O que o publicador local gravou: a imagem final e a legenda em JSON de cada post.',
+        outboxEmpty: 'Nada publicado ainda.',
+        outboxLoadFailed: 'Não foi possível ler a caixa de saída.',
+        deleteEntry: 'Excluir da caixa de saída',
+    },
+    carouselExport: {
+        noText: '(sem texto)',
+        tag: 'Tag',
+        headline: 'Título',
+        cta: 'CTA',
+        caption: 'Legenda',
+        altText: 'Texto alternativo',
+    },
+    errors: {
+        rateLimit: 'Você atingiu o limite de solicitações. Por favor, aguarde um pouco e tente novamente.',
+        imageGenerationFailed: 'A IA não conseguiu gerar uma imagem para este comando. Tente ser mais descritivo ou alterar o seu pedido.',
+        editBlocked: (reason: string) => `A edição da imagem foi bloqueada por motivos de segurança: ${reason}. Por favor, tente um prompt diferente.`,
+        editEmptyResponse: 'A edição da imagem falhou: A API retornou uma resposta vazia ou inválida.',
+        editNoImage: 'A IA não conseguiu editar a imagem com este comando. Tente ser mais claro ou alterar o seu pedido.',
+        editFailed: 'A edição da imagem falhou ou não retornou dados.',
+        generationBlocked: (reason: string) => `A geração da imagem foi bloqueada por motivos de segurança: ${reason}. Por favor, tente um prompt diferente.`,
+        referencesFailed: 'A IA não conseguiu gerar uma imagem a partir das referências. Tente ser mais descritivo ou alterar o seu pedido.',
+        videoPromptRequired: 'Um prompt é necessário se nenhuma imagem for fornecida.',
+        videoFailed: (reason: string) => `A geração do vídeo falhou: ${reason}`,
+        videoFiltered: (reasons: string) => `O vídeo foi bloqueado pelos filtros de segurança: ${reasons}`,
+        videoNoLink: 'A geração do vídeo terminou sem retornar um link para download.',
+        videoKeyMissing: 'A chave de API não foi encontrada para baixar o vídeo.',
+        videoDownloadFailed: (status: number) => `Falha ao baixar o vídeo. Status: ${status}`,
+        mockVideoUnsupported: 'Este navegador não suporta a gravação do vídeo de demonstração.',
+        mockUnknownOperation: 'Operação desconhecida para o fornecedor de demonstração.',
+        pngFailed: 'Falha ao gerar o PNG.',
+        jpegFailed: 'Falha ao gerar o JPEG.',
+    },
+};
+
+export type Messages = typeof ptBR;
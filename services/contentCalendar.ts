@@ -0,0 +1,153 @@
+import type { Platform, Post, ScheduledPost } from '../types';
+import { deleteScheduledPost, listScheduledPosts, saveScheduledPost } from './projectStore';
+import { getPublisher, type PublishRequest } from './publishers';
+import { createPostImage } from '../utils/exportUtils';
+import { findBrandKit, loadBrandKits } from '../utils/brandKit';
+import { formatPostCaption } from '../utils/captionUtils';
+import { PLATFORM_PRESETS } from '../utils/platformPresets';
+import { DEFAULT_OUTPUT_LANGUAGE } from '../utils/i18n';
+
+const DISPATCH_INTERVAL_MS = 30 * 1000;
+
+let items: ScheduledPost[] = [];
+let loadPromise: Promise<void> | null = null;
+let dispatchTimer: number | null = null;
+let isDispatching = false;
+const listeners = new Set<(items: ScheduledPost[]) => void>();
+
+const notify = () => listeners.forEach(listener => listener(items));
+
+const sortItems = (list: ScheduledPost[]) => [...list].sort((a, b) => a.scheduledAt - b.scheduledAt);
+
+/** Carrega o calendário do IndexedDB uma única vez. */
+const ensureLoaded = (): Promise<void> => {
+    if (!loadPromise) {
+        loadPromise = listScheduledPosts()
+            .then(stored => {
+                // Um item que estava sendo publicado quando a página fechou volta para a fila.
+                items = stored.map(item => item.status === 'publishing' ? { ...item, status: 'scheduled' } : item);
+                notify();
+            })
+            .catch(e => {
+                console.error("Failed to load scheduled posts:", e);
+                loadPromise = null;
+            });
+    }
+    return loadPromise;
+};
+
+const getItem = (id: string): ScheduledPost | undefined => items.find(item => item.id === id);
+
+const putItem = async (item: ScheduledPost) => {
+    items = sortItems([...items.filter(existing => existing.id !== item.id), item]);
+    notify();
+    await saveScheduledPost(item);
+};
+
+const updateItem = async (id: string, changes: Partial<ScheduledPost>) => {
+    const item = getItem(id);
+    if (item) await putItem({ ...item, ...changes });
+};
+
+const buildPublishRequest = async (item: ScheduledPost): Promise<PublishRequest> => {
+    const { post } = item;
+    const text = post.texts[post.activeTextIndex] ?? null;
+    const image = await createPostImage(post, findBrandKit(loadBrandKits(), post.brandKitId), PLATFORM_PRESETS[item.channel]);
+    return {
+        item,
+        image,
+        caption: {
+            channel: item.channel,
+            scheduledAt: new Date(item.scheduledAt).toISOString(),
+            language: post.language ?? DEFAULT_OUTPUT_LANGUAGE,
+            tag: text?.tag ?? '',
+            headline: text?.headline ?? '',
+            cta: text?.cta ?? '',
+            caption: text ? formatPostCaption(text) : '',
+            hashtags: text?.hashtags ?? [],
+            altText: text?.altText ?? '',
+        },
+    };
+};
+
+const publishItem = async (id: string) => {
+    await updateItem(id, { status: 'publishing', error: null });
+    const item = getItem(id);
+    if (!item) return;
+    try {
+        const receipt = await getPublisher().publish(await buildPublishRequest(item));
+        await updateItem(id, { status: 'published', publishedAt: Date.now(), receipt: receipt.location });
+    } catch (e) {
+        console.error(`Failed to publish scheduled post ${id}:`, e);
+        await updateItem(id, { status: 'failed', error: e instanceof Error ? e.message : String(e) });
+    }
+};
+
+/** Publica, um de cada vez, os itens cujo horário já chegou. */
+export const dispatchDuePosts = async () => {
+    if (isDispatching) return;
+    isDispatching = true;
+    try {
+        await ensureLoaded();
+        const due = items.filter(item => item.status === 'scheduled' && item.scheduledAt <= Date.now());
+        for (const item of due) {
+            await publishItem(item.id);
+        }
+    } catch (e) {
+        console.error("Failed to dispatch scheduled posts:", e);
+    } finally {
+        isDispatching = false;
+    }
+};
+
+/**
+ * Verifica o calendário periodicamente enquanto o app está aberto. Itens que venceram com a
+ * página fechada são publicados na próxima abertura. Só tem efeito na primeira chamada.
+ */
+export const startCalendarDispatcher = () => {
+    if (dispatchTimer !== null) return;
+    dispatchTimer = window.setInterval(dispatchDuePosts, DISPATCH_INTERVAL_MS);
+    dispatchDuePosts();
+};
+
+/** Agenda uma cópia do post. O histórico de versões da imagem fica de fora para não pesar no armazenamento. */
+export const schedulePost = async (post: Post, channel: Platform, scheduledAt: number): Promise<ScheduledPost> => {
+    await ensureLoaded();
+    const item: ScheduledPost = {
+        id: crypto.randomUUID(),
+        post: { ...post, versions: undefined, activeVersionId: undefined },
+        channel,
+        scheduledAt,
+        status: 'scheduled',
+        createdAt: Date.now(),
+        publishedAt: null,
+        receipt: null,
+        error: null,
+    };
+    await putItem(item);
+    if (scheduledAt <= Date.now()) dispatchDuePosts();
+    return item;
+};
+
+/** Muda data, horário ou canal de um item que ainda não foi publicado; um item com falha volta para a fila. */
+export const rescheduleItem = async (id: string, changes: Partial<Pick<ScheduledPost, 'channel' | 'scheduledAt'>>) => {
+    const item = getItem(id);
+    if (!item || item.status === 'published' || item.status === 'publishing') return;
+    await putItem({ ...item, ...changes, status: 'scheduled', error: null });
+    if ((changes.scheduledAt ?? item.scheduledAt) <= Date.now()) dispatchDuePosts();
+};
+
+export const publishNow = (id: string) => rescheduleItem(id, { scheduledAt: Date.now() });
+
+export const unscheduleItem = async (id: string) => {
+    items = items.filter(item => item.id !== id);
+    notify();
+    await deleteScheduledPost(id);
+};
+
+export const subscribeToCalendar = (listener: (items: ScheduledPost[]) => void): (() => void) => {
+    listeners.add(listener);
+    listener(items);
+    ensureLoaded();
+    return () => { listeners.delete(listener); };
+};
@@ -1,86 +1,104 @@
-// FIX: Import necessary response types from the @google/genai library.
-import { GoogleGenAI, Type, Modality, GenerateContentResponse, GenerateImageResponse, VideosOperation } from "@google/genai";
 // FIX: Add ComicScript to imports to be used in generateComicScript
-import type { Post, StructuredText, ComicScript } from '../types';
+import type { AspectRatio, Post, StructuredText, ComicScript, ComicCharacter, Scene, OutputLanguage, CaptionRegenerationOptions, CaptionTone, HeadlineLength } from '../types';
+import { getAIProvider, JsonSchema, VideoOperation } from './providers';
+import { createRequestScheduler, QueueSnapshot, RequestKind, RequestScheduler } from './requestScheduler';
+import { createAbortError, isAbortError } from '../utils/abort';
+import { compositeMaskedEdit, createModelMask } from '../utils/maskUtils';
+import { normalizeHashtags } from '../utils/captionUtils';
 
-const MODEL_TEXT = 'gemini-2.5-pro';
-const MODEL_IMAGE_GENERATION = 'imagen-4.0-generate-001';
-const MODEL_IMAGE_EDITING = 'gemini-2.5-flash-image';
-// FIX: Add video generation model constant for generateVideo function
-const MODEL_VIDEO_GENERATION = 'veo-3.1-fast-generate-preview';
+export { isAbortError };
 
-type AspectRatio = '1:1' | '4:5' | '9:16';
+let scheduler: RequestScheduler | null = null;
 
-/**
- * A higher-order function that wraps an API call with retry logic for rate limit errors.
- * Implements exponential backoff to wait for longer periods between retries.
- * @param apiCall The async function to call.
- * @param maxRetries The maximum number of times to retry.
- * @param initialDelay The initial delay in milliseconds.
- * @returns The result of the API call.
- * @throws A user-friendly error if all retries fail, or the original error for non-rate-limit issues.
- */
-const withRetry = async <T>(apiCall: () => Promise<T>, maxRetries = 3, initialDelay = 5000): Promise<T> => {
-    let delay = initialDelay;
-
-    for (let i = 0; i < maxRetries; i++) {
-        try {
-            return await apiCall();
-        } catch (e: any) {
-            const errorMessage = e?.toString().toLowerCase() || '';
-            
-            // Check if it's a rate limit error.
-            if (errorMessage.includes('429') || errorMessage.includes('resource_exhausted')) {
-                console.warn(`Rate limit hit. Retrying in ${delay / 1000}s... (Attempt ${i + 1}/${maxRetries})`);
-                await new Promise(resolve => setTimeout(resolve, delay));
-                delay *= 2; // Exponential backoff
-            } else {
-                // Not a rate limit error, re-throw immediately.
-                throw e;
-            }
-        }
+// Todas as chamadas passam pelo agendador central, que aplica os limites de uso do fornecedor ativo.
+const getScheduler = (): RequestScheduler => {
+    if (!scheduler) {
+        scheduler = createRequestScheduler(getAIProvider().rateLimits);
     }
-    
-    // After all retries, throw a user-friendly error.
-    throw new Error("Você atingiu o limite de solicitações. Por favor, aguarde um pouco e tente novamente.");
+    return scheduler;
 };
 
+const schedule = <T>(kind: RequestKind, task: () => Promise<T>, signal?: AbortSignal): Promise<T> =>
+    getScheduler().schedule(kind, task, { signal });
 
-function createAIInstance() {
-    if (!process.env.API_KEY) {
-        throw new Error("API_KEY environment variable is not set.");
+/**
+ * Aguarda todas as gerações de imagem de um lote. Se o usuário cancelar, as que já
+ * terminaram são devolvidas mesmo assim; só há erro de cancelamento se nenhuma terminou.
+ */
+const settleBatch = async <T>(tasks: Promise<T>[], signal?: AbortSignal): Promise<T[]> => {
+    const results = await Promise.allSettled(tasks);
+    const finished = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    if (signal?.aborted) {
+        if (finished.length === 0) throw createAbortError();
+        return finished;
     }
-    return new GoogleGenAI({ apiKey: process.env.API_KEY });
-}
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) throw failure.reason;
+    return finished;
+};
 
-const structuredTextSchema = {
-    type: Type.OBJECT,
+/** Permite que a interface acompanhe a fila de chamadas (posição e tempo estimado). */
+export const subscribeToQueue = (listener: (snapshot: QueueSnapshot) => void): (() => void) =>
+    getScheduler().subscribe(listener);
+
+const structuredTextSchema: JsonSchema = {
+    type: 'OBJECT',
     properties: {
         tag: {
-            type: Type.STRING,
+            type: 'STRING',
             description: "Uma etiqueta curta de categoria, com 2-3 palavras. Ex: 'DICA RÁPIDA', 'MARKETING DIGITAL'. Em maiúsculas."
         },
         headline: {
-            type: Type.STRING,
+            type: 'STRING',
             description: "O título principal do post, chamativo e conciso, com no máximo 15 palavras."
         },
         cta: {
-            type: Type.STRING,
+            type: 'STRING',
             description: "Uma chamada para ação (call to action) curta e direta. Ex: 'SEGUE O FIO >>>', 'SAIBA MAIS'. Em maiúsculas."
+        },
+        body: {
+            type: 'STRING',
+            description: "A legenda do post, publicada junto com a imagem: de 2 a 4 parágrafos curtos que desenvolvem o título e terminam convidando à ação. Pode usar emojis com moderação. Sem hashtags."
+        },
+        hashtags: {
+            type: 'ARRAY',
+            description: "De 5 a 10 hashtags relevantes para o post, cada uma começando com '#' e sem espaços.",
+            items: { type: 'STRING' }
+        },
+        altText: {
+            type: 'STRING',
+            description: "Texto alternativo para leitores de tela: descreve de forma objetiva o que aparece na imagem, em até 2 frases, sem começar com 'Imagem de'."
         }
     },
-     required: ["tag", "headline", "cta"]
+     required: ["tag", "headline", "cta", "body", "hashtags", "altText"]
 }
 
-const postSchemaWithImagePrompt = {
-    type: Type.OBJECT,
+// Nomes usados nos prompts, que são escritos em português independentemente do idioma pedido.
+const PROMPT_LANGUAGE_NAMES: Record<OutputLanguage, string> = {
+    'pt-BR': 'português do Brasil',
+    'en': 'inglês',
+    'es': 'espanhol',
+    'fr': 'francês',
+    'de': 'alemão',
+    'it': 'italiano',
+};
+
+const languageInstruction = (language: OutputLanguage, what: string): string =>
+    ` Escreva ${what} em ${PROMPT_LANGUAGE_NAMES[language]}, com ortografia e acentuação corretas.`;
+
+/** Garante hashtags no formato esperado, qualquer que seja o que o modelo devolveu. */
+const normalizeCaptionOptions = (options: StructuredText[]): StructuredText[] =>
+    options.map(option => ({ ...option, hashtags: normalizeHashtags(option.hashtags ?? []) }));
+
+const postSchemaWithImagePrompt: JsonSchema = {
+    type: 'OBJECT',
     properties: {
         imagePrompt: {
-            type: Type.STRING,
+            type: 'STRING',
             description: "Um prompt detalhado e descritivo para um modelo de geração de imagem criar uma imagem visualmente deslumbrante e relevante para o post. Descreva o estilo, assunto, cores e composição."
         },
         captionOptions: {
-            type: Type.ARRAY,
+            type: 'ARRAY',
             description: "Uma lista de 3 opções de legenda criativas e distintas para o post.",
             items: structuredTextSchema
         }
@@ -88,11 +106,11 @@ const postSchemaWithImagePrompt = {
     required: ["imagePrompt", "captionOptions"]
 };
 
-const postSchemaTextOnly = {
-     type: Type.OBJECT,
+const postSchemaTextOnly: JsonSchema = {
+     type: 'OBJECT',
     properties: {
         captionOptions: {
-            type: Type.ARRAY,
+            type: 'ARRAY',
             description: "Uma lista de 3 opções de legenda criativas e distintas para o post, baseadas na imagem e no prompt.",
             items: structuredTextSchema
         }
@@ -101,41 +119,95 @@ const postSchemaTextOnly = {
 };
 
 // FIX: Add schemas for comic script generation
-const sceneSchema = {
-    type: Type.OBJECT,
+const sceneSchema: JsonSchema = {
+    type: 'OBJECT',
     properties: {
-        sceneNumber: { type: Type.INTEGER, description: "Número sequencial da cena, começando em 1." },
-        description: { type: Type.STRING, description: "Descrição visual detalhada da cena, incluindo personagens, cenário, ações e emoções. Deve ser um prompt claro para um modelo de geração de imagem." },
+        sceneNumber: { type: 'INTEGER', description: "Número sequencial da cena, começando em 1." },
+        description: { type: 'STRING', description: "Descrição visual detalhada da cena, incluindo personagens, cenário, ações e emoções. Deve ser um prompt claro para um modelo de geração de imagem." },
         dialogue: {
-            type: Type.ARRAY,
+            type: 'ARRAY',
             description: "Uma lista de diálogos curtos para a cena. Pode estar vazia se não houver fala.",
-            items: { type: Type.STRING }
+            items: { type: 'STRING' }
+        },
+        characters: {
+            type: 'ARRAY',
+            description: "Nomes (exatamente como no elenco) dos personagens que aparecem na cena.",
+            items: { type: 'STRING' }
         }
     },
-    required: ["sceneNumber", "description", "dialogue"]
+    required: ["sceneNumber", "description", "dialogue", "characters"]
 };
 
-const comicScriptSchema = {
-    type: Type.OBJECT,
+const characterSchema: JsonSchema = {
+    type: 'OBJECT',
     properties: {
-        title: { type: Type.STRING, description: "Um título criativo e curto para a história em quadrinhos." },
-        summary: { type: Type.STRING, description: "Um resumo conciso da história em uma frase." },
+        name: { type: 'STRING', description: "Nome curto do personagem." },
+        description: { type: 'STRING', description: "Aparência fixa do personagem para um gerador de imagens: idade, corpo, rosto, cabelo, roupas e cores marcantes. Sem ações nem emoções." }
+    },
+    required: ["name", "description"]
+};
+
+const comicScriptSchema: JsonSchema = {
+    type: 'OBJECT',
+    properties: {
+        title: { type: 'STRING', description: "Um título criativo e curto para a história em quadrinhos." },
+        summary: { type: 'STRING', description: "Um resumo conciso da história em uma frase." },
+        characters: {
+            type: 'ARRAY',
+            description: "O elenco de personagens recorrentes da história.",
+            items: characterSchema
+        },
         scenes: {
-            type: Type.ARRAY,
+            type: 'ARRAY',
             description: "Uma lista de 3 a 6 cenas que compõem a história.",
             items: sceneSchema
         }
     },
-    required: ["title", "summary", "scenes"]
+    required: ["title", "summary", "characters", "scenes"]
+};
+
+// Formato devolvido pelo modelo: o elenco ainda sem ids e as cenas citando os personagens pelo nome.
+interface SceneResponse {
+    sceneNumber: number;
+    description: string;
+    dialogue: string[];
+    characters?: string[];
+}
+
+interface ComicScriptResponse {
+    title: string;
+    summary: string;
+    characters?: { name: string; description: string }[];
+    scenes: SceneResponse[];
+}
+
+/** Troca os nomes de personagens citados pelo modelo pelos ids do elenco; nomes desconhecidos são ignorados. */
+const toScene = ({ characters: names, ...scene }: SceneResponse, cast: ComicCharacter[]): Scene => {
+    const findCharacterId = (name: string) =>
+        cast.find(character => character.name.trim().toLowerCase() === name.trim().toLowerCase())?.id;
+    return {
+        ...scene,
+        id: crypto.randomUUID(),
+        characterIds: (names ?? []).map(findCharacterId).filter((id): id is string => !!id),
+    };
+};
+
+const describeScene = (scene: Scene, cast: ComicCharacter[]): string => {
+    const names = cast.filter(character => scene.characterIds?.includes(character.id)).map(character => character.name);
+    const dialogue = scene.dialogue.length > 0 ? ` Diálogos: ${scene.dialogue.map(d => `"${d}"`).join(' / ')}.` : '';
+    const characters = names.length > 0 ? ` Personagens: ${names.join(', ')}.` : '';
+    return `Cena ${scene.sceneNumber}: ${scene.description}${dialogue}${characters}`;
 };
 
 export const generateInitialPosts = async (
     prompt: string, 
     postType: 'single' | 'carousel',
     uploadedImage: { base64: string; mimeType: string } | undefined,
-    includeCaption: boolean
+    includeCaption: boolean,
+    aspectRatio: AspectRatio = '1:1',
+    language: OutputLanguage = 'pt-BR',
+    signal?: AbortSignal
 ): Promise<Post[]> => {
-    const gemini = createAIInstance();
     const isCarousel = postType === 'carousel';
 
     if (!includeCaption) {
@@ -146,18 +218,16 @@ export const generateInitialPosts = async (
                 activeTextIndex: 0,
                 image: uploadedImage.base64,
                 imageMimeType: uploadedImage.mimeType,
+                aspectRatio,
+                language,
             }];
         } else {
             const count = isCarousel ? 5 : 1;
-            const generatedImages = [];
-            for (let i = 0; i < count; i++) {
-                // Adiciona um atraso entre as solicitações para evitar o limite de taxa
-                if (i > 0) {
-                    await new Promise(resolve => setTimeout(resolve, 2000)); // atraso de 2 segundos
-                }
-                const generatedImage = await generateImage(prompt);
-                generatedImages.push(generatedImage);
-            }
+            // O agendador controla o ritmo das chamadas, então todas podem ser enfileiradas de uma vez.
+            const generatedImages = await settleBatch(
+                Array.from({ length: count }, () => generateImage(prompt, aspectRatio, signal)),
+                signal
+            );
             
             return generatedImages.map(({ image, mimeType }) => ({
                 id: crypto.randomUUID(),
@@ -165,269 +235,257 @@ export const generateInitialPosts = async (
                 activeTextIndex: 0,
                 image: image,
                 imageMimeType: mimeType,
+                aspectRatio,
+                language,
             }));
         }
     }
 
     const countText = isCarousel ? "de 2 a 5" : "uma";
+    const captionLanguage = languageInstruction(language, 'todos os textos das legendas (tag, headline, cta, legenda, hashtags e texto alternativo)');
 
     if (uploadedImage) {
-        const generationPrompt = `Baseado na imagem fornecida e na solicitação do usuário, gere ${countText} ideias de posts para redes sociais. Para cada ideia, forneça 3 opções de legenda distintas no formato estruturado (tag, headline, cta). Solicitação do usuário: "${prompt || 'Crie um texto que combine com a imagem.'}"`;
-
-        // FIX: Add explicit type GenerateContentResponse to the response object.
-        const response: GenerateContentResponse = await withRetry(() => gemini.models.generateContent({
-            model: MODEL_TEXT,
-            contents: { 
-                parts: [
-                    { inlineData: { data: uploadedImage.base64, mimeType: uploadedImage.mimeType } },
-                    { text: generationPrompt }
-                ]
-            },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        posts: {
-                            type: Type.ARRAY,
-                            items: postSchemaTextOnly
-                        }
+        const generationPrompt = `Baseado na imagem fornecida e na solicitação do usuário, gere ${countText} ideias de posts para redes sociais. Para cada ideia, forneça 3 opções de legenda distintas no formato estruturado (tag, headline, cta, legenda completa, hashtags e texto alternativo da imagem). Solicitação do usuário: "${prompt || 'Crie um texto que combine com a imagem.'}".${captionLanguage}`;
+
+        const resultJson = await schedule('text', () => getAIProvider().generateJson<{ posts: { captionOptions: StructuredText[] }[] }>({
+            prompt: generationPrompt,
+            image: uploadedImage,
+            schema: {
+                type: 'OBJECT',
+                properties: {
+                    posts: {
+                        type: 'ARRAY',
+                        items: postSchemaTextOnly
                     }
                 }
             }
-        }));
-
-        const resultJson = JSON.parse(response.text);
+        }, signal), signal);
 
-        return resultJson.posts.map((postData: { captionOptions: StructuredText[] }) => ({
+        return resultJson.posts.map(postData => ({
             id: crypto.randomUUID(),
-            texts: postData.captionOptions,
+            texts: normalizeCaptionOptions(postData.captionOptions),
             activeTextIndex: 0,
             image: uploadedImage.base64,
             imageMimeType: uploadedImage.mimeType,
+            aspectRatio,
+            language,
         }));
 
     } else {
-        const generationPrompt = `Com base na seguinte solicitação do usuário, gere ${countText} ideias únicas de posts para redes sociais. Cada ideia deve incluir um prompt de imagem detalhado e 3 opções distintas de legenda no formato estruturado (tag, headline, cta). Solicitação do usuário: "${prompt}"`;
-
-        // FIX: Add explicit type GenerateContentResponse to the response object.
-        const response: GenerateContentResponse = await withRetry(() => gemini.models.generateContent({
-            model: MODEL_TEXT,
-            contents: generationPrompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        posts: {
-                            type: Type.ARRAY,
-                            items: postSchemaWithImagePrompt
-                        }
+        const generationPrompt = `Com base na seguinte solicitação do usuário, gere ${countText} ideias únicas de posts para redes sociais. Cada ideia deve incluir um prompt de imagem detalhado e 3 opções distintas de legenda no formato estruturado (tag, headline, cta, legenda completa, hashtags e texto alternativo da imagem). Solicitação do usuário: "${prompt}".${captionLanguage}`;
+
+        const resultJson = await schedule('text', () => getAIProvider().generateJson<{ posts: { imagePrompt: string; captionOptions: StructuredText[] }[] }>({
+            prompt: generationPrompt,
+            schema: {
+                type: 'OBJECT',
+                properties: {
+                    posts: {
+                        type: 'ARRAY',
+                        items: postSchemaWithImagePrompt
                     }
                 }
             }
-        }));
-
-        const resultJson = JSON.parse(response.text);
+        }, signal), signal);
         
-        const postsData = resultJson.posts as { imagePrompt: string; captionOptions: StructuredText[] }[];
-        const generatedPosts: Post[] = [];
+        const postsData = resultJson.posts;
 
-        for (const [index, postData] of postsData.entries()) {
-            // Adiciona um atraso entre as solicitações para evitar o limite de taxa
-            if (index > 0) {
-                await new Promise(resolve => setTimeout(resolve, 2000)); // atraso de 2 segundos
-            }
-            const { image, mimeType } = await generateImage(postData.imagePrompt);
-            generatedPosts.push({
+        return settleBatch(postsData.map(async (postData): Promise<Post> => {
+            const { image, mimeType } = await generateImage(postData.imagePrompt, aspectRatio, signal);
+            return {
                 id: crypto.randomUUID(),
-                texts: postData.captionOptions,
+                texts: normalizeCaptionOptions(postData.captionOptions),
                 activeTextIndex: 0,
                 image: image,
                 imageMimeType: mimeType,
-            });
-        }
-
-        return generatedPosts;
+                aspectRatio,
+                language,
+            };
+        }), signal);
     }
 };
 
-export const generateImage = async (prompt: string, aspectRatio: AspectRatio = '1:1'): Promise<{ image: string; mimeType: string; }> => {
-    const gemini = createAIInstance();
-    // A API Imagen suporta '1:1', '9:16', '16:9', '4:3', '3:4'. Mapeamos 4:5 para 3:4 como uma aproximação razoável.
-    const apiAspectRatio = aspectRatio === '4:5' ? '3:4' : aspectRatio;
-    
-    // FIX: Add explicit type GenerateImageResponse to the response object.
-    const response: GenerateImageResponse = await withRetry(() => gemini.models.generateImages({
-        model: MODEL_IMAGE_GENERATION,
-        prompt: prompt,
-        config: {
-            numberOfImages: 1,
-            outputMimeType: 'image/png',
-            aspectRatio: apiAspectRatio,
-        },
-    }));
+/**
+ * Cria a versão de um post em outro idioma: a mesma imagem, com todas as opções de legenda
+ * traduzidas (e adaptadas, no caso das hashtags). O novo post aponta para o original em `translationOf`.
+ */
+export const translatePost = async (post: Post, language: OutputLanguage, signal?: AbortSignal): Promise<Post> => {
+    if (post.texts.length === 0) {
+        return { ...post, id: crypto.randomUUID(), language, translationOf: post.id };
+    }
+    const prompt = `Traduza as opções de legenda de um post para redes sociais, mantendo a mesma ordem, o tom e o significado. Adapte expressões e hashtags para soarem naturais para o público do novo idioma; tag e cta continuam em maiúsculas.${languageInstruction(language, 'todos os textos')} Opções atuais (JSON): ${JSON.stringify(post.texts)}`;
 
-    const generatedImage = response.generatedImages?.[0];
+    const response = await schedule('text', () => getAIProvider().generateJson<{ captionOptions: StructuredText[] }>({
+        prompt,
+        schema: postSchemaTextOnly
+    }, signal), signal);
 
-    if (!generatedImage?.image?.imageBytes) {
-        console.error("Invalid response from Imagen API for image generation:", JSON.stringify(response, null, 2));
-        throw new Error("A IA não conseguiu gerar uma imagem para este comando. Tente ser mais descritivo ou alterar o seu pedido.");
-    }
-    
-    const image_response = generatedImage.image;
-    
     return {
-        image: image_response.imageBytes,
-        mimeType: image_response.mimeType || 'image/png'
+        ...post,
+        id: crypto.randomUUID(),
+        texts: normalizeCaptionOptions(response.captionOptions),
+        language,
+        translationOf: post.id,
     };
 };
 
-export const editImage = async (base64Image: string, mimeType: string, editPrompt: string): Promise<string> => {
-    const gemini = createAIInstance();
-    // FIX: Add explicit type GenerateContentResponse to the response object.
-    const response: GenerateContentResponse = await withRetry(() => gemini.models.generateContent({
-        model: MODEL_IMAGE_EDITING,
-        contents: {
-            parts: [
-                {
-                    inlineData: {
-                        data: base64Image,
-                        mimeType: mimeType,
-                    },
-                },
-                { text: editPrompt },
-            ],
-        },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    }));
+const TONE_INSTRUCTIONS: Record<CaptionTone, string> = {
+    formal: 'formal e profissional, sem gírias e com poucos ou nenhum emoji',
+    divertido: 'divertido e descontraído, com humor leve e emojis',
+    urgente: 'urgente, com senso de oportunidade (prazo, últimas vagas, só hoje) e verbos no imperativo',
+    inspirador: 'inspirador e motivacional, que desperte emoção e vontade de agir',
+};
 
-    const firstCandidate = response.candidates?.[0];
-    
-    // Check for safety blocks first
-    const blockReason = response.promptFeedback?.blockReason;
-    if (blockReason) {
-        throw new Error(`A edição da imagem foi bloqueada por motivos de segurança: ${blockReason}. Por favor, tente um prompt diferente.`);
-    }
+const HEADLINE_LENGTH_INSTRUCTIONS: Record<HeadlineLength, string> = {
+    short: 'curto, com no máximo 5 palavras',
+    medium: 'de 6 a 10 palavras',
+    long: 'de 11 a 15 palavras',
+};
 
-    if (!firstCandidate) {
-        console.error("Invalid response from Gemini API for image editing:", JSON.stringify(response, null, 2));
-        throw new Error("A edição da imagem falhou: A API retornou uma resposta vazia ou inválida.");
-    }
+/**
+ * Pede ao modelo 3 novas opções de legenda para um post existente, olhando a imagem atual.
+ * As opções atuais vão no prompt para que as novas não as repitam.
+ */
+export const regenerateCaptions = async (post: Post, options: CaptionRegenerationOptions, signal?: AbortSignal): Promise<StructuredText[]> => {
+    const instruction = options.instruction.trim() ? ` Instrução adicional do usuário: "${options.instruction.trim()}".` : '';
+    const previous = post.texts.length > 0
+        ? ` Não repita as opções que o post já tem (JSON): ${JSON.stringify(post.texts.map(({ tag, headline, cta }) => ({ tag, headline, cta })))}`
+        : '';
+    const prompt = `Com base na imagem fornecida, gere 3 novas opções de legenda distintas para este post de redes sociais, no formato estruturado (tag, headline, cta, legenda completa, hashtags e texto alternativo da imagem). Tom: ${TONE_INSTRUCTIONS[options.tone]}. O título (headline) deve ser ${HEADLINE_LENGTH_INSTRUCTIONS[options.headlineLength]}.${instruction}${languageInstruction(post.language ?? 'pt-BR', 'todos os textos')}${previous}`;
+
+    const response = await schedule('text', () => getAIProvider().generateJson<{ captionOptions: StructuredText[] }>({
+        prompt,
+        image: { base64: post.image, mimeType: post.imageMimeType },
+        schema: postSchemaTextOnly
+    }, signal), signal);
+
+    return normalizeCaptionOptions(response.captionOptions);
+};
 
-    // Check for specific finish reasons that indicate failure
-    if (firstCandidate.finishReason === 'NO_IMAGE') {
-         throw new Error("A IA não conseguiu editar a imagem com este comando. Tente ser mais claro ou alterar o seu pedido.");
-    }
+export const generateImage = async (prompt: string, aspectRatio: AspectRatio = '1:1', signal?: AbortSignal): Promise<{ image: string; mimeType: string; }> => {
+    return schedule('image', () => getAIProvider().generateImage(prompt, aspectRatio, signal), signal);
+};
 
-    // Now, try to find the image data
-    const imagePart = firstCandidate.content?.parts?.find(part => part.inlineData);
+export const editImage = async (base64Image: string, mimeType: string, editPrompt: string, signal?: AbortSignal): Promise<string> => {
+    return schedule('edit', () => getAIProvider().editImage({ base64: base64Image, mimeType }, editPrompt, signal), signal);
+};
 
-    if (imagePart?.inlineData) {
-        return imagePart.inlineData.data;
-    }
-    
-    // If we get here, something else went wrong.
-    console.error("No image data found in edited response parts:", JSON.stringify(response, null, 2));
-    throw new Error("A edição da imagem falhou ou não retornou dados.");
+/**
+ * Edita só a área pintada pelo usuário. O modelo recebe a imagem e a máscara, mas pode alterar
+ * o resto mesmo assim; por isso o resultado é recortado pela máscara e composto sobre o original.
+ * Retorna um PNG em base64 com o tamanho do original.
+ */
+export const editImageRegion = async (base64Image: string, mimeType: string, editPrompt: string, maskBase64: string, signal?: AbortSignal): Promise<string> => {
+    const modelMask = await createModelMask(maskBase64);
+    const prompt = `A primeira imagem é a original e a segunda é uma máscara em preto e branco do mesmo tamanho. Aplique a edição a seguir somente na área branca da máscara, mantendo todo o resto da imagem idêntico, com o mesmo enquadramento e tamanho. Edição: ${editPrompt}`;
+    const edited = await schedule('edit', () => getAIProvider().editImageRegion(
+        { base64: base64Image, mimeType },
+        { base64: modelMask, mimeType: 'image/png' },
+        prompt,
+        signal
+    ), signal);
+    return compositeMaskedEdit({ base64: base64Image, mimeType }, edited, maskBase64);
 };
 
 // FIX: Implement and export generateComicScript to be used in ComicCreator
-export const generateComicScript = async (storyIdea: string): Promise<ComicScript> => {
-    const gemini = createAIInstance();
-    const prompt = `Crie um roteiro de história em quadrinhos curto (3 a 6 quadros) com base na seguinte ideia. O roteiro deve ter um título, um resumo de uma frase e uma série de cenas. Cada cena deve ter um número, uma descrição visual detalhada para um gerador de imagens e uma lista de diálogos (que pode ser vazia). Ideia: "${storyIdea}"`;
-
-    const response: GenerateContentResponse = await withRetry(() => gemini.models.generateContent({
-        model: MODEL_TEXT,
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: comicScriptSchema
-        }
+export const generateComicScript = async (storyIdea: string, language: OutputLanguage = 'pt-BR', signal?: AbortSignal): Promise<ComicScript> => {
+    const prompt = `Crie um roteiro de história em quadrinhos curto (3 a 6 quadros) com base na seguinte ideia. O roteiro deve ter um título, um resumo de uma frase, o elenco de personagens (nome e aparência fixa) e uma série de cenas. Cada cena deve ter um número, uma descrição visual detalhada para um gerador de imagens, uma lista de diálogos (que pode ser vazia) e os nomes dos personagens do elenco que aparecem nela. Os diálogos serão aplicados em balões sobre a arte, então não descreva texto ou balões na descrição visual.${languageInstruction(language, 'o título, o resumo, os nomes e os diálogos')} Ideia: "${storyIdea}"`;
+
+    const response = await schedule('text', () => getAIProvider().generateJson<ComicScriptResponse>({
+        prompt,
+        schema: comicScriptSchema
+    }, signal), signal);
+
+    const characters: ComicCharacter[] = (response.characters ?? []).map(character => ({
+        id: crypto.randomUUID(),
+        name: character.name,
+        description: character.description,
     }));
-    
-    return JSON.parse(response.text);
+
+    return {
+        title: response.title,
+        summary: response.summary,
+        characters,
+        scenes: response.scenes.map(scene => toScene(scene, characters)),
+        language,
+    };
+};
+
+/**
+ * Reescreve uma única cena seguindo a instrução do usuário; o restante do roteiro serve apenas de contexto.
+ * A cena reescrita mantém o id e o número da original.
+ */
+export const rewriteComicScene = async (script: ComicScript, target: Scene, instruction: string, signal?: AbortSignal): Promise<Scene> => {
+    const cast = script.characters ?? [];
+    const castText = cast.length > 0
+        ? ` Elenco (use apenas estes nomes): ${cast.map(character => `${character.name}: ${character.description}`).join('; ')}.`
+        : '';
+    const prompt = `Você está revisando o roteiro de uma história em quadrinhos chamada "${script.title}" (${script.summary}).${castText} Roteiro atual:
+${script.scenes.map(scene => describeScene(scene, cast)).join('\n')}
+
+Reescreva somente a cena ${target.sceneNumber}, mantendo a coerência com as cenas anteriores e seguintes. Instrução do usuário: "${instruction || 'Melhore a cena.'}". Não descreva texto ou balões na descrição visual.${languageInstruction(script.language ?? 'pt-BR', 'os diálogos')}`;
+
+    const response = await schedule('text', () => getAIProvider().generateJson<SceneResponse>({
+        prompt,
+        schema: sceneSchema
+    }, signal), signal);
+
+    return { ...toScene(response, cast), id: target.id, sceneNumber: target.sceneNumber };
+};
+
+/** Gera uma imagem de referência do personagem, usada depois para manter a aparência entre os quadros. */
+export const generateComicCharacterReference = async (character: ComicCharacter, artStyle: string, signal?: AbortSignal): Promise<{ image: string; mimeType: string; }> => {
+    const prompt = `Folha de referência de personagem de história em quadrinhos. Estilo de arte: ${artStyle}. Personagem: ${character.name}, ${character.description}. Corpo inteiro, de frente, pose neutra, fundo liso e claro, sem nenhum texto.`;
+
+    return generateImage(prompt, '1:1', signal);
 };
 
 // FIX: Implement and export generateHqPanel to be used in ComicCreator
-export const generateHqPanel = async (description: string, dialogue: string[], artStyle: string): Promise<{ image: string; mimeType: string; }> => {
-    const dialogueText = dialogue.length > 0 ? ` Diálogos no quadro: ${dialogue.map(d => `"${d}"`).join(', ')}.` : '';
-    const prompt = `Crie uma imagem para um quadro de história em quadrinhos. Estilo de arte: ${artStyle}. Descrição da cena: ${description}.${dialogueText} A imagem deve ser vibrante e clara.`;
-    
-    return generateImage(prompt, '1:1');
+// Os diálogos não vão para o prompt: o modelo de imagem desenha letras ilegíveis, então os balões
+// são aplicados pelo próprio app (veja `utils/comicBalloons`).
+// Cada quadro é gerado isoladamente; a aparência dos personagens se mantém repetindo as descrições
+// do elenco e, quando há imagens de referência, gerando o quadro a partir delas.
+export const generateHqPanel = async (
+    description: string,
+    artStyle: string,
+    characters: ComicCharacter[] = [],
+    instruction = '',
+    signal?: AbortSignal
+): Promise<{ image: string; mimeType: string; }> => {
+    const instructionText = instruction.trim() ? ` Instrução adicional: ${instruction.trim()}.` : '';
+    const castText = characters.length > 0
+        ? ` Personagens no quadro (mantenha exatamente esta aparência): ${characters.map(character => `${character.name}: ${character.description}`).join('; ')}.`
+        : '';
+    const prompt = `Crie uma imagem para um quadro de história em quadrinhos. Estilo de arte: ${artStyle}. Descrição da cena: ${description}.${castText}${instructionText} A imagem não deve conter nenhum texto, letra, balão de fala ou legenda; deixe um espaço livre na parte superior para os balões. A imagem deve ser vibrante e clara.`;
+
+    const referenced = characters.filter(character => character.referenceImage);
+    if (referenced.length === 0) {
+        return generateImage(prompt, '1:1', signal);
+    }
+
+    const referencePrompt = `${prompt} As imagens anexadas são referências de aparência dos personagens, nesta ordem: ${referenced.map((character, index) => `imagem ${index + 1} = ${character.name}`).join(', ')}. Mantenha rosto, cabelo, roupas e cores iguais às referências, mas crie uma cena nova.`;
+    const references = referenced.map(character => character.referenceImage!);
+    return schedule('edit', () => getAIProvider().generateImageFromReferences(references, referencePrompt, '1:1', signal), signal);
 };
 
-// FIX: Implement and export generateVideo to be used in VideoCreator
-export const generateVideo = async (
+// A geração de vídeo é uma operação longa: o início passa pelo agendador (é o que consome a cota),
+// e a consulta e o download são feitos pelo gerenciador de vídeos em `videoJobs`.
+export const startVideoGeneration = async (
     prompt: string,
     image: { base64: string, mimeType: string } | null,
     aspectRatio: '16:9' | '9:16',
     resolution: '720p' | '1080p',
-    onProgress: (message: string) => void
-): Promise<Blob> => {
-    const gemini = createAIInstance();
-
-    onProgress("Iniciando a geração do vídeo...");
-
-    const requestPayload: any = {
-        model: MODEL_VIDEO_GENERATION,
-        prompt: prompt,
-        config: {
-            numberOfVideos: 1,
-            aspectRatio: aspectRatio,
-            resolution: resolution
-        }
-    };
-
-    if (image) {
-        requestPayload.image = {
-            imageBytes: image.base64,
-            mimeType: image.mimeType,
-        };
-        if (!prompt) delete requestPayload.prompt;
-    } else if (!prompt) {
-        throw new Error("Um prompt é necessário se nenhuma imagem for fornecida.");
-    }
-    
-    // FIX: Add VideosOperation type to fix 'done' and 'response' property errors.
-    let operation: VideosOperation = await withRetry(() => gemini.models.generateVideos(requestPayload));
-    
-    onProgress("Operação iniciada. O vídeo está sendo processado...");
-
-    while (!operation.done) {
-        onProgress("Aguardando o processamento do vídeo... Isso pode levar alguns minutos.");
-        await new Promise(resolve => setTimeout(resolve, 10000));
-        try {
-            operation = await gemini.operations.getVideosOperation({ operation: operation });
-        } catch (e) {
-             console.error("Erro ao obter o status da operação, tentando novamente...", e);
-        }
-    }
-    
-    onProgress("Processamento concluído. Baixando o vídeo...");
-
-    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-
-    if (!downloadLink) {
-        console.error("Falha na geração do vídeo. Nenhuma URL de download retornada.", operation);
-        throw new Error("A geração do vídeo falhou ou não retornou um link para download.");
-    }
+    signal?: AbortSignal
+): Promise<VideoOperation> => {
+    return schedule('video', () => getAIProvider().startVideo({ prompt, image, aspectRatio, resolution }, signal), signal);
+};
 
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) {
-         throw new Error("A chave de API não foi encontrada para baixar o vídeo.");
-    }
-    
-    const videoResponse = await fetch(`${downloadLink}&key=${apiKey}`);
+export const getVideoOperation = async (operationName: string, signal?: AbortSignal): Promise<VideoOperation> => {
+    return getAIProvider().getVideoOperation(operationName, signal);
+};
 
-    if (!videoResponse.ok) {
-        const errorBody = await videoResponse.text();
-        console.error("Download do vídeo falhou:", errorBody);
-        throw new Error(`Falha ao baixar o vídeo. Status: ${videoResponse.status}`);
-    }
+export const downloadVideo = async (videoUri: string, signal?: AbortSignal): Promise<Blob> => {
+    return getAIProvider().downloadVideo(videoUri, signal);
+};
 
-    onProgress("Download concluído!");
-    return await videoResponse.blob();
-};
\ No newline at end of file
+/** Indica se o app está rodando com o fornecedor local de demonstração, que não precisa de chave de API. */
+export const isUsingMockProvider = (): boolean => getAIProvider().name === 'mock';
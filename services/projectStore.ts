@@ -0,0 +1,156 @@
+import type { OutboxEntry, Project, ProjectDataByKind, ProjectKind, ScheduledPost } from '../types';
+import { getMessages } from '../utils/i18n';
+
+const DB_NAME = 'genio-post';
+const DB_VERSION = 2;
+const PROJECTS_STORE = 'projects';
+const SCHEDULE_STORE = 'scheduled-posts';
+const OUTBOX_STORE = 'outbox';
+
+type StoreName = typeof PROJECTS_STORE | typeof SCHEDULE_STORE | typeof OUTBOX_STORE;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            let blocked = false;
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+                    const store = db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+                    store.createIndex('updatedAt', 'updatedAt');
+                }
+                // Versão 2: calendário de publicações e a caixa de saída do publicador local.
+                if (!db.objectStoreNames.contains(SCHEDULE_STORE)) {
+                    db.createObjectStore(SCHEDULE_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+                    db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+                }
+            };
+            // Outra aba com a versão antiga aberta impede a atualização; sem isto a promessa nunca terminaria.
+            request.onblocked = () => {
+                blocked = true;
+                dbPromise = null;
+                reject(new Error(getMessages().projects.databaseBlocked));
+            };
+            request.onsuccess = () => {
+                const db = request.result;
+                if (blocked) {
+                    // A atualização terminou depois que desistimos; a próxima chamada abre de novo.
+                    db.close();
+                    return;
+                }
+                // Libera a conexão quando outra aba precisa atualizar o banco; a próxima chamada reabre.
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                };
+                resolve(db);
+            };
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const runRequest = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>,
+    storeName: StoreName = PROJECTS_STORE
+): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = operation(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+/** Lista todos os projetos salvos, do mais recente para o mais antigo. */
+export const listProjects = async (): Promise<Project[]> => {
+    const projects = await runRequest<Project[]>('readonly', store => store.getAll());
+    return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<Project | undefined> => {
+    return runRequest<Project | undefined>('readonly', store => store.get(id));
+};
+
+/**
+ * Salva os dados de trabalho de um projeto. Se o projeto ainda não existir, ele é criado com
+ * `defaultName`; caso contrário apenas os dados e a data de atualização mudam, preservando
+ * um nome que o usuário tenha alterado na lista de projetos.
+ */
+export const saveProjectData = async <K extends ProjectKind>(
+    id: string,
+    kind: K,
+    defaultName: string,
+    data: ProjectDataByKind[K]
+): Promise<void> => {
+    const existing = await getProject(id);
+    const now = Date.now();
+    const project = {
+        id,
+        kind,
+        name: existing?.name ?? defaultName,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        data,
+    } as Project<K>;
+    await runRequest('readwrite', store => store.put(project));
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+    const project = await getProject(id);
+    if (!project) throw new Error(getMessages().projects.notFound);
+    await runRequest('readwrite', store => store.put({ ...project, name, updatedAt: Date.now() }));
+};
+
+export const duplicateProject = async (id: string): Promise<Project> => {
+    const project = await getProject(id);
+    if (!project) throw new Error(getMessages().projects.notFound);
+    const now = Date.now();
+    const copy = { ...project, id: crypto.randomUUID(), name: getMessages().projects.copyName(project.name), createdAt: now, updatedAt: now };
+    await runRequest('readwrite', store => store.put(copy));
+    return copy;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+    await runRequest('readwrite', store => store.delete(id));
+};
+
+/** Itens do calendário, em ordem de data de publicação. */
+export const listScheduledPosts = async (): Promise<ScheduledPost[]> => {
+    const items = await runRequest<ScheduledPost[]>('readonly', store => store.getAll(), SCHEDULE_STORE);
+    return items.sort((a, b) => a.scheduledAt - b.scheduledAt);
+};
+
+export const saveScheduledPost = async (item: ScheduledPost): Promise<void> => {
+    await runRequest('readwrite', store => store.put(item), SCHEDULE_STORE);
+};
+
+export const deleteScheduledPost = async (id: string): Promise<void> => {
+    await runRequest('readwrite', store => store.delete(id), SCHEDULE_STORE);
+};
+
+/** Publicações gravadas na caixa de saída, da mais recente para a mais antiga. */
+export const listOutboxEntries = async (): Promise<OutboxEntry[]> => {
+    const entries = await runRequest<OutboxEntry[]>('readonly', store => store.getAll(), OUTBOX_STORE);
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveOutboxEntry = async (entry: OutboxEntry): Promise<void> => {
+    await runRequest('readwrite', store => store.put(entry), OUTBOX_STORE);
+};
+
+export const deleteOutboxEntry = async (id: string): Promise<void> => {
+    await runRequest('readwrite', store => store.delete(id), OUTBOX_STORE);
+};
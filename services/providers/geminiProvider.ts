@@ -0,0 +1,249 @@
+import { GoogleGenAI, Modality, GenerateContentResponse, GenerateImagesResponse, GenerateVideosOperation, GenerateVideosParameters, Schema } from "@google/genai";
+import type { AIProvider, GeneratedImage, InlineImage, JsonRequest, VideoOperation, VideoRequest } from './types';
+import type { AspectRatio } from '../../types';
+import type { RateLimit, RequestKind } from '../requestScheduler';
+import { getMessages } from '../../utils/i18n';
+
+const MODEL_TEXT = 'gemini-2.5-pro';
+const MODEL_IMAGE_GENERATION = 'imagen-4.0-generate-001';
+const MODEL_IMAGE_EDITING = 'gemini-2.5-flash-image';
+const MODEL_VIDEO_GENERATION = 'veo-3.1-fast-generate-preview';
+
+// Limites conservadores por modelo; ajuste conforme a cota do seu projeto no Google AI Studio.
+const RATE_LIMITS: Record<RequestKind, RateLimit> = {
+    text: { maxConcurrent: 2, requestsPerMinute: 10 }, // MODEL_TEXT
+    image: { maxConcurrent: 2, requestsPerMinute: 10 }, // MODEL_IMAGE_GENERATION
+    edit: { maxConcurrent: 2, requestsPerMinute: 10 }, // MODEL_IMAGE_EDITING
+    video: { maxConcurrent: 1, requestsPerMinute: 2 }, // MODEL_VIDEO_GENERATION
+};
+
+function createAIInstance() {
+    if (!process.env.API_KEY) {
+        throw new Error("API_KEY environment variable is not set.");
+    }
+    return new GoogleGenAI({ apiKey: process.env.API_KEY });
+}
+
+const generateJson = async <T>({ prompt, schema, image }: JsonRequest, signal?: AbortSignal): Promise<T> => {
+    const gemini = createAIInstance();
+    const response: GenerateContentResponse = await gemini.models.generateContent({
+        model: MODEL_TEXT,
+        contents: image
+            ? { parts: [{ inlineData: { data: image.base64, mimeType: image.mimeType } }, { text: prompt }] }
+            : prompt,
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: schema as unknown as Schema,
+            abortSignal: signal,
+        }
+    });
+    return JSON.parse(response.text ?? '');
+};
+
+const generateImage = async (prompt: string, aspectRatio: AspectRatio, signal?: AbortSignal): Promise<GeneratedImage> => {
+    const gemini = createAIInstance();
+    // A API Imagen suporta '1:1', '9:16', '16:9', '4:3', '3:4'. Mapeamos 4:5 e 2:3 para 3:4 como uma aproximação razoável.
+    const apiAspectRatio = aspectRatio === '4:5' || aspectRatio === '2:3' ? '3:4' : aspectRatio;
+
+    const response: GenerateImagesResponse = await gemini.models.generateImages({
+        model: MODEL_IMAGE_GENERATION,
+        prompt: prompt,
+        config: {
+            numberOfImages: 1,
+            outputMimeType: 'image/png',
+            aspectRatio: apiAspectRatio,
+            abortSignal: signal,
+        },
+    });
+
+    const generatedImage = response.generatedImages?.[0];
+
+    if (!generatedImage?.image?.imageBytes) {
+        console.error("Invalid response from Imagen API for image generation:", JSON.stringify(response, null, 2));
+        throw new Error(getMessages().errors.imageGenerationFailed);
+    }
+
+    const image_response = generatedImage.image;
+
+    return {
+        image: image_response.imageBytes!,
+        mimeType: image_response.mimeType || 'image/png'
+    };
+};
+
+const toInlineDataPart = (image: InlineImage) => ({ inlineData: { data: image.base64, mimeType: image.mimeType } });
+
+/** Envia as imagens e o comando ao modelo de edição e devolve a imagem resultante em base64. */
+const requestImageEdit = async (images: InlineImage[], editPrompt: string, signal?: AbortSignal): Promise<string> => {
+    const gemini = createAIInstance();
+    const response: GenerateContentResponse = await gemini.models.generateContent({
+        model: MODEL_IMAGE_EDITING,
+        contents: {
+            parts: [...images.map(toInlineDataPart), { text: editPrompt }],
+        },
+        config: {
+            responseModalities: [Modality.IMAGE],
+            abortSignal: signal,
+        },
+    });
+
+    const firstCandidate = response.candidates?.[0];
+
+    // Check for safety blocks first
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        throw new Error(getMessages().errors.editBlocked(blockReason));
+    }
+
+    if (!firstCandidate) {
+        console.error("Invalid response from Gemini API for image editing:", JSON.stringify(response, null, 2));
+        throw new Error(getMessages().errors.editEmptyResponse);
+    }
+
+    // Check for specific finish reasons that indicate failure
+    if (firstCandidate.finishReason === 'NO_IMAGE') {
+         throw new Error(getMessages().errors.editNoImage);
+    }
+
+    // Now, try to find the image data
+    const imagePart = firstCandidate.content?.parts?.find(part => part.inlineData);
+
+    if (imagePart?.inlineData?.data) {
+        return imagePart.inlineData.data;
+    }
+
+    // If we get here, something else went wrong.
+    console.error("No image data found in edited response parts:", JSON.stringify(response, null, 2));
+    throw new Error(getMessages().errors.editFailed);
+};
+
+const editImage = async (image: InlineImage, editPrompt: string, signal?: AbortSignal): Promise<string> =>
+    requestImageEdit([image], editPrompt, signal);
+
+const editImageRegion = async (image: InlineImage, mask: InlineImage, editPrompt: string, signal?: AbortSignal): Promise<string> =>
+    requestImageEdit([image, mask], editPrompt, signal);
+
+const generateImageFromReferences = async (
+    references: InlineImage[],
+    prompt: string,
+    aspectRatio: AspectRatio,
+    signal?: AbortSignal
+): Promise<GeneratedImage> => {
+    const gemini = createAIInstance();
+    const response: GenerateContentResponse = await gemini.models.generateContent({
+        model: MODEL_IMAGE_EDITING,
+        contents: {
+            parts: [
+                ...references.map(toInlineDataPart),
+                { text: prompt },
+            ],
+        },
+        config: {
+            responseModalities: [Modality.IMAGE],
+            imageConfig: { aspectRatio },
+            abortSignal: signal,
+        },
+    });
+
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        throw new Error(getMessages().errors.generationBlocked(blockReason));
+    }
+
+    const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+    if (!imagePart?.inlineData?.data) {
+        console.error("No image data found in reference-based generation response:", JSON.stringify(response, null, 2));
+        throw new Error(getMessages().errors.referencesFailed);
+    }
+
+    return {
+        image: imagePart.inlineData.data,
+        mimeType: imagePart.inlineData.mimeType || 'image/png',
+    };
+};
+
+const toVideoOperation = (operation: GenerateVideosOperation): VideoOperation => {
+    const result: VideoOperation = { name: operation.name ?? '', done: !!operation.done };
+    if (!operation.done) return result;
+
+    const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
+    if (videoUri) {
+        result.videoUri = videoUri;
+    } else if (operation.error) {
+        result.error = getMessages().errors.videoFailed(String(operation.error.message ?? JSON.stringify(operation.error)));
+    } else if (operation.response?.raiMediaFilteredReasons?.length) {
+        result.error = getMessages().errors.videoFiltered(operation.response.raiMediaFilteredReasons.join(' '));
+    } else {
+        console.error("Falha na geração do vídeo. Nenhuma URL de download retornada.", operation);
+        result.error = getMessages().errors.videoNoLink;
+    }
+    return result;
+};
+
+const startVideo = async (
+    { prompt, image, aspectRatio, resolution }: VideoRequest,
+    signal?: AbortSignal
+): Promise<VideoOperation> => {
+    const gemini = createAIInstance();
+
+    const requestPayload: GenerateVideosParameters = {
+        model: MODEL_VIDEO_GENERATION,
+        prompt: prompt,
+        config: {
+            numberOfVideos: 1,
+            aspectRatio: aspectRatio,
+            resolution: resolution,
+            abortSignal: signal,
+        }
+    };
+
+    if (image) {
+        requestPayload.image = {
+            imageBytes: image.base64,
+            mimeType: image.mimeType,
+        };
+        if (!prompt) delete requestPayload.prompt;
+    } else if (!prompt) {
+        throw new Error(getMessages().errors.videoPromptRequired);
+    }
+
+    return toVideoOperation(await gemini.models.generateVideos(requestPayload));
+};
+
+const getVideoOperation = async (name: string, signal?: AbortSignal): Promise<VideoOperation> => {
+    const gemini = createAIInstance();
+    // Só o nome é necessário para consultar a operação, o que permite retomá-la depois de recarregar a página.
+    const operation = new GenerateVideosOperation();
+    operation.name = name;
+    return toVideoOperation(await gemini.operations.getVideosOperation({ operation, config: { abortSignal: signal } }));
+};
+
+const downloadVideo = async (uri: string, signal?: AbortSignal): Promise<Blob> => {
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+         throw new Error(getMessages().errors.videoKeyMissing);
+    }
+
+    const videoResponse = await fetch(`${uri}&key=${apiKey}`, { signal });
+
+    if (!videoResponse.ok) {
+        const errorBody = await videoResponse.text();
+        console.error("Download do vídeo falhou:", errorBody);
+        throw new Error(getMessages().errors.videoDownloadFailed(videoResponse.status));
+    }
+
+    return await videoResponse.blob();
+};
+
+export const createGeminiProvider = (): AIProvider => ({
+    name: 'gemini',
+    rateLimits: RATE_LIMITS,
+    generateJson,
+    generateImage,
+    editImage,
+    editImageRegion,
+    generateImageFromReferences,
+    startVideo,
+    getVideoOperation,
+    downloadVideo,
+});
@@ -0,0 +1,33 @@
+import type { AIProvider, AIProviderName } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+
+export type { AIProvider, AIProviderName, GeneratedImage, InlineImage, JsonSchema, VideoOperation, VideoRequest } from './types';
+
+const PROVIDER_FACTORIES: Record<AIProviderName, () => AIProvider> = {
+    gemini: createGeminiProvider,
+    mock: createMockProvider,
+};
+
+let activeProvider: AIProvider | null = null;
+
+/**
+ * Retorna o fornecedor de IA configurado pela variável de ambiente `AI_PROVIDER`
+ * ('gemini' por padrão, ou 'mock' para trabalhar offline).
+ */
+export const getAIProvider = (): AIProvider => {
+    if (!activeProvider) {
+        const name = (process.env.AI_PROVIDER || 'gemini') as AIProviderName;
+        const factory = PROVIDER_FACTORIES[name];
+        if (!factory) {
+            throw new Error(`Fornecedor de IA desconhecido: "${name}". Use 'gemini' ou 'mock'.`);
+        }
+        activeProvider = factory();
+    }
+    return activeProvider;
+};
+
+/** Permite trocar o fornecedor em tempo de execução, por exemplo em testes. */
+export const setAIProvider = (provider: AIProvider) => {
+    activeProvider = provider;
+};
@@ -0,0 +1,239 @@
+import type { AIProvider, GeneratedImage, InlineImage, JsonRequest, JsonSchema, VideoOperation, VideoRequest } from './types';
+import type { AspectRatio } from '../../types';
+import type { RateLimit, RequestKind } from '../requestScheduler';
+import { abortableDelay } from '../../utils/abort';
+import { getMessages } from '../../utils/i18n';
+
+// Fornecedor local e determinístico: o mesmo prompt sempre gera a mesma resposta.
+// Serve para desenvolver a interface, fazer demonstrações e testar sem chave de API ou rede.
+
+const SIMULATED_LATENCY_MS = 400;
+const MOCK_VIDEO_DURATION_MS = 2000;
+const MOCK_VIDEO_PROCESSING_MS = 15000;
+const MOCK_OPERATION_PREFIX = 'mock-operations/';
+const MOCK_VIDEO_URI_PREFIX = 'mock-video://';
+
+const RATE_LIMITS: Record<RequestKind, RateLimit> = {
+    text: { maxConcurrent: 4, requestsPerMinute: 600 },
+    image: { maxConcurrent: 4, requestsPerMinute: 600 },
+    edit: { maxConcurrent: 4, requestsPerMinute: 600 },
+    video: { maxConcurrent: 1, requestsPerMinute: 60 },
+};
+
+const IMAGE_SIZES: Record<AspectRatio, { width: number; height: number }> = {
+    '1:1': { width: 1024, height: 1024 },
+    '4:5': { width: 1024, height: 1280 },
+    '9:16': { width: 720, height: 1280 },
+    '16:9': { width: 1280, height: 720 },
+    '2:3': { width: 1024, height: 1536 },
+};
+
+const CANNED_STRINGS: Record<string, string[]> = {
+    tag: ['DICA RÁPIDA', 'NOVIDADE', 'MARKETING DIGITAL'],
+    headline: [
+        'Cinco ideias simples para transformar a sua rotina',
+        'O segredo que ninguém conta sobre bons resultados',
+        'Comece hoje: o primeiro passo é o mais importante',
+    ],
+    cta: ['SAIBA MAIS', 'SEGUE O FIO >>>', 'COMENTE AQUI'],
+    body: [
+        'Pequenas mudanças fazem uma grande diferença. ✨\n\nSeparamos ideias práticas para você colocar em ação ainda hoje, sem complicação.\n\nSalve este post para consultar depois e conte nos comentários qual vai testar primeiro!',
+        'Sabe aquele resultado que parece distante? Ele começa com uma decisão simples.\n\nNeste post mostramos o caminho, passo a passo.\n\nCompartilhe com quem precisa ler isso hoje. 💬',
+    ],
+    hashtags: ['#dicas', '#marketingdigital', '#produtividade', '#empreendedorismo', '#conteudo'],
+    altText: [
+        'Composição colorida com formas geométricas e espaço livre para texto em primeiro plano.',
+        'Mesa de trabalho organizada com caderno, café e plantas sob luz natural.',
+    ],
+    imagePrompt: ['Composição minimalista com cores vibrantes, luz suave e espaço livre para texto.'],
+    title: ['O Robô do Quintal', 'A Grande Descoberta', 'Amigos Improváveis'],
+    summary: ['Um encontro inesperado vira o começo de uma grande amizade.'],
+    description: [
+        'Um menino encontra um pequeno robô enferrujado entre as plantas do quintal, ao entardecer.',
+        'O menino limpa o robô com um pano; os olhos da máquina acendem em azul.',
+        'Os dois brincam juntos no jardim enquanto o sol se põe atrás das árvores.',
+    ],
+    dialogue: ['Olá! Quem é você?', 'Bip... bop... amigo?', 'Vamos brincar!'],
+    // Nomes do elenco e as marcações de personagens nas cenas usam a mesma lista, para que se correspondam.
+    name: ['Léo', 'Bip', 'Dona Rosa'],
+    characters: ['Léo', 'Bip', 'Dona Rosa'],
+};
+
+const hashString = (value: string): number => {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash);
+};
+
+const buildFromSchema = (schema: JsonSchema, key: string, index: number, seed: number): unknown => {
+    switch (schema.type) {
+        case 'OBJECT':
+            return Object.fromEntries(
+                Object.entries(schema.properties ?? {}).map(([propKey, propSchema]) => [propKey, buildFromSchema(propSchema, propKey, index, seed)])
+            );
+        case 'ARRAY':
+            return Array.from({ length: 3 }, (_, i) => buildFromSchema(schema.items ?? { type: 'STRING' }, key, i, seed));
+        case 'STRING': {
+            const options = schema.enum ?? CANNED_STRINGS[key];
+            return options ? options[(seed + index) % options.length] : `Texto de exemplo ${index + 1}`;
+        }
+        case 'INTEGER':
+        case 'NUMBER':
+            return index + 1;
+        case 'BOOLEAN':
+            return index % 2 === 0;
+    }
+};
+
+const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context');
+    }
+    return { canvas, ctx };
+};
+
+const drawLabel = (ctx: CanvasRenderingContext2D, label: string, width: number, height: number) => {
+    const fontSize = Math.round(width / 24);
+    ctx.font = `600 ${fontSize}px sans-serif`;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const text = label.length > 60 ? `${label.slice(0, 57)}...` : label;
+    ctx.fillText(text, width / 2, height / 2);
+};
+
+const drawPlaceholder = (ctx: CanvasRenderingContext2D, prompt: string, width: number, height: number, frame = 0) => {
+    const hue = hashString(prompt) % 360;
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${(hue + frame) % 360}, 70%, 55%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 60 + frame) % 360}, 70%, 30%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+    drawLabel(ctx, `MOCK · ${prompt}`, width, height);
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = reject;
+    image.src = src;
+});
+
+const generateJson = async <T>({ prompt, schema }: JsonRequest, signal?: AbortSignal): Promise<T> => {
+    await abortableDelay(SIMULATED_LATENCY_MS, signal);
+    return buildFromSchema(schema, 'root', 0, hashString(prompt)) as T;
+};
+
+const generateImage = async (prompt: string, aspectRatio: AspectRatio, signal?: AbortSignal): Promise<GeneratedImage> => {
+    await abortableDelay(SIMULATED_LATENCY_MS, signal);
+    const { width, height } = IMAGE_SIZES[aspectRatio];
+    const { canvas, ctx } = createCanvas(width, height);
+    drawPlaceholder(ctx, prompt, width, height);
+    return { image: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+};
+
+const editImage = async (image: InlineImage, prompt: string, signal?: AbortSignal): Promise<string> => {
+    await abortableDelay(SIMULATED_LATENCY_MS, signal);
+    const source = await loadImage(`data:${image.mimeType};base64,${image.base64}`);
+    const { canvas, ctx } = createCanvas(source.width, source.height);
+    ctx.drawImage(source, 0, 0);
+    ctx.fillStyle = `hsla(${hashString(prompt) % 360}, 80%, 50%, 0.25)`;
+    ctx.fillRect(0, 0, source.width, source.height);
+    drawLabel(ctx, `MOCK · ${prompt}`, source.width, source.height);
+    return canvas.toDataURL('image/png').split(',')[1];
+};
+
+// A máscara é ignorada: a edição simulada cobre a imagem toda e o recorte fica por conta da composição no app.
+const editImageRegion = async (image: InlineImage, _mask: InlineImage, prompt: string, signal?: AbortSignal): Promise<string> =>
+    editImage(image, prompt, signal);
+
+const generateImageFromReferences = async (
+    references: InlineImage[],
+    prompt: string,
+    aspectRatio: AspectRatio,
+    signal?: AbortSignal
+): Promise<GeneratedImage> => {
+    await abortableDelay(SIMULATED_LATENCY_MS, signal);
+    const { width, height } = IMAGE_SIZES[aspectRatio];
+    const { canvas, ctx } = createCanvas(width, height);
+    drawPlaceholder(ctx, prompt, width, height);
+    // As referências aparecem como miniaturas no rodapé, para deixar claro que foram usadas.
+    const thumbSize = Math.round(width / 6);
+    const sources = await Promise.all(references.map(reference => loadImage(`data:${reference.mimeType};base64,${reference.base64}`)));
+    sources.forEach((source, index) => {
+        ctx.drawImage(source, 16 + index * (thumbSize + 16), height - thumbSize - 16, thumbSize, thumbSize);
+    });
+    return { image: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+};
+
+interface MockVideoPayload {
+    prompt: string;
+    aspectRatio: VideoRequest['aspectRatio'];
+    startedAt: number;
+}
+
+// O estado da operação fica codificado no próprio nome, para que a consulta sobreviva a um recarregamento da página.
+const encodePayload = (payload: MockVideoPayload): string => btoa(encodeURIComponent(JSON.stringify(payload)));
+const decodePayload = (encoded: string): MockVideoPayload => JSON.parse(decodeURIComponent(atob(encoded)));
+
+const startVideo = async ({ prompt, aspectRatio }: VideoRequest, signal?: AbortSignal): Promise<VideoOperation> => {
+    await abortableDelay(SIMULATED_LATENCY_MS, signal);
+    return { name: `${MOCK_OPERATION_PREFIX}${encodePayload({ prompt, aspectRatio, startedAt: Date.now() })}`, done: false };
+};
+
+const getVideoOperation = async (name: string, signal?: AbortSignal): Promise<VideoOperation> => {
+    await abortableDelay(SIMULATED_LATENCY_MS, signal);
+    if (!name.startsWith(MOCK_OPERATION_PREFIX)) {
+        return { name, done: true, error: getMessages().errors.mockUnknownOperation };
+    }
+    const encoded = name.slice(MOCK_OPERATION_PREFIX.length);
+    const { startedAt } = decodePayload(encoded);
+    const done = Date.now() - startedAt >= MOCK_VIDEO_PROCESSING_MS;
+    return done ? { name, done, videoUri: `${MOCK_VIDEO_URI_PREFIX}${encoded}` } : { name, done };
+};
+
+const downloadVideo = async (uri: string, signal?: AbortSignal): Promise<Blob> => {
+    if (typeof MediaRecorder === 'undefined') {
+        throw new Error(getMessages().errors.mockVideoUnsupported);
+    }
+    const { prompt, aspectRatio } = decodePayload(uri.slice(MOCK_VIDEO_URI_PREFIX.length));
+    const [width, height] = aspectRatio === '16:9' ? [640, 360] : [360, 640];
+    const { canvas, ctx } = createCanvas(width, height);
+    const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType: 'video/webm' });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = event => chunks.push(event.data);
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+    recorder.start();
+    const start = performance.now();
+    try {
+        while (performance.now() - start < MOCK_VIDEO_DURATION_MS) {
+            drawPlaceholder(ctx, prompt || 'vídeo', width, height, Math.round((performance.now() - start) / 10));
+            await abortableDelay(1000 / 30, signal);
+        }
+    } finally {
+        recorder.stop();
+        await stopped;
+    }
+
+    return new Blob(chunks, { type: 'video/webm' });
+};
+
+export const createMockProvider = (): AIProvider => ({
+    name: 'mock',
+    rateLimits: RATE_LIMITS,
+    generateJson,
+    generateImage,
+    editImage,
+    editImageRegion,
+    generateImageFromReferences,
+    startVideo,
+    getVideoOperation,
+    downloadVideo,
+});
@@ -0,0 +1,70 @@
+import type { AspectRatio } from '../../types';
+import type { RateLimit, RequestKind } from '../requestScheduler';
+
+export type AIProviderName = 'gemini' | 'mock';
+
+export interface InlineImage {
+    base64: string;
+    mimeType: string;
+}
+
+export interface GeneratedImage {
+    image: string; // base64 encoded image
+    mimeType: string;
+}
+
+/**
+ * Subconjunto do OpenAPI usado para descrever respostas JSON estruturadas.
+ * Segue o formato aceito pelo Gemini (tipos em maiúsculas), mas não depende do SDK.
+ */
+export interface JsonSchema {
+    type: 'OBJECT' | 'ARRAY' | 'STRING' | 'INTEGER' | 'NUMBER' | 'BOOLEAN';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    required?: string[];
+    enum?: string[];
+}
+
+export interface JsonRequest {
+    prompt: string;
+    schema: JsonSchema;
+    image?: InlineImage;
+}
+
+export interface VideoRequest {
+    prompt: string;
+    image: InlineImage | null;
+    aspectRatio: '16:9' | '9:16';
+    resolution: '720p' | '1080p';
+}
+
+/** Estado de uma geração de vídeo de longa duração no fornecedor. */
+export interface VideoOperation {
+    name: string;
+    done: boolean;
+    videoUri?: string;
+    error?: string; // motivo legível da falha, quando `done` e sem vídeo
+}
+
+/**
+ * Contrato que todo fornecedor de IA precisa cumprir. As funções de `geminiService`
+ * montam os prompts e schemas e delegam a chamada ao fornecedor ativo. O `signal`
+ * opcional cancela a chamada em andamento (rejeitando com AbortError).
+ */
+export interface AIProvider {
+    readonly name: AIProviderName;
+    /** Limites de uso por tipo de chamada (cada tipo corresponde a um modelo do fornecedor). */
+    readonly rateLimits: Record<RequestKind, RateLimit>;
+    generateJson<T>(request: JsonRequest, signal?: AbortSignal): Promise<T>;
+    generateImage(prompt: string, aspectRatio: AspectRatio, signal?: AbortSignal): Promise<GeneratedImage>;
+    editImage(image: InlineImage, prompt: string, signal?: AbortSignal): Promise<string>;
+    /** Edita apenas a região indicada pela máscara (branco = editar, preto = manter). */
+    editImageRegion(image: InlineImage, mask: InlineImage, prompt: string, signal?: AbortSignal): Promise<string>;
+    /** Gera uma imagem nova condicionada a imagens de referência (por exemplo, a aparência de personagens). */
+    generateImageFromReferences(references: InlineImage[], prompt: string, aspectRatio: AspectRatio, signal?: AbortSignal): Promise<GeneratedImage>;
+    /** Inicia a geração de um vídeo; o nome da operação permite retomar a consulta depois. */
+    startVideo(request: VideoRequest, signal?: AbortSignal): Promise<VideoOperation>;
+    getVideoOperation(name: string, signal?: AbortSignal): Promise<VideoOperation>;
+    downloadVideo(uri: string, signal?: AbortSignal): Promise<Blob>;
+}
@@ -0,0 +1,23 @@
+import type { Publisher, PublisherName } from './types';
+import { createOutboxPublisher } from './outboxPublisher';
+
+export type { Publisher, PublisherName, PublishedCaption, PublishReceipt, PublishRequest } from './types';
+
+const PUBLISHER_FACTORIES: Record<PublisherName, () => Publisher> = {
+    outbox: createOutboxPublisher,
+};
+
+let activePublisher: Publisher | null = null;
+
+/** Publicador usado pelo calendário; por enquanto, sempre a caixa de saída local. */
+export const getPublisher = (): Publisher => {
+    if (!activePublisher) {
+        activePublisher = PUBLISHER_FACTORIES.outbox();
+    }
+    return activePublisher;
+};
+
+/** Permite trocar o publicador em tempo de execução, por exemplo por um adaptador de rede. */
+export const setPublisher = (publisher: Publisher) => {
+    activePublisher = publisher;
+};
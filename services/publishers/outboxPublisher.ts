@@ -0,0 +1,40 @@
+import type { OutboxEntry } from '../../types';
+import type { Publisher } from './types';
+import { saveOutboxEntry } from '../projectStore';
+import { extensionForMimeType, slugify } from '../../utils/exportUtils';
+import { throwIfAborted } from '../../utils/abort';
+
+// Ex.: 2026-03-14-0930 — ordena os arquivos da caixa de saída pela data de publicação.
+const formatStamp = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+};
+
+/**
+ * Publicador local: em vez de enviar para a rede, grava a imagem e a legenda em JSON na caixa de
+ * saída (IndexedDB), de onde podem ser baixadas. Serve até existir um adaptador de rede real.
+ */
+export const createOutboxPublisher = (): Publisher => ({
+    name: 'outbox',
+    publish: async ({ item, image, caption }, signal) => {
+        throwIfAborted(signal);
+        const baseName = `${formatStamp(item.scheduledAt)}-${item.channel}-${slugify(caption.headline) || 'post'}`;
+        const imageName = `${baseName}.${extensionForMimeType(image.type)}`;
+        const entry: OutboxEntry = {
+            id: crypto.randomUUID(),
+            scheduledPostId: item.id,
+            channel: item.channel,
+            createdAt: Date.now(),
+            files: [
+                { name: imageName, blob: image },
+                {
+                    name: `${baseName}.json`,
+                    blob: new Blob([JSON.stringify({ ...caption, image: imageName }, null, 2)], { type: 'application/json' }),
+                },
+            ],
+        };
+        await saveOutboxEntry(entry);
+        return { location: `outbox/${baseName}` };
+    },
+});
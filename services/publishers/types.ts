@@ -0,0 +1,35 @@
+import type { OutputLanguage, Platform, ScheduledPost } from '../../types';
+
+export type PublisherName = 'outbox';
+
+/** Legenda e metadados que acompanham a imagem; é o JSON gravado pelo publicador local. */
+export interface PublishedCaption {
+    channel: Platform;
+    scheduledAt: string; // ISO 8601
+    language: OutputLanguage;
+    tag: string;
+    headline: string;
+    cta: string;
+    caption: string; // texto e hashtags, como vão para a rede
+    hashtags: string[];
+    altText: string;
+}
+
+export interface PublishRequest {
+    item: ScheduledPost;
+    image: Blob; // já com o texto aplicado, no tamanho do canal
+    caption: PublishedCaption;
+}
+
+export interface PublishReceipt {
+    location: string; // onde a publicação foi parar: caminho na caixa de saída, link na rede...
+}
+
+/**
+ * Contrato de quem entrega os itens do calendário que chegaram ao horário. Um adaptador de rede
+ * real implementa esta interface e é ativado com `setPublisher`; o calendário não muda.
+ */
+export interface Publisher {
+    readonly name: PublisherName;
+    publish(request: PublishRequest, signal?: AbortSignal): Promise<PublishReceipt>;
+}
@@ -0,0 +1,270 @@
+import { createAbortError } from '../utils/abort';
+import { getMessages } from '../utils/i18n';
+
+export type RequestKind = 'text' | 'image' | 'edit' | 'video';
+
+export interface RateLimit {
+    maxConcurrent: number;
+    requestsPerMinute: number;
+}
+
+export interface RequestStatus {
+    state: 'queued' | 'running' | 'retrying';
+    position: number; // posição na fila (0 = próxima a iniciar)
+    etaMs: number;
+    attempt: number;
+}
+
+export interface QueueSnapshot {
+    queued: number;
+    running: number;
+    etaMs: number; // tempo estimado para esvaziar a fila
+}
+
+export interface ScheduleOptions {
+    onStatus?: (status: RequestStatus) => void;
+    maxRetries?: number;
+    signal?: AbortSignal;
+}
+
+interface Job {
+    task: () => Promise<unknown>;
+    resolve: (value: unknown) => void;
+    reject: (reason: unknown) => void;
+    attempt: number;
+    notBefore: number;
+    maxRetries: number;
+    onStatus?: (status: RequestStatus) => void;
+    signal?: AbortSignal;
+}
+
+interface Lane {
+    limit: RateLimit;
+    queue: Job[];
+    running: number;
+    nextStartAt: number;
+    pausedUntil: number;
+    avgDurationMs: number;
+    timer: number | null;
+}
+
+const DEFAULT_MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60000;
+
+// Estimativas iniciais de duração, refinadas com a média das chamadas concluídas.
+const INITIAL_DURATION_MS: Record<RequestKind, number> = {
+    text: 8000,
+    image: 10000,
+    edit: 10000,
+    video: 120000,
+};
+
+const getField = (value: unknown, key: string): unknown =>
+    typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+
+const getErrorMessage = (error: unknown): string => String(getField(error, 'message') ?? error ?? '');
+
+/**
+ * Usa os campos `status`/`code` do erro. Sem eles, só aceita o número na mensagem quando vem
+ * junto de "status", "code" ou "HTTP" (ex.: `got status: 429` do SDK), para que um "500"
+ * qualquer no texto não faça o erro ser repetido.
+ */
+const getStatusCode = (error: unknown): number | null => {
+    const status = getField(error, 'status');
+    if (typeof status === 'number') return status;
+    const code = getField(error, 'code');
+    if (typeof code === 'number') return code;
+    const match = getErrorMessage(error).match(/\b(?:status|code|http(?:\/[\d.]+)?)["'\s:=]*(429|5\d\d)\b/i);
+    return match ? Number(match[1]) : null;
+};
+
+const isRateLimitError = (error: unknown): boolean => {
+    const message = getErrorMessage(error).toLowerCase();
+    return getStatusCode(error) === 429 || message.includes('resource_exhausted') || message.includes('rate limit');
+};
+
+const isTransientError = (error: unknown): boolean => {
+    const status = getStatusCode(error);
+    if (status !== null && status >= 500) return true;
+    // fetch rejeita com TypeError quando a rede falha.
+    if (error instanceof TypeError) return true;
+    const message = getErrorMessage(error).toLowerCase();
+    return ['unavailable', 'deadline_exceeded', 'network', 'failed to fetch', 'econnreset', 'timed out'].some(term => message.includes(term));
+};
+
+/** Extrai a dica de espera do servidor (RetryInfo do Google, cabeçalho Retry-After ou texto da mensagem). */
+const getRetryHintMs = (error: unknown): number | null => {
+    const readRetryAfter = (headers: unknown) => headers instanceof Headers ? headers.get('retry-after') : null;
+    const retryAfter = readRetryAfter(getField(error, 'headers')) ?? readRetryAfter(getField(getField(error, 'response'), 'headers'));
+    if (retryAfter && !isNaN(Number(retryAfter))) return Number(retryAfter) * 1000;
+    const message = getErrorMessage(error);
+    const match = message.match(/retry(?:delay)?["'\s:]*(?:in\s+)?(\d+(?:\.\d+)?)\s*s\b/i);
+    return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+};
+
+const computeBackoffMs = (attempt: number, hintMs: number | null): number => {
+    const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+    const jittered = exponential * (0.5 + Math.random() * 0.5);
+    return Math.max(jittered, hintMs ?? 0);
+};
+
+/**
+ * Agendador central para as chamadas de IA. Cada tipo de chamada tem sua própria fila
+ * com limite de concorrência e de requisições por minuto; falhas temporárias (429, 5xx
+ * e erros de rede) são repetidas com backoff exponencial e jitter.
+ */
+export const createRequestScheduler = (limits: Record<RequestKind, RateLimit>) => {
+    const lanes = Object.fromEntries(
+        (Object.keys(limits) as RequestKind[]).map(kind => [kind, {
+            limit: limits[kind],
+            queue: [],
+            running: 0,
+            nextStartAt: 0,
+            pausedUntil: 0,
+            avgDurationMs: INITIAL_DURATION_MS[kind],
+            timer: null,
+        } as Lane])
+    ) as Record<RequestKind, Lane>;
+    const listeners = new Set<(snapshot: QueueSnapshot) => void>();
+
+    const intervalMs = (lane: Lane) => 60000 / lane.limit.requestsPerMinute;
+
+    const estimateEtaMs = (lane: Lane, position: number): number => {
+        const now = Date.now();
+        const waitForSlot = Math.floor((position + lane.running) / lane.limit.maxConcurrent) * lane.avgDurationMs;
+        const waitForRate = Math.max(0, lane.nextStartAt - now) + position * intervalMs(lane);
+        const waitForPause = Math.max(0, lane.pausedUntil - now);
+        return Math.max(waitForSlot, waitForRate, waitForPause) + lane.avgDurationMs;
+    };
+
+    const getSnapshot = (): QueueSnapshot => {
+        const allLanes = Object.values(lanes);
+        return {
+            queued: allLanes.reduce((sum, lane) => sum + lane.queue.length, 0),
+            running: allLanes.reduce((sum, lane) => sum + lane.running, 0),
+            etaMs: Math.max(0, ...allLanes
+                .filter(lane => lane.queue.length > 0 || lane.running > 0)
+                .map(lane => estimateEtaMs(lane, Math.max(0, lane.queue.length - 1)))),
+        };
+    };
+
+    const notify = (lane: Lane) => {
+        lane.queue.forEach((job, position) => job.onStatus?.({
+            state: job.attempt > 0 ? 'retrying' : 'queued',
+            position,
+            etaMs: estimateEtaMs(lane, position),
+            attempt: job.attempt,
+        }));
+        const snapshot = getSnapshot();
+        listeners.forEach(listener => listener(snapshot));
+    };
+
+    const runJob = async (lane: Lane, job: Job) => {
+        lane.running++;
+        job.onStatus?.({ state: 'running', position: 0, etaMs: lane.avgDurationMs, attempt: job.attempt });
+        const startedAt = Date.now();
+        try {
+            const result = await job.task();
+            lane.avgDurationMs = lane.avgDurationMs * 0.7 + (Date.now() - startedAt) * 0.3;
+            job.resolve(result);
+        } catch (error) {
+            const rateLimited = isRateLimitError(error);
+            if (job.signal?.aborted) {
+                job.reject(createAbortError());
+            } else if ((rateLimited || isTransientError(error)) && job.attempt < job.maxRetries) {
+                const delay = computeBackoffMs(job.attempt, getRetryHintMs(error));
+                console.warn(`Request failed (${rateLimited ? 'rate limit' : 'transient error'}). Retrying in ${Math.round(delay / 1000)}s... (Attempt ${job.attempt + 1}/${job.maxRetries})`);
+                if (rateLimited) {
+                    // A cota é compartilhada: pausa a fila inteira deste tipo de chamada.
+                    lane.pausedUntil = Math.max(lane.pausedUntil, Date.now() + delay);
+                }
+                job.attempt++;
+                job.notBefore = Date.now() + delay;
+                lane.queue.unshift(job);
+            } else if (rateLimited) {
+                job.reject(new Error(getMessages().errors.rateLimit));
+            } else {
+                job.reject(error);
+            }
+        } finally {
+            lane.running--;
+            pump(lane);
+        }
+    };
+
+    const pump = (lane: Lane) => {
+        if (lane.timer !== null) {
+            clearTimeout(lane.timer);
+            lane.timer = null;
+        }
+        let wakeAt = Infinity;
+        while (lane.running < lane.limit.maxConcurrent && lane.queue.length > 0) {
+            const now = Date.now();
+            const index = lane.queue.findIndex(job => job.notBefore <= now);
+            const readyAt = Math.max(lane.nextStartAt, lane.pausedUntil);
+            if (index === -1 || readyAt > now) {
+                const earliestJob = Math.min(...lane.queue.map(job => job.notBefore));
+                wakeAt = Math.max(readyAt, earliestJob);
+                break;
+            }
+            const [job] = lane.queue.splice(index, 1);
+            lane.nextStartAt = now + intervalMs(lane);
+            runJob(lane, job);
+        }
+        if (wakeAt !== Infinity) {
+            lane.timer = window.setTimeout(() => pump(lane), Math.max(0, wakeAt - Date.now()));
+        }
+        notify(lane);
+    };
+
+    const schedule = <T>(kind: RequestKind, task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> => {
+        const lane = lanes[kind];
+        const { signal } = options;
+        return new Promise<T>((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(createAbortError());
+                return;
+            }
+            const onAbort = () => {
+                // Chamadas ainda na fila são removidas; as que já estão em execução
+                // são rejeitadas na hora e seu resultado tardio é descartado.
+                const index = lane.queue.indexOf(job);
+                if (index !== -1) {
+                    lane.queue.splice(index, 1);
+                    pump(lane);
+                }
+                reject(createAbortError());
+            };
+            const job: Job = {
+                task,
+                resolve: value => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve(value as T);
+                },
+                reject: reason => {
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(reason);
+                },
+                attempt: 0,
+                notBefore: 0,
+                maxRetries: options.maxRetries ?? DEFAULT_MAX_RETRIES,
+                onStatus: options.onStatus,
+                signal,
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            lane.queue.push(job);
+            pump(lane);
+        });
+    };
+
+    const subscribe = (listener: (snapshot: QueueSnapshot) => void): (() => void) => {
+        listeners.add(listener);
+        listener(getSnapshot());
+        return () => { listeners.delete(listener); };
+    };
+
+    return { schedule, subscribe, getSnapshot };
+};
+
+export type RequestScheduler = ReturnType<typeof createRequestScheduler>;
@@ -0,0 +1,233 @@
+import type { VideoJob, VideoJobErrorCode, VideoJobStatus } from '../types';
+import { downloadVideo, getVideoOperation, startVideoGeneration } from './geminiService';
+import { abortableDelay, isAbortError } from '../utils/abort';
+import { getMessages } from '../utils/i18n';
+
+const STORAGE_KEY = 'genio-post:video-jobs';
+const POLL_INTERVAL_MS = 10000;
+export const MAX_CONSECUTIVE_POLL_FAILURES = 5;
+const MAX_STORED_JOBS = 20;
+
+export const DEFAULT_VIDEO_TIMEOUT_MS = 10 * 60 * 1000;
+
+const ACTIVE_STATUSES: VideoJobStatus[] = ['starting', 'processing', 'downloading'];
+
+export const isVideoJobActive = (job: VideoJob): boolean => ACTIVE_STATUSES.includes(job.status);
+
+export interface StartVideoJobRequest {
+    prompt: string;
+    image: { base64: string; mimeType: string } | null;
+    aspectRatio: '16:9' | '9:16';
+    resolution: '720p' | '1080p';
+    timeoutMs?: number;
+}
+
+const loadJobs = (): VideoJob[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch (e) {
+        console.error("Failed to read video jobs from storage:", e);
+        return [];
+    }
+};
+
+let jobs: VideoJob[] = loadJobs();
+let hasResumed = false;
+const controllers = new Map<string, AbortController>();
+// Os vídeos baixados ficam só em memória; depois de recarregar, são baixados de novo pelo `videoUri`.
+const videoUrls = new Map<string, string>();
+const listeners = new Set<(jobs: VideoJob[]) => void>();
+
+const notify = () => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+    } catch (e) {
+        console.error("Failed to save video jobs:", e);
+    }
+    listeners.forEach(listener => listener(jobs));
+};
+
+const getJob = (id: string): VideoJob | undefined => jobs.find(job => job.id === id);
+
+const updateJob = (id: string, changes: Partial<VideoJob>) => {
+    jobs = jobs.map(job => job.id === id ? { ...job, ...changes } : job);
+    notify();
+};
+
+interface JobFailure {
+    code: VideoJobErrorCode;
+    detail: string | null;
+}
+
+// Erro que já carrega o código da falha; `describeError` o reconhece pela propriedade `failure`.
+const createJobError = (code: VideoJobErrorCode, detail: string | null = null): Error => {
+    const failure: JobFailure = { code, detail };
+    return Object.assign(new Error(detail ?? code), { failure });
+};
+
+const describeError = (error: unknown): JobFailure => {
+    if (error instanceof Error && 'failure' in error) return error.failure as JobFailure;
+    const message = error instanceof Error ? error.message : String(error);
+    return message.includes("Requested entity was not found")
+        ? { code: 'invalid-api-key', detail: null }
+        : { code: 'failed', detail: message };
+};
+
+const failJob = (id: string, { code, detail }: JobFailure) => {
+    updateJob(id, { status: 'failed', statusMessage: getMessages().video.statuses.failed, errorCode: code, error: detail, finishedAt: Date.now() });
+};
+
+/** Consulta a operação até ela terminar, respeitando o tempo limite do trabalho. Retorna o endereço do vídeo. */
+const pollUntilDone = async (id: string, signal: AbortSignal): Promise<string> => {
+    let failures = 0;
+    while (true) {
+        const job = getJob(id);
+        if (!job?.operationName) throw createJobError('no-operation');
+        // A espera na fila de vídeos não conta; trabalhos antigos, sem `startedAt`, usam a criação.
+        const deadline = (job.startedAt ?? job.createdAt) + job.timeoutMs;
+        if (Date.now() >= deadline) {
+            throw createJobError('timeout');
+        }
+
+        let operation = null;
+        try {
+            operation = await getVideoOperation(job.operationName, signal);
+            failures = 0;
+            updateJob(id, { lastCheckedAt: Date.now(), statusMessage: getMessages().videoJobs.processing });
+        } catch (e) {
+            if (isAbortError(e)) throw e;
+            failures++;
+            console.error("Erro ao obter o status da operação de vídeo:", e);
+            if (failures >= MAX_CONSECUTIVE_POLL_FAILURES) {
+                const failure = describeError(e);
+                throw failure.code === 'invalid-api-key' ? createJobError(failure.code) : createJobError('poll-failed', failure.detail);
+            }
+            updateJob(id, { statusMessage: getMessages().videoJobs.pollRetry(failures, MAX_CONSECUTIVE_POLL_FAILURES) });
+        }
+
+        if (operation?.done) {
+            if (operation.videoUri) return operation.videoUri;
+            throw operation.error ? createJobError('failed', operation.error) : createJobError('no-video');
+        }
+
+        await abortableDelay(Math.min(POLL_INTERVAL_MS, Math.max(0, deadline - Date.now())), signal);
+    }
+};
+
+const runJob = async (id: string, image: StartVideoJobRequest['image']) => {
+    const controller = new AbortController();
+    controllers.set(id, controller);
+    const { signal } = controller;
+    try {
+        const job = getJob(id);
+        if (!job) return;
+        if (!job.operationName) {
+            updateJob(id, { status: 'starting', statusMessage: getMessages().videoJobs.waiting });
+            const operation = await startVideoGeneration(job.prompt, image, job.aspectRatio, job.resolution, signal);
+            updateJob(id, { operationName: operation.name, startedAt: Date.now(), status: 'processing', statusMessage: getMessages().videoJobs.started });
+        }
+        const videoUri = getJob(id)?.videoUri ?? await pollUntilDone(id, signal);
+        updateJob(id, { status: 'downloading', statusMessage: getMessages().videoJobs.downloading, videoUri });
+        const blob = await downloadVideo(videoUri, signal);
+        videoUrls.set(id, URL.createObjectURL(blob));
+        updateJob(id, { status: 'succeeded', statusMessage: getMessages().video.statuses.succeeded, finishedAt: Date.now() });
+    } catch (e) {
+        // O cancelamento já atualizou o trabalho em `cancelVideoJob`.
+        if (!isAbortError(e)) {
+            console.error(`Video job ${id} failed:`, e);
+            failJob(id, describeError(e));
+        }
+    } finally {
+        controllers.delete(id);
+    }
+};
+
+/** Cria um trabalho de geração de vídeo e começa a executá-lo em segundo plano. */
+export const startVideoJob = ({ prompt, image, aspectRatio, resolution, timeoutMs = DEFAULT_VIDEO_TIMEOUT_MS }: StartVideoJobRequest): VideoJob => {
+    const job: VideoJob = {
+        id: crypto.randomUUID(),
+        prompt,
+        aspectRatio,
+        resolution,
+        hasImage: !!image,
+        operationName: null,
+        status: 'starting',
+        statusMessage: getMessages().videoJobs.starting,
+        createdAt: Date.now(),
+        startedAt: null,
+        lastCheckedAt: null,
+        finishedAt: null,
+        timeoutMs,
+        videoUri: null,
+        errorCode: null,
+        error: null,
+    };
+    // Mantém apenas os trabalhos mais recentes; os ativos nunca são descartados.
+    const finished = jobs.filter(existing => !isVideoJobActive(existing)).slice(MAX_STORED_JOBS - 1);
+    finished.forEach(existing => removeVideoJob(existing.id));
+    jobs = [job, ...jobs];
+    notify();
+    runJob(job.id, image);
+    return job;
+};
+
+/**
+ * Retoma a consulta dos trabalhos que estavam em andamento quando a página foi fechada.
+ * Só tem efeito na primeira chamada.
+ */
+export const resumeVideoJobs = () => {
+    if (hasResumed) return;
+    hasResumed = true;
+    jobs.filter(isVideoJobActive).forEach(job => {
+        if (job.operationName) {
+            updateJob(job.id, { statusMessage: getMessages().videoJobs.resuming });
+            runJob(job.id, null);
+        } else {
+            failJob(job.id, { code: 'reloaded-before-start', detail: null });
+        }
+    });
+};
+
+/** Interrompe a consulta local; a operação já iniciada no servidor não pode ser cancelada. */
+export const cancelVideoJob = (id: string) => {
+    const job = getJob(id);
+    if (!job || !isVideoJobActive(job)) return;
+    updateJob(id, { status: 'cancelled', statusMessage: getMessages().video.statuses.cancelled, errorCode: 'cancelled', error: null, finishedAt: Date.now() });
+    controllers.get(id)?.abort();
+};
+
+export const removeVideoJob = (id: string) => {
+    controllers.get(id)?.abort();
+    const url = videoUrls.get(id);
+    if (url) URL.revokeObjectURL(url);
+    videoUrls.delete(id);
+    jobs = jobs.filter(job => job.id !== id);
+    notify();
+};
+
+export const getVideoJobUrl = (id: string): string | null => videoUrls.get(id) ?? null;
+
+/** Baixa novamente um vídeo concluído que não está mais em memória (por exemplo, após recarregar a página). */
+export const loadVideoJobUrl = async (id: string): Promise<string> => {
+    const cached = videoUrls.get(id);
+    if (cached) return cached;
+    const job = getJob(id);
+    if (!job?.videoUri) throw new Error(getMessages().videoJobs.unavailable);
+    try {
+        const blob = await downloadVideo(job.videoUri);
+        const url = URL.createObjectURL(blob);
+        videoUrls.set(id, url);
+        notify();
+        return url;
+    } catch (e) {
+        console.error("Failed to download video again:", e);
+        throw new Error(getMessages().videoJobs.downloadAgainFailed);
+    }
+};
+
+export const subscribeToVideoJobs = (listener: (jobs: VideoJob[]) => void): (() => void) => {
+    listeners.add(listener);
+    listener(jobs);
+    return () => { listeners.delete(listener); };
+};
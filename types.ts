@@ -2,6 +2,24 @@ export interface StructuredText {
     tag: string;
     headline: string;
     cta: string;
+    // Legenda publicada junto com a imagem. Opcionais porque projetos antigos não os têm.
+    body?: string;
+    hashtags?: string[]; // sempre com '#', sem espaços
+    altText?: string; // descrição da imagem para leitores de tela
+}
+
+/** Partes do texto que são desenhadas sobre a imagem. */
+export type OverlayTextPart = 'tag' | 'headline' | 'cta';
+
+export type CaptionTone = 'formal' | 'divertido' | 'urgente' | 'inspirador';
+
+export type HeadlineLength = 'short' | 'medium' | 'long';
+
+/** Pedido de novas opções de legenda para um post que já existe. */
+export interface CaptionRegenerationOptions {
+    tone: CaptionTone;
+    headlineLength: HeadlineLength;
+    instruction: string; // instrução extra, opcional
 }
 
 export interface Post {
@@ -10,23 +28,236 @@ export interface Post {
     activeTextIndex: number;
     image: string; // base64 encoded image
     imageMimeType: string;
+    brandKitId?: string;
+    layout?: PostLayout;
+    aspectRatio?: AspectRatio;
+    versions?: ImageVersion[];
+    activeVersionId?: string;
+    language?: OutputLanguage; // idioma dos textos; ausente em projetos antigos (pt-BR)
+    translationOf?: string; // id do post original, quando este é uma tradução
+    platform?: Platform; // rede de destino; define o tamanho exportado e a validação dos textos
 }
 
+export interface ImageVersion {
+    id: string;
+    image: string; // base64 encoded image
+    mimeType: string;
+    prompt: string | null; // null para a imagem original
+    parentId: string | null;
+    createdAt: number;
+}
+
+export type AspectRatio = '1:1' | '4:5' | '9:16' | '16:9' | '2:3';
+
+export type Platform = 'instagram-feed' | 'instagram-story' | 'linkedin' | 'x' | 'facebook' | 'pinterest' | 'tiktok-cover';
+
+/** Margens cobertas pela interface da rede (nome, botões, legenda), como frações da largura ou altura. */
+export interface SafeZone {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+}
+
+/** Idiomas em que legendas, roteiros e diálogos podem ser gerados (códigos BCP 47). */
+export type OutputLanguage = 'pt-BR' | 'en' | 'es' | 'fr' | 'de' | 'it';
+
+export type PostLayout = 'bottom-left' | 'centered' | 'top-headline' | 'split' | 'minimal';
+
 // FIX: Add missing types for ComicCreator component
 export interface Scene {
-    sceneNumber: number;
+    id: string; // estável ao reordenar; quadros, recordatórios e a ordem da página se referem a ele
+    sceneNumber: number; // posição na lista, usada só para exibição e nos prompts
     description: string;
     dialogue: string[];
+    characterIds?: string[]; // personagens do elenco presentes na cena
+}
+
+/** Personagem do elenco. A descrição é repetida em todos os quadros para manter a aparência. */
+export interface ComicCharacter {
+    id: string;
+    name: string;
+    description: string;
+    referenceImage?: { base64: string; mimeType: string };
 }
 
 export interface ComicScript {
     title: string;
     summary: string;
+    characters?: ComicCharacter[];
     scenes: Scene[];
+    language?: OutputLanguage; // idioma dos diálogos; reescritas de cena seguem o mesmo idioma
 }
 
-export interface GeneratedPanel {
+export type BalloonKind = 'speech' | 'thought' | 'caption';
+
+/** Balão desenhado sobre o quadro. Posições e tamanhos são frações (0 a 1) do lado do quadro. */
+export interface Balloon {
+    id: string;
+    kind: BalloonKind;
+    text: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    tailX: number; // ponta do rabicho; ignorada em recordatórios
+    tailY: number;
+}
+
+/** Uma versão gerada (ou editada) de um quadro; o usuário escolhe qual delas vai para a HQ. */
+export interface PanelCandidate {
+    id: string;
     imageBase64: string;
     mimeType: string;
-    sceneNumber: number;
+    artStyle: string;
+    instruction?: string; // instrução extra usada ao regenerar
+    createdAt: number;
+}
+
+export interface GeneratedPanel {
+    imageBase64: string; // imagem da versão escolhida
+    mimeType: string;
+    sceneId: string;
+    sceneNumber: number; // cópia do número atual da cena, para exibição
+    balloons?: Balloon[];
+    artStyle?: string; // estilo deste quadro, quando difere do estilo da HQ
+    candidates?: PanelCandidate[];
+    activeCandidateId?: string;
+}
+
+export type ComicPageLayout = 'strip' | 'grid-2x2' | 'rows-3' | 'custom';
+
+export interface ComicPageSettings {
+    layout: ComicPageLayout;
+    customColumns: number; // usado apenas no layout 'custom'
+    gutter: number; // em pixels da página exportada
+    borderWidth: number;
+    borderColor: string;
+    backgroundColor: string;
+    showTitle: boolean;
+    panelOrder: string[]; // ids das cenas, na ordem em que aparecem na página
+    captions: Record<string, string>; // recordatório por id de cena
+}
+
+export interface BrandKit {
+    id: string;
+    name: string;
+    primaryColor: string; // fundo da etiqueta (tag)
+    secondaryColor: string; // fundo da chamada para ação (CTA)
+    headlineFont: string;
+    bodyFont: string;
+    logo: { base64: string; mimeType: string } | null;
+    cornerRadius: number;
+    gradientColor: string;
+    gradientOpacity: number; // 0 a 1
+}
+
+export type ProjectKind = 'posts' | 'comic' | 'image-edit';
+
+export interface PostsProjectData {
+    prompt: string;
+    visualStyle: string;
+    postType: 'single' | 'carousel';
+    aspectRatio: AspectRatio;
+    uploadedImage: { base64: string; mimeType: string } | null;
+    posts: Post[];
+    outputLanguages?: OutputLanguage[]; // o primeiro é o idioma original; os demais, traduções
+    platform?: Platform; // ausente em projetos antigos; deduzida de `aspectRatio`
+}
+
+export interface ComicProjectData {
+    storyIdea: string;
+    artStyle: string;
+    script: ComicScript | null;
+    panels: GeneratedPanel[];
+    page?: ComicPageSettings;
+}
+
+export interface ImageEditProjectData {
+    originalImage: { base64: string; mimeType: string } | null;
+    editedImage: string | null;
+    editPrompt: string;
+}
+
+export interface ProjectDataByKind {
+    'posts': PostsProjectData;
+    'comic': ComicProjectData;
+    'image-edit': ImageEditProjectData;
+}
+
+export type Project<K extends ProjectKind = ProjectKind> = {
+    [P in K]: {
+        id: string;
+        name: string;
+        kind: P;
+        createdAt: number;
+        updatedAt: number;
+        data: ProjectDataByKind[P];
+    };
+}[K];
+
+export type ScheduledPostStatus = 'scheduled' | 'publishing' | 'published' | 'failed';
+
+/** Post colocado no calendário. Guarda uma cópia do post, então editar o original depois não muda o agendamento. */
+export interface ScheduledPost {
+    id: string;
+    post: Post; // sem o histórico de versões da imagem
+    channel: Platform;
+    scheduledAt: number;
+    status: ScheduledPostStatus;
+    createdAt: number;
+    publishedAt: number | null;
+    receipt: string | null; // onde o publicador deixou a publicação (ex.: caminho na caixa de saída)
+    error: string | null;
+}
+
+/** Publicação gravada pelo publicador local: a imagem final e a legenda em JSON. */
+export interface OutboxEntry {
+    id: string;
+    scheduledPostId: string;
+    channel: Platform;
+    createdAt: number;
+    files: { name: string; blob: Blob }[];
+}
+
+export type VideoJobStatus = 'starting' | 'processing' | 'downloading' | 'succeeded' | 'failed' | 'cancelled';
+
+/** Motivo da falha, salvo como código e traduzido só na exibição. 'failed' é um erro do fornecedor, com o texto em `error`. */
+export type VideoJobErrorCode =
+    | 'invalid-api-key'
+    | 'timeout'
+    | 'poll-failed'
+    | 'no-operation'
+    | 'no-video'
+    | 'reloaded-before-start'
+    | 'cancelled'
+    | 'failed';
+
+export interface VideoJob {
+    id: string;
+    prompt: string;
+    aspectRatio: '16:9' | '9:16';
+    resolution: '720p' | '1080p';
+    hasImage: boolean;
+    operationName: string | null; // nome da operação no fornecedor, usado para retomar a consulta
+    status: VideoJobStatus;
+    statusMessage: string;
+    createdAt: number;
+    startedAt?: number | null; // quando a operação foi criada no fornecedor; o tempo limite conta a partir daqui
+    lastCheckedAt: number | null;
+    finishedAt: number | null;
+    timeoutMs: number;
+    videoUri: string | null;
+    errorCode?: VideoJobErrorCode | null; // ausente nos trabalhos salvos antes dos códigos, que só têm `error`
+    error: string | null; // detalhe sem tradução (mensagem do fornecedor), quando houver
+}
+
+declare global {
+    interface Window {
+        // Disponível quando o app roda dentro do Google AI Studio.
+        aistudio?: {
+            hasSelectedApiKey: () => Promise<boolean>;
+            openSelectKey: () => Promise<void>;
+        };
+    }
 }
@@ -0,0 +1,27 @@
+export const createAbortError = (): DOMException => new DOMException('A operação foi cancelada.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+    (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw createAbortError();
+};
+
+/** Aguarda `ms` milissegundos, rejeitando com AbortError assim que o sinal for cancelado. */
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timeout);
+            reject(createAbortError());
+        };
+        const timeout = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
@@ -0,0 +1,61 @@
+import type { BrandKit } from '../types';
+
+const STORAGE_KEY = 'genio-post:brand-kits';
+
+export const DEFAULT_BRAND_KIT_ID = 'default';
+
+export const DEFAULT_BRAND_KIT: BrandKit = {
+    id: DEFAULT_BRAND_KIT_ID,
+    name: 'Padrão Gênio Post',
+    primaryColor: '#F97316', // orange-500
+    secondaryColor: '#DC2626', // red-600
+    headlineFont: 'sans-serif',
+    bodyFont: 'sans-serif',
+    logo: null,
+    cornerRadius: 8,
+    gradientColor: '#000000',
+    gradientOpacity: 0.8,
+};
+
+export const BRAND_FONTS: { label: string; value: string }[] = [
+    { label: 'Sans-serif', value: 'sans-serif' },
+    { label: 'Arial Black', value: "'Arial Black', sans-serif" },
+    { label: 'Impact', value: 'Impact, sans-serif' },
+    { label: 'Trebuchet', value: "'Trebuchet MS', sans-serif" },
+    { label: 'Georgia', value: 'Georgia, serif' },
+    { label: 'Times', value: "'Times New Roman', serif" },
+    { label: 'Courier', value: "'Courier New', monospace" },
+];
+
+export const hexToRgba = (hex: string, alpha: number): string => {
+    const normalized = hex.replace('#', '');
+    const full = normalized.length === 3 ? normalized.split('').map(c => c + c).join('') : normalized;
+    const value = parseInt(full, 16);
+    const r = (value >> 16) & 255;
+    const g = (value >> 8) & 255;
+    const b = value & 255;
+    return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+};
+
+/**
+ * Lê os kits de marca salvos no navegador. O kit padrão é sempre o primeiro da lista
+ * e não pode ser sobrescrito nem removido.
+ */
+export const loadBrandKits = (): BrandKit[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const saved: BrandKit[] = raw ? JSON.parse(raw) : [];
+        return [DEFAULT_BRAND_KIT, ...saved.filter(kit => kit.id !== DEFAULT_BRAND_KIT_ID)];
+    } catch (e) {
+        console.error("Failed to read brand kits from storage:", e);
+        return [DEFAULT_BRAND_KIT];
+    }
+};
+
+export const saveBrandKits = (kits: BrandKit[]) => {
+    const custom = kits.filter(kit => kit.id !== DEFAULT_BRAND_KIT_ID);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(custom));
+};
+
+export const findBrandKit = (kits: BrandKit[], id: string | undefined): BrandKit =>
+    kits.find(kit => kit.id === id) ?? DEFAULT_BRAND_KIT;
@@ -0,0 +1,105 @@
+import type { AspectRatio, Platform } from '../types';
+import { parseCsv } from './csvUtils';
+import { getMessages } from './i18n';
+import { DEFAULT_PLATFORM, PLATFORM_PRESETS, PLATFORMS, platformForAspectRatio } from './platformPresets';
+
+export const DEFAULT_BULK_VISUAL_STYLE = 'Moderno';
+
+/** Uma linha do briefing em lote, já validada e com os valores padrão aplicados. */
+export interface BulkBriefRow {
+    rowNumber: number; // posição entre as linhas de dados, a partir de 1
+    prompt: string;
+    visualStyle: string;
+    postType: 'single' | 'carousel';
+    platform: Platform;
+    imageName: string | null;
+    problem: string | null; // linha que não pode ser gerada como está (ex.: proporção desconhecida)
+}
+
+type BriefColumn = 'prompt' | 'visualStyle' | 'postType' | 'aspectRatio' | 'image';
+
+// Nomes aceitos no cabeçalho, já normalizados (sem acento, espaço ou pontuação), nos três idiomas da interface.
+const COLUMN_ALIASES: Record<BriefColumn, string[]> = {
+    prompt: ['prompt', 'comando', 'tema', 'descricao', 'description', 'descripcion', 'brief'],
+    visualStyle: ['estilo', 'estilovisual', 'style', 'visualstyle'],
+    postType: ['tipo', 'tipodepost', 'formato', 'type', 'posttype'],
+    aspectRatio: ['proporcao', 'proporcion', 'ratio', 'aspectratio', 'plataforma', 'platform'],
+    image: ['imagem', 'imagen', 'image', 'arquivo', 'archivo', 'file', 'filename'],
+};
+
+const POST_TYPE_ALIASES: Record<string, 'single' | 'carousel'> = {
+    single: 'single',
+    unico: 'single',
+    postunico: 'single',
+    post: 'single',
+    carousel: 'carousel',
+    carrossel: 'carousel',
+    carrusel: 'carousel',
+};
+
+const normalize = (value: string): string =>
+    value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]/g, '');
+
+const ASPECT_RATIOS = [...new Set(PLATFORMS.map(platform => PLATFORM_PRESETS[platform].aspectRatio))];
+
+/** Aceita o id de uma plataforma (`linkedin`) ou uma proporção (`4:5`, `4x5`, `4/5`). */
+const parsePlatform = (value: string): Platform | null => {
+    if (!value) return DEFAULT_PLATFORM;
+    const platform = PLATFORMS.find(id => normalize(id) === normalize(value));
+    if (platform) return platform;
+    const ratio = value.replace(/\s/g, '').replace(/[x/]/i, ':') as AspectRatio;
+    return ASPECT_RATIOS.includes(ratio) ? platformForAspectRatio(ratio) : null;
+};
+
+/**
+ * Lê a planilha exportada em CSV: a primeira linha é o cabeçalho e a ordem das colunas é livre.
+ * Só a coluna do prompt é obrigatória; as linhas com problema voltam marcadas em vez de descartadas,
+ * para que a lista mostre tudo o que estava no arquivo.
+ */
+export const parseBulkBrief = (text: string): BulkBriefRow[] => {
+    const messages = getMessages().bulk;
+    const [header = [], ...records] = parseCsv(text);
+    const headerKeys = header.map(normalize);
+    const columnIndex = (column: BriefColumn) => headerKeys.findIndex(key => COLUMN_ALIASES[column].includes(key));
+    const indexes = {
+        prompt: columnIndex('prompt'),
+        visualStyle: columnIndex('visualStyle'),
+        postType: columnIndex('postType'),
+        aspectRatio: columnIndex('aspectRatio'),
+        image: columnIndex('image'),
+    };
+    if (indexes.prompt === -1) {
+        throw new Error(messages.missingPromptColumn);
+    }
+    if (records.length === 0) {
+        throw new Error(messages.noRows);
+    }
+
+    return records.map((record, index): BulkBriefRow => {
+        const cell = (column: BriefColumn) => indexes[column] === -1 ? '' : (record[indexes[column]] ?? '').trim();
+        const prompt = cell('prompt');
+        const imageName = cell('image') || null;
+        const postTypeValue = cell('postType');
+        const postType = postTypeValue ? POST_TYPE_ALIASES[normalize(postTypeValue)] : 'single';
+        const platform = parsePlatform(cell('aspectRatio'));
+
+        let problem: string | null = null;
+        if (!prompt && !imageName) problem = messages.missingPrompt;
+        else if (!postType) problem = messages.unknownPostType(postTypeValue);
+        else if (!platform) problem = messages.unknownAspectRatio(cell('aspectRatio'));
+
+        return {
+            rowNumber: index + 1,
+            prompt,
+            visualStyle: cell('visualStyle') || DEFAULT_BULK_VISUAL_STYLE,
+            postType: postType ?? 'single',
+            platform: platform ?? DEFAULT_PLATFORM,
+            imageName,
+            problem,
+        };
+    });
+};
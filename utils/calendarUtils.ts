@@ -0,0 +1,38 @@
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** Dia no fuso local no formato dos campos `type="date"` (ex.: '2026-03-14'); também serve de chave do dia. */
+export const toDateValue = (date: Date | number): string => {
+    const d = new Date(date);
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+/** Horário no formato dos campos `type="time"` (ex.: '09:30'). */
+export const toTimeValue = (date: Date | number): string => {
+    const d = new Date(date);
+    return `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+/** Junta os valores dos campos de data e horário em um instante no fuso local. */
+export const fromDateAndTime = (dateValue: string, timeValue: string): number => {
+    const [year, month, day] = dateValue.split('-').map(Number);
+    const [hours, minutes] = timeValue.split(':').map(Number);
+    return new Date(year, month - 1, day, hours, minutes).getTime();
+};
+
+/** Mantém o horário e troca o dia, como ao arrastar um item para outra data do calendário. */
+export const moveToDay = (timestamp: number, dateValue: string): number =>
+    fromDateAndTime(dateValue, toTimeValue(timestamp));
+
+export const startOfMonth = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), 1);
+
+export const addMonths = (date: Date, months: number): Date => new Date(date.getFullYear(), date.getMonth() + months, 1);
+
+/**
+ * Os 42 dias (6 semanas) exibidos na grade do mês, começando no dia da semana `weekStartsOn`
+ * (0 = domingo). Inclui o fim do mês anterior e o começo do seguinte.
+ */
+export const getMonthGrid = (month: Date, weekStartsOn: number): Date[] => {
+    const first = startOfMonth(month);
+    const offset = (first.getDay() - weekStartsOn + 7) % 7;
+    return Array.from({ length: 42 }, (_, i) => new Date(first.getFullYear(), first.getMonth(), 1 - offset + i));
+};
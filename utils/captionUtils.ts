@@ -0,0 +1,23 @@
+import type { StructuredText } from '../types';
+
+/**
+ * Normaliza hashtags vindas do modelo ou digitadas pelo usuário: aceita lista ou texto separado
+ * por espaços/vírgulas, garante o '#', remove espaços internos e repetições (sem diferenciar maiúsculas).
+ */
+export const normalizeHashtags = (value: string | string[]): string[] => {
+    const words = (Array.isArray(value) ? value : [value]).flatMap(item => item.split(/[\s,]+/));
+    const seen = new Set<string>();
+    return words
+        .map(word => word.replace(/^#+/, '').replace(/[^\p{L}\p{N}_]/gu, ''))
+        .filter(word => {
+            const key = word.toLowerCase();
+            if (!word || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .map(word => `#${word}`);
+};
+
+/** Legenda completa, pronta para colar na rede social: o texto e, após uma linha em branco, as hashtags. */
+export const formatPostCaption = (text: StructuredText): string =>
+    [text.body?.trim(), (text.hashtags ?? []).join(' ')].filter(Boolean).join('\n\n');
@@ -0,0 +1,178 @@
+import type { Balloon, BalloonKind } from '../types';
+import { wrapText } from './fileUtils';
+
+export const COMIC_FONT = "'Comic Neue', 'Comic Sans MS', 'Chalkboard SE', cursive";
+
+// Medidas relativas ao lado do quadro, para que o letreiro fique igual em qualquer resolução.
+const MAX_FONT_RATIO = 0.038;
+const MIN_FONT_RATIO = 0.016;
+const FONT_STEP_RATIO = 0.002;
+const OUTLINE_RATIO = 0.003;
+const LINE_HEIGHT = 1.2;
+
+const CAPTION_FILL = '#fff6c2';
+
+export const BALLOON_KINDS: BalloonKind[] = ['speech', 'thought', 'caption'];
+
+export const createBalloon = (kind: BalloonKind, text = '', index = 0): Balloon => {
+    const width = kind === 'caption' ? 0.5 : 0.44;
+    const height = kind === 'caption' ? 0.12 : 0.2;
+    // Balões novos alternam entre a esquerda e a direita do topo, descendo a cada par.
+    const x = index % 2 === 0 ? 0.04 : 0.52;
+    const y = 0.04 + Math.floor(index / 2) * (height + 0.04);
+    return {
+        id: crypto.randomUUID(),
+        kind,
+        text,
+        x,
+        y,
+        width,
+        height,
+        tailX: x + width * (index % 2 === 0 ? 0.65 : 0.35),
+        tailY: Math.min(0.95, y + height + 0.14),
+    };
+};
+
+/** Cria um balão de fala para cada linha de diálogo do roteiro. */
+export const createDialogueBalloons = (dialogue: string[]): Balloon[] =>
+    dialogue.filter(line => line.trim()).map((line, index) => createBalloon('speech', line.trim(), index));
+
+/** Garante que a fonte de quadrinhos (com acentuação completa) esteja carregada antes de desenhar no canvas. */
+export const ensureComicFontLoaded = async () => {
+    try {
+        await Promise.all([
+            document.fonts.load(`bold 32px 'Comic Neue'`, 'ãçéõ'),
+            document.fonts.load(`32px 'Comic Neue'`, 'ãçéõ'),
+        ]);
+    } catch (e) {
+        console.warn("Comic font could not be loaded; falling back to system fonts.", e);
+    }
+};
+
+/** Quebra o texto e reduz a fonte até que ele caiba na área interna do balão. */
+const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxHeight: number, size: number) => {
+    let fontSize = MAX_FONT_RATIO * size;
+    let lines: string[] = [];
+    for (let ratio = MAX_FONT_RATIO; ratio >= MIN_FONT_RATIO; ratio -= FONT_STEP_RATIO) {
+        fontSize = ratio * size;
+        ctx.font = `bold ${fontSize}px ${COMIC_FONT}`;
+        lines = text.split('\n').flatMap(paragraph => wrapText(ctx, paragraph, maxWidth));
+        const fitsWidth = lines.every(line => ctx.measureText(line).width <= maxWidth);
+        if (fitsWidth && lines.length * fontSize * LINE_HEIGHT <= maxHeight) break;
+    }
+    return { lines, fontSize };
+};
+
+const drawText = (ctx: CanvasRenderingContext2D, text: string, centerX: number, centerY: number, maxWidth: number, maxHeight: number, size: number) => {
+    if (!text.trim()) return;
+    const { lines, fontSize } = fitText(ctx, text, maxWidth, maxHeight, size);
+    const lineHeight = fontSize * LINE_HEIGHT;
+    ctx.fillStyle = '#000000';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const top = centerY - (lines.length - 1) * lineHeight / 2;
+    lines.forEach((line, index) => ctx.fillText(line, centerX, top + index * lineHeight));
+};
+
+const ellipsePath = (ctx: CanvasRenderingContext2D, cx: number, cy: number, rx: number, ry: number) => {
+    ctx.beginPath();
+    ctx.ellipse(cx, cy, Math.max(1, rx), Math.max(1, ry), 0, 0, Math.PI * 2);
+};
+
+const circlePath = (ctx: CanvasRenderingContext2D, cx: number, cy: number, r: number) => {
+    ctx.beginPath();
+    ctx.arc(cx, cy, Math.max(1, r), 0, Math.PI * 2);
+};
+
+/**
+ * Desenha formas unidas com contorno: primeiro o contorno com o dobro da espessura,
+ * depois o preenchimento, que cobre a metade interna e as emendas entre as formas.
+ */
+const drawOutlinedShapes = (ctx: CanvasRenderingContext2D, shapes: (() => void)[], outline: number, fill: string) => {
+    ctx.lineWidth = outline * 2;
+    ctx.strokeStyle = '#000000';
+    shapes.forEach(shape => { shape(); ctx.stroke(); });
+    ctx.fillStyle = fill;
+    shapes.forEach(shape => { shape(); ctx.fill(); });
+};
+
+const drawBalloon = (ctx: CanvasRenderingContext2D, balloon: Balloon, originX: number, originY: number, size: number) => {
+    const x = originX + balloon.x * size;
+    const y = originY + balloon.y * size;
+    const width = balloon.width * size;
+    const height = balloon.height * size;
+    const outline = Math.max(1, OUTLINE_RATIO * size);
+
+    if (balloon.kind === 'caption') {
+        drawOutlinedShapes(ctx, [() => { ctx.beginPath(); ctx.rect(x, y, width, height); }], outline / 2, CAPTION_FILL);
+        const padding = Math.min(width, height) * 0.12;
+        drawText(ctx, balloon.text, x + width / 2, y + height / 2, width - padding * 2, height - padding * 2, size);
+        return;
+    }
+
+    const cx = x + width / 2;
+    const cy = y + height / 2;
+    const rx = width / 2;
+    const ry = height / 2;
+    const tipX = originX + balloon.tailX * size;
+    const tipY = originY + balloon.tailY * size;
+    const dx = tipX - cx;
+    const dy = tipY - cy;
+    const distance = Math.hypot(dx, dy);
+    // O rabicho só aparece quando a ponta está fora do balão.
+    const hasTail = distance > 0 && (dx / rx) ** 2 + (dy / ry) ** 2 > 1;
+    const shapes: (() => void)[] = [];
+
+    if (balloon.kind === 'speech') {
+        if (hasTail) {
+            const halfBase = Math.min(rx, ry) * 0.35;
+            const px = -dy / distance * halfBase;
+            const py = dx / distance * halfBase;
+            shapes.push(() => {
+                ctx.beginPath();
+                ctx.moveTo(cx + px, cy + py);
+                ctx.lineTo(tipX, tipY);
+                ctx.lineTo(cx - px, cy - py);
+                ctx.closePath();
+            });
+        }
+        shapes.push(() => ellipsePath(ctx, cx, cy, rx, ry));
+        drawOutlinedShapes(ctx, shapes, outline, '#ffffff');
+        drawText(ctx, balloon.text, cx, cy, width * 0.72, height * 0.68, size);
+        return;
+    }
+
+    // Pensamento: nuvem de círculos ao redor de uma elipse e bolinhas decrescentes até a ponta.
+    const bumps = 10;
+    const bumpRadius = Math.min(rx, ry) * 0.38;
+    for (let i = 0; i < bumps; i++) {
+        const angle = (i / bumps) * Math.PI * 2;
+        const bx = cx + Math.cos(angle) * (rx - bumpRadius * 0.8);
+        const by = cy + Math.sin(angle) * (ry - bumpRadius * 0.8);
+        shapes.push(() => circlePath(ctx, bx, by, bumpRadius));
+    }
+    shapes.push(() => ellipsePath(ctx, cx, cy, rx - bumpRadius * 0.5, ry - bumpRadius * 0.5));
+    if (hasTail) {
+        const edge = 1 / Math.sqrt((dx / distance / rx) ** 2 + (dy / distance / ry) ** 2);
+        const edgeX = cx + dx / distance * edge;
+        const edgeY = cy + dy / distance * edge;
+        [[0.3, 0.22], [0.6, 0.15], [0.9, 0.09]].forEach(([t, radius]) => {
+            const bx = edgeX + (tipX - edgeX) * t;
+            const by = edgeY + (tipY - edgeY) * t;
+            const r = Math.min(rx, ry) * radius;
+            shapes.push(() => circlePath(ctx, bx, by, r));
+        });
+    }
+    drawOutlinedShapes(ctx, shapes, outline, '#ffffff');
+    drawText(ctx, balloon.text, cx, cy, width * 0.66, height * 0.6, size);
+};
+
+/** Desenha os balões sobre um quadro quadrado de lado `size` posicionado em (`originX`, `originY`). */
+export const drawBalloons = (ctx: CanvasRenderingContext2D, balloons: Balloon[], originX: number, originY: number, size: number) => {
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(originX, originY, size, size);
+    ctx.clip();
+    balloons.forEach(balloon => drawBalloon(ctx, balloon, originX, originY, size));
+    ctx.restore();
+};
@@ -0,0 +1,123 @@
+import type { ComicPageSettings, ComicScript, GeneratedPanel } from '../types';
+import { drawImageCover, loadImage, wrapText } from './fileUtils';
+import { COMIC_FONT, drawBalloons, ensureComicFontLoaded } from './comicBalloons';
+import { orderPanels } from './comicPage';
+
+// Páginas A4 a 200 dpi: os quadros gerados têm 1024px, então mais resolução não traria ganho na impressão.
+export const BOOK_PAGE_WIDTH = 1654;
+export const BOOK_PAGE_HEIGHT = 2339;
+const MARGIN = 120;
+const PANELS_PER_PAGE = 2;
+const CAPTION_FONT_SIZE = 38;
+const CAPTION_HEIGHT = 110;
+const SUMMARY_LINE_HEIGHT = 68;
+const SUMMARY_GAP = 90; // entre a ilustração da capa e o resumo
+const MIN_COVER_ART_SIZE = 800;
+
+const createPageCanvas = (): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+    const canvas = document.createElement('canvas');
+    canvas.width = BOOK_PAGE_WIDTH;
+    canvas.height = BOOK_PAGE_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context');
+    }
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, BOOK_PAGE_WIDTH, BOOK_PAGE_HEIGHT);
+    return { canvas, ctx };
+};
+
+const loadPanelImage = (panel: GeneratedPanel) => loadImage(`data:${panel.mimeType};base64,${panel.imageBase64}`);
+
+const drawPanel = async (ctx: CanvasRenderingContext2D, panel: GeneratedPanel, x: number, y: number, size: number) => {
+    drawImageCover(ctx, await loadPanelImage(panel), x, y, size, size);
+    drawBalloons(ctx, panel.balloons ?? [], x, y, size);
+    ctx.lineWidth = 6;
+    ctx.strokeStyle = '#000000';
+    ctx.strokeRect(x, y, size, size);
+};
+
+const drawLines = (ctx: CanvasRenderingContext2D, lines: string[], top: number, lineHeight: number): number => {
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    lines.forEach((line, index) => ctx.fillText(line, BOOK_PAGE_WIDTH / 2, top + index * lineHeight));
+    return top + lines.length * lineHeight;
+};
+
+const drawCenteredLines = (ctx: CanvasRenderingContext2D, text: string, top: number, maxWidth: number, lineHeight: number): number =>
+    drawLines(ctx, wrapText(ctx, text, maxWidth), top, lineHeight);
+
+/** Corta as linhas que não cabem, terminando a última com reticências. */
+const limitLines = (lines: string[], maxLines: number): string[] =>
+    lines.length <= maxLines ? lines : [...lines.slice(0, maxLines - 1), `${lines[maxLines - 1].replace(/[\s.,;:!?]*$/, '')}…`];
+
+/** Capa: título, o primeiro quadro como ilustração e o resumo da história. */
+const renderCover = async (script: ComicScript, coverPanel: GeneratedPanel | undefined): Promise<HTMLCanvasElement> => {
+    const { canvas, ctx } = createPageCanvas();
+    const contentWidth = BOOK_PAGE_WIDTH - MARGIN * 2;
+
+    ctx.fillStyle = '#000000';
+    ctx.font = `bold 110px ${COMIC_FONT}`;
+    const titleBottom = drawCenteredLines(ctx, script.title, MARGIN * 1.5, contentWidth, 130);
+
+    // O resumo é medido antes: a ilustração encolhe para ele caber na página e, se mesmo com a
+    // ilustração no tamanho mínimo ele não couber, as últimas linhas são cortadas.
+    const artTop = titleBottom + 80;
+    const spaceBelowArt = BOOK_PAGE_HEIGHT - MARGIN - artTop - SUMMARY_GAP;
+    ctx.font = `italic 52px ${COMIC_FONT}`;
+    const maxSummaryLines = Math.max(1, Math.floor((spaceBelowArt - MIN_COVER_ART_SIZE) / SUMMARY_LINE_HEIGHT));
+    const summaryLines = limitLines(wrapText(ctx, script.summary, contentWidth), maxSummaryLines);
+    const artSize = Math.min(contentWidth, spaceBelowArt - summaryLines.length * SUMMARY_LINE_HEIGHT);
+    if (coverPanel) {
+        await drawPanel(ctx, coverPanel, (BOOK_PAGE_WIDTH - artSize) / 2, artTop, artSize);
+    }
+
+    ctx.fillStyle = '#333333';
+    ctx.font = `italic 52px ${COMIC_FONT}`;
+    drawLines(ctx, summaryLines, artTop + artSize + SUMMARY_GAP, SUMMARY_LINE_HEIGHT);
+    return canvas;
+};
+
+const renderPanelPage = async (panels: GeneratedPanel[], settings: ComicPageSettings, pageNumber: number): Promise<HTMLCanvasElement> => {
+    const { canvas, ctx } = createPageCanvas();
+    const slotHeight = (BOOK_PAGE_HEIGHT - MARGIN * 2) / PANELS_PER_PAGE;
+    const size = Math.min(BOOK_PAGE_WIDTH - MARGIN * 2, slotHeight - CAPTION_HEIGHT - MARGIN / 2);
+
+    for (const [index, panel] of panels.entries()) {
+        const x = (BOOK_PAGE_WIDTH - size) / 2;
+        const y = MARGIN + index * slotHeight;
+        await drawPanel(ctx, panel, x, y, size);
+
+        const caption = settings.captions[panel.sceneId]?.trim();
+        if (caption) {
+            ctx.fillStyle = '#000000';
+            ctx.font = `bold ${CAPTION_FONT_SIZE}px ${COMIC_FONT}`;
+            drawCenteredLines(ctx, caption, y + size + 24, size, CAPTION_FONT_SIZE * 1.25);
+        }
+    }
+
+    ctx.fillStyle = '#666666';
+    ctx.font = `32px ${COMIC_FONT}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    ctx.fillText(String(pageNumber), BOOK_PAGE_WIDTH / 2, BOOK_PAGE_HEIGHT - MARGIN / 2);
+    return canvas;
+};
+
+/**
+ * Renderiza a HQ completa como páginas A4 (capa e depois as páginas de quadros), na ordem
+ * e com os recordatórios definidos na montagem da página. Entrega uma página por vez para
+ * que só um canvas grande fique em memória.
+ */
+export async function* renderComicBookPages(
+    script: ComicScript,
+    panels: GeneratedPanel[],
+    settings: ComicPageSettings
+): AsyncGenerator<HTMLCanvasElement> {
+    await ensureComicFontLoaded();
+    const orderedPanels = orderPanels(panels, settings.panelOrder);
+    yield renderCover(script, orderedPanels[0]);
+    for (let start = 0; start < orderedPanels.length; start += PANELS_PER_PAGE) {
+        yield renderPanelPage(orderedPanels.slice(start, start + PANELS_PER_PAGE), settings, start / PANELS_PER_PAGE + 2);
+    }
+}
@@ -0,0 +1,154 @@
+import type { ComicPageLayout, ComicPageSettings, GeneratedPanel } from '../types';
+import { drawImageCover, loadImage, wrapText } from './fileUtils';
+import { COMIC_FONT, drawBalloons, ensureComicFontLoaded } from './comicBalloons';
+
+// Lado de cada quadro na página exportada; os quadros gerados são quadrados de 1024px.
+const PANEL_SIZE = 1024;
+const TITLE_HEIGHT = 160;
+const CAPTION_FONT_SIZE = 30;
+const CAPTION_PADDING = 16;
+
+export const COMIC_PAGE_LAYOUTS: ComicPageLayout[] = ['strip', 'grid-2x2', 'rows-3', 'custom'];
+
+export const DEFAULT_COMIC_PAGE_SETTINGS: ComicPageSettings = {
+    layout: 'grid-2x2',
+    customColumns: 3,
+    gutter: 32,
+    borderWidth: 6,
+    borderColor: '#000000',
+    backgroundColor: '#ffffff',
+    showTitle: true,
+    panelOrder: [],
+    captions: {},
+};
+
+export const getColumnCount = (settings: ComicPageSettings, panelCount: number): number => {
+    switch (settings.layout) {
+        case 'strip':
+            return Math.max(1, panelCount);
+        case 'grid-2x2':
+            return 2;
+        case 'rows-3':
+            return Math.max(1, Math.ceil(panelCount / 3));
+        case 'custom':
+            return Math.max(1, settings.customColumns);
+    }
+};
+
+/**
+ * Ordena os quadros conforme `panelOrder`. Quadros que ainda não estão na ordem salva
+ * (por exemplo, recém-gerados) vão para o fim.
+ */
+export const orderPanels = (panels: GeneratedPanel[], panelOrder: string[]): GeneratedPanel[] => {
+    const ordered = panelOrder
+        .map(sceneId => panels.find(panel => panel.sceneId === sceneId))
+        .filter((panel): panel is GeneratedPanel => !!panel);
+    return [...ordered, ...panels.filter(panel => !panelOrder.includes(panel.sceneId))];
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, caption: string, x: number, y: number, maxWidth: number, scale: number) => {
+    const fontSize = CAPTION_FONT_SIZE * scale;
+    const padding = CAPTION_PADDING * scale;
+    const lineHeight = fontSize * 1.25;
+    ctx.font = `bold ${fontSize}px ${COMIC_FONT}`;
+    const lines = wrapText(ctx, caption, maxWidth - padding * 2);
+    const boxWidth = Math.min(maxWidth, Math.max(...lines.map(line => ctx.measureText(line).width)) + padding * 2);
+    const boxHeight = lines.length * lineHeight + padding * 2;
+
+    ctx.fillStyle = '#fff6c2';
+    ctx.fillRect(x, y, boxWidth, boxHeight);
+    ctx.lineWidth = Math.max(1, 3 * scale);
+    ctx.strokeStyle = '#000000';
+    ctx.strokeRect(x, y, boxWidth, boxHeight);
+
+    ctx.fillStyle = '#000000';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    lines.forEach((line, index) => ctx.fillText(line, x + padding, y + padding + index * lineHeight));
+};
+
+/**
+ * Monta a página de quadrinhos em um canvas. Com `scale` = 1 a página tem resolução
+ * de exportação (quadros de 1024px); valores menores servem para a pré-visualização.
+ */
+export const renderComicPage = async (
+    title: string,
+    panels: GeneratedPanel[],
+    settings: ComicPageSettings,
+    scale = 1
+): Promise<HTMLCanvasElement> => {
+    await ensureComicFontLoaded();
+    const orderedPanels = orderPanels(panels, settings.panelOrder);
+    const columns = getColumnCount(settings, orderedPanels.length);
+    const rows = Math.max(1, Math.ceil(orderedPanels.length / columns));
+    const cell = PANEL_SIZE * scale;
+    const gutter = settings.gutter * scale;
+    const titleHeight = settings.showTitle && title ? TITLE_HEIGHT * scale : 0;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(columns * cell + (columns + 1) * gutter);
+    canvas.height = Math.round(titleHeight + rows * cell + (rows + 1) * gutter);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context');
+    }
+
+    ctx.fillStyle = settings.backgroundColor;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    if (titleHeight > 0) {
+        const fontSize = titleHeight * 0.5;
+        ctx.font = `bold ${fontSize}px ${COMIC_FONT}`;
+        ctx.fillStyle = settings.borderColor;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(title, canvas.width / 2, gutter + titleHeight / 2, canvas.width - gutter * 2);
+    }
+
+    const images = await Promise.all(orderedPanels.map(panel => loadImage(`data:${panel.mimeType};base64,${panel.imageBase64}`)));
+
+    images.forEach((image, index) => {
+        const row = Math.floor(index / columns);
+        const column = index % columns;
+        // A última linha incompleta fica centralizada.
+        const panelsInRow = Math.min(columns, orderedPanels.length - row * columns);
+        const rowOffset = (columns - panelsInRow) * (cell + gutter) / 2;
+        const x = rowOffset + gutter + column * (cell + gutter);
+        const y = titleHeight + gutter + row * (cell + gutter);
+
+        drawImageCover(ctx, image, x, y, cell, cell);
+        drawBalloons(ctx, orderedPanels[index].balloons ?? [], x, y, cell);
+
+        const caption = settings.captions[orderedPanels[index].sceneId]?.trim();
+        if (caption) {
+            const inset = settings.borderWidth * scale + 12 * scale;
+            drawCaption(ctx, caption, x + inset, y + inset, cell - inset * 2, scale);
+        }
+
+        if (settings.borderWidth > 0) {
+            const border = settings.borderWidth * scale;
+            ctx.lineWidth = border;
+            ctx.strokeStyle = settings.borderColor;
+            ctx.strokeRect(x + border / 2, y + border / 2, cell - border, cell - border);
+        }
+    });
+
+    return canvas;
+};
+
+/** Renderiza um quadro isolado com seus balões, na resolução original da imagem. Retorna um data URL PNG. */
+export const renderPanelImage = async (panel: GeneratedPanel): Promise<string> => {
+    await ensureComicFontLoaded();
+    const image = await loadImage(`data:${panel.mimeType};base64,${panel.imageBase64}`);
+    const size = Math.min(image.width, image.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context');
+    }
+    drawImageCover(ctx, image, 0, 0, size, size);
+    drawBalloons(ctx, panel.balloons ?? [], 0, 0, size);
+    return canvas.toDataURL('image/png');
+};
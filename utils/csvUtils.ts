@@ -0,0 +1,58 @@
+const DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Escolhe o separador pela primeira linha: planilhas exportadas em português costumam usar `;`
+ * (a vírgula é o separador decimal) e algumas exportam com tabulação.
+ */
+const detectDelimiter = (text: string): string => {
+    const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+    const counts = DELIMITERS.map(delimiter => firstLine.split(delimiter).length);
+    return DELIMITERS[counts.indexOf(Math.max(...counts))];
+};
+
+/**
+ * Lê um CSV no formato RFC 4180: campos entre aspas podem conter separadores, quebras de linha
+ * e aspas duplicadas (`""`). Linhas totalmente vazias são ignoradas.
+ */
+export const parseCsv = (text: string): string[][] => {
+    const source = text.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(source);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    const endRow = () => {
+        row.push(field);
+        if (row.some(value => value.trim() !== '')) rows.push(row);
+        row = [];
+        field = '';
+    };
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (inQuotes) {
+            if (char === '"' && source[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            endRow();
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) endRow();
+
+    return rows;
+};
@@ -0,0 +1,198 @@
+import type { BrandKit, ComicPageSettings, ComicScript, GeneratedPanel, Post, StructuredText } from '../types';
+import { base64ToBytes, dataUrlToBytes, mergeTextAndImage } from './fileUtils';
+import { createZip, ZipEntry } from './zipUtils';
+import { findBrandKit } from './brandKit';
+import { renderComicPage } from './comicPage';
+import { renderComicBookPages } from './comicBook';
+import { createImagePdf, PdfImagePage } from './pdfUtils';
+import { formatPostCaption } from './captionUtils';
+import { getMessages } from './i18n';
+import { getPostPreset, type PlatformPreset } from './platformPresets';
+
+interface CarouselManifestSlide {
+    file: string;
+    order: number;
+    text: StructuredText | null;
+}
+
+export const slugify = (value: string): string =>
+    value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 40);
+
+export const extensionForMimeType = (mimeType: string): string => {
+    if (mimeType === 'image/jpeg') return 'jpg';
+    if (mimeType === 'image/webp') return 'webp';
+    return 'png';
+};
+
+const getActiveText = (post: Post): StructuredText | null =>
+    post.texts.length > 0 ? post.texts[post.activeTextIndex] ?? null : null;
+
+const buildSlideFileName = (post: Post, index: number, extension: string): string => {
+    const order = String(index + 1).padStart(2, '0');
+    const name = index === 0 ? 'capa' : slugify(getActiveText(post)?.headline ?? '') || 'slide';
+    return `${order}-${name}.${extension}`;
+};
+
+const buildCaptionsText = (slides: CarouselManifestSlide[]): string =>
+    slides
+        .map(slide => {
+            const labels = getMessages().carouselExport;
+            const header = `[${slide.file}]`;
+            if (!slide.text) return `${header}\n${labels.noText}`;
+            const lines = [`${labels.tag}: ${slide.text.tag}`, `${labels.headline}: ${slide.text.headline}`, `${labels.cta}: ${slide.text.cta}`];
+            const caption = formatPostCaption(slide.text);
+            if (caption) lines.push(`${labels.caption}:\n${caption}`);
+            if (slide.text.altText) lines.push(`${labels.altText}: ${slide.text.altText}`);
+            return `${header}\n${lines.join('\n')}`;
+        })
+        .join('\n\n') + '\n';
+
+/** Slides renderizados, `captions.txt` e `manifest.json` de um carrossel, dentro de `folder` (vazio = raiz do ZIP). */
+const buildCarouselEntries = async (posts: Post[], brandKits: BrandKit[], folder = ''): Promise<ZipEntry[]> => {
+    const entries: ZipEntry[] = [];
+    const slides: CarouselManifestSlide[] = [];
+
+    for (const [index, post] of posts.entries()) {
+        const text = getActiveText(post);
+        let data: Uint8Array;
+        let extension: string;
+        if (text) {
+            const preset = getPostPreset(post);
+            data = dataUrlToBytes(await mergeTextAndImage(post.image, post.imageMimeType, text, {
+                brandKit: findBrandKit(brandKits, post.brandKitId),
+                layout: post.layout,
+                size: preset?.size,
+                safeZone: preset?.safeZone,
+            }));
+            extension = 'png';
+        } else {
+            data = base64ToBytes(post.image);
+            extension = extensionForMimeType(post.imageMimeType);
+        }
+        const file = buildSlideFileName(post, index, extension);
+        entries.push({ name: `${folder}${file}`, data });
+        slides.push({ file, order: index + 1, text });
+    }
+
+    entries.push({ name: `${folder}captions.txt`, data: buildCaptionsText(slides) });
+    entries.push({
+        name: `${folder}manifest.json`,
+        data: JSON.stringify({ createdAt: new Date().toISOString(), slides }, null, 2),
+    });
+
+    return entries;
+};
+
+/**
+ * Renderiza todos os slides de um carrossel, na ordem, e os empacota em um único ZIP
+ * com `captions.txt` e `manifest.json` contendo o texto ativo de cada slide.
+ */
+export const createCarouselZip = async (posts: Post[], brandKits: BrandKit[]): Promise<Blob> =>
+    createZip(await buildCarouselEntries(posts, brandKits));
+
+/**
+ * Resultado de uma geração em lote: uma pasta por linha do briefing (ex.: `03-cafe-vegano/`),
+ * cada uma no mesmo formato do carrossel exportado.
+ */
+export const createBulkZip = async (groups: { name: string; posts: Post[] }[], brandKits: BrandKit[]): Promise<Blob> => {
+    const entries: ZipEntry[] = [];
+    for (const group of groups) {
+        entries.push(...await buildCarouselEntries(group.posts, brandKits, `${group.name}/`));
+    }
+    return createZip(entries);
+};
+
+/**
+ * Imagem final de um post: o texto ativo aplicado no tamanho e na zona segura do preset.
+ * Sem texto, a imagem original é devolvida como está.
+ */
+export const createPostImage = async (post: Post, brandKit: BrandKit, preset: PlatformPreset | null): Promise<Blob> => {
+    const text = getActiveText(post);
+    if (!text) {
+        return new Blob([base64ToBytes(post.image)] as BlobPart[], { type: post.imageMimeType });
+    }
+    const dataUrl = await mergeTextAndImage(post.image, post.imageMimeType, text, {
+        brandKit,
+        layout: post.layout,
+        size: preset?.size,
+        safeZone: preset?.safeZone,
+    });
+    return new Blob([dataUrlToBytes(dataUrl)] as BlobPart[], { type: 'image/png' });
+};
+
+const canvasToPngBlob = (canvas: HTMLCanvasElement): Promise<Blob> => new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(getMessages().errors.pngFailed)), 'image/png');
+});
+
+/** Renderiza a página de quadrinhos em resolução total (quadros de 1024px) como PNG. */
+export const createComicPagePng = async (title: string, panels: GeneratedPanel[], settings: ComicPageSettings): Promise<Blob> =>
+    canvasToPngBlob(await renderComicPage(title, panels, settings));
+
+const JPEG_QUALITY = 0.9;
+
+const canvasToJpegBytes = (canvas: HTMLCanvasElement): Promise<Uint8Array> => new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+        if (!blob) {
+            reject(new Error(getMessages().errors.jpegFailed));
+            return;
+        }
+        blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/jpeg', JPEG_QUALITY);
+});
+
+const renderComicBookJpegs = async (script: ComicScript, panels: GeneratedPanel[], settings: ComicPageSettings): Promise<PdfImagePage[]> => {
+    const pages: PdfImagePage[] = [];
+    for await (const canvas of renderComicBookPages(script, panels, settings)) {
+        pages.push({ jpeg: await canvasToJpegBytes(canvas), pixelWidth: canvas.width, pixelHeight: canvas.height });
+    }
+    return pages;
+};
+
+/** PDF A4 para impressão: capa com título e resumo, depois as páginas de quadros. */
+export const createComicPdf = async (script: ComicScript, panels: GeneratedPanel[], settings: ComicPageSettings): Promise<Blob> =>
+    createImagePdf(await renderComicBookJpegs(script, panels, settings), { title: script.title, subject: script.summary });
+
+const escapeXml = (value: string): string =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+
+/** Metadados no formato ComicInfo.xml (v2.0), lido pela maioria dos leitores de CBZ. A ordem dos campos segue o schema. */
+const buildComicInfoXml = (script: ComicScript, pages: PdfImagePage[]): string => {
+    const now = new Date();
+    const characters = (script.characters ?? []).map(character => character.name).filter(Boolean).join(', ');
+    const fields = [
+        `  <Title>${escapeXml(script.title)}</Title>`,
+        `  <Summary>${escapeXml(script.summary)}</Summary>`,
+        `  <Year>${now.getFullYear()}</Year>`,
+        `  <Month>${now.getMonth() + 1}</Month>`,
+        `  <Day>${now.getDate()}</Day>`,
+        `  <PageCount>${pages.length}</PageCount>`,
+        `  <LanguageISO>pt</LanguageISO>`,
+        `  <Manga>No</Manga>`,
+        characters ? `  <Characters>${escapeXml(characters)}</Characters>` : '',
+        '  <Pages>',
+        ...pages.map((page, index) =>
+            `    <Page Image="${index}" Type="${index === 0 ? 'FrontCover' : 'Story'}" ImageSize="${page.jpeg.length}" ImageWidth="${page.pixelWidth}" ImageHeight="${page.pixelHeight}" />`
+        ),
+        '  </Pages>',
+    ].filter(Boolean);
+    return `<?xml version="1.0" encoding="utf-8"?>\n<ComicInfo xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">\n${fields.join('\n')}\n</ComicInfo>\n`;
+};
+
+/** Arquivo CBZ para leitores de quadrinhos: as mesmas páginas do PDF, em JPEG, com `ComicInfo.xml`. */
+export const createComicCbz = async (script: ComicScript, panels: GeneratedPanel[], settings: ComicPageSettings): Promise<Blob> => {
+    const pages = await renderComicBookJpegs(script, panels, settings);
+    const entries: ZipEntry[] = pages.map((page, index) => ({ name: `${String(index).padStart(3, '0')}.jpg`, data: page.jpeg }));
+    entries.push({ name: 'ComicInfo.xml', data: buildComicInfoXml(script, pages) });
+    return createZip(entries);
+};
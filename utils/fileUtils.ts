@@ -1,4 +1,6 @@
-import { StructuredText } from "../types";
+import type { AspectRatio, BrandKit, PostLayout, SafeZone, StructuredText } from "../types";
+import { DEFAULT_BRAND_KIT, hexToRgba } from "./brandKit";
+import { DEFAULT_POST_LAYOUT, SPLIT_PANEL_RATIO } from "./postLayouts";
 
 export const fileToBase64 = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -21,117 +23,315 @@ export const downloadImage = (imageDataUrl: string, fileName: string) => {
     document.body.removeChild(link);
 };
 
-export const mergeTextAndImage = (
-    base64Image: string, 
-    mimeType: string, 
-    text: StructuredText
-): Promise<string> => {
+// Firefox e Safari iniciam o download depois do clique; revogar a URL na hora pode cancelá-lo.
+const REVOKE_DELAY_MS = 1000;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    downloadImage(url, fileName);
+    setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => base64ToBytes(dataUrl.split(',')[1]);
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
     return new Promise((resolve, reject) => {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-            return reject(new Error('Could not get canvas context'));
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = (error) => reject(error);
+        image.src = src;
+    });
+};
+
+/** Desenha a imagem cobrindo a região indicada, cortando o excesso a partir do centro (como `object-cover`). */
+export const drawImageCover = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, x: number, y: number, width: number, height: number) => {
+    const scale = Math.max(width / image.width, height / image.height);
+    const sourceWidth = width / scale;
+    const sourceHeight = height / scale;
+    ctx.drawImage(image, (image.width - sourceWidth) / 2, (image.height - sourceHeight) / 2, sourceWidth, sourceHeight, x, y, width, height);
+};
+
+export type FitMode = 'crop' | 'pad';
+
+export const aspectRatioToNumber = (aspectRatio: AspectRatio): number => {
+    const [width, height] = aspectRatio.split(':').map(Number);
+    return width / height;
+};
+
+/**
+ * Ajusta uma imagem à proporção desejada, cortando a partir do centro ('crop') ou
+ * adicionando faixas de cor sólida ('pad'). Imagens que já estão na proporção certa
+ * são devolvidas sem alteração.
+ */
+export const fitImageToAspectRatio = async (
+    base64Image: string,
+    mimeType: string,
+    aspectRatio: AspectRatio,
+    mode: FitMode = 'crop',
+    padColor = '#000000'
+): Promise<{ base64: string; mimeType: string }> => {
+    const image = await loadImage(`data:${mimeType};base64,${base64Image}`);
+    const target = aspectRatioToNumber(aspectRatio);
+    const current = image.width / image.height;
+    if (Math.abs(current - target) < 0.01) {
+        return { base64: base64Image, mimeType };
+    }
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context');
+    }
+
+    if (mode === 'crop') {
+        canvas.width = current > target ? Math.round(image.height * target) : image.width;
+        canvas.height = current > target ? image.height : Math.round(image.width / target);
+        drawImageCover(ctx, image, 0, 0, canvas.width, canvas.height);
+    } else {
+        canvas.width = current > target ? image.width : Math.round(image.height * target);
+        canvas.height = current > target ? Math.round(image.width / target) : image.height;
+        ctx.fillStyle = padColor;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(image, (canvas.width - image.width) / 2, (canvas.height - image.height) / 2);
+    }
+
+    return { base64: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+};
+
+export interface MergeOptions {
+    brandKit?: BrandKit;
+    layout?: PostLayout;
+    size?: { width: number; height: number }; // tamanho exportado; sem ele, o da imagem
+    safeZone?: SafeZone;
+}
+
+interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const NO_SAFE_ZONE: SafeZone = { top: 0, right: 0, bottom: 0, left: 0 };
+
+type TextBlock =
+    | { kind: 'pill'; text: string; font: string; color: string; paddingX: number; height: number }
+    | { kind: 'lines'; lines: string[]; font: string; lineHeight: number };
+
+// --- Text Wrapping Logic ---
+export const wrapText = (context: CanvasRenderingContext2D, textToWrap: string, maxW: number): string[] => {
+    const words = textToWrap.split(' ');
+    let line = '';
+    const lines = [];
+
+    for (let n = 0; n < words.length; n++) {
+        const testLine = line + words[n] + ' ';
+        const metrics = context.measureText(testLine);
+        if (metrics.width > maxW && n > 0) {
+            lines.push(line.trim());
+            line = words[n] + ' ';
+        } else {
+            line = testLine;
         }
+    }
+    lines.push(line.trim());
+    return lines;
+};
 
-        const image = new Image();
-        image.onload = () => {
-            canvas.width = image.width;
-            canvas.height = image.height;
-            ctx.drawImage(image, 0, 0);
-
-            // --- Constants ---
-            const padding = canvas.width * 0.08;
-            const maxWidth = canvas.width - (padding * 2);
-
-            // --- Draw Gradient for Readability ---
-            const gradient = ctx.createLinearGradient(0, canvas.height * 0.4, 0, canvas.height);
-            gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
-            gradient.addColorStop(1, 'rgba(0, 0, 0, 0.8)');
-            ctx.fillStyle = gradient;
-            ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-            // --- Text Wrapping Logic ---
-            const wrapText = (context: CanvasRenderingContext2D, textToWrap: string, x: number, y: number, maxW: number, lineH: number): string[] => {
-                const words = textToWrap.split(' ');
-                let line = '';
-                const lines = [];
-
-                for (let n = 0; n < words.length; n++) {
-                    const testLine = line + words[n] + ' ';
-                    const metrics = context.measureText(testLine);
-                    if (metrics.width > maxW && n > 0) {
-                        lines.push(line.trim());
-                        line = words[n] + ' ';
-                    } else {
-                        line = testLine;
-                    }
-                }
-                lines.push(line.trim());
-                return lines;
-            };
-
-            // --- Draw Headline ---
-            const headlineFontSize = Math.max(32, Math.round(canvas.width / 15));
-            ctx.font = `900 ${headlineFontSize}px sans-serif`;
-            ctx.fillStyle = 'white';
-            ctx.textAlign = 'left';
-            ctx.textBaseline = 'bottom';
-            const headlineLineHeight = headlineFontSize * 1.1;
-            const headlineLines = wrapText(ctx, text.headline, padding, 0, maxWidth, headlineLineHeight);
-            const headlineTotalHeight = headlineLines.length * headlineLineHeight;
-
-            // --- Draw CTA ---
-            const ctaFontSize = Math.max(18, Math.round(canvas.width / 30));
-            ctx.font = `700 ${ctaFontSize}px sans-serif`;
-            const ctaMetrics = ctx.measureText(text.cta);
-            const ctaHeight = ctaFontSize * 1.6;
-            const ctaY = canvas.height - padding;
-
-            // Draw CTA Background
-            const ctaBgPadding = ctaFontSize * 0.4;
-            ctx.fillStyle = '#DC2626'; // red-600
+const blockHeight = (block: TextBlock): number =>
+    block.kind === 'pill' ? block.height : block.lines.length * block.lineHeight;
+
+/**
+ * Desenha uma pilha de blocos de texto dentro de uma região horizontal, alinhada à esquerda
+ * ou ao centro, ancorada pelo topo, pela base ou pelo centro vertical. Devolve a área ocupada por cada bloco.
+ */
+const drawTextStack = (
+    ctx: CanvasRenderingContext2D,
+    blocks: TextBlock[],
+    region: { x: number; width: number },
+    align: 'left' | 'center',
+    anchor: { top: number } | { bottom: number } | { center: number },
+    gap: number,
+    radius: number
+): Rect[] => {
+    const totalHeight = blocks.reduce((sum, block) => sum + blockHeight(block), 0) + gap * Math.max(0, blocks.length - 1);
+    let y = 'top' in anchor ? anchor.top : 'bottom' in anchor ? anchor.bottom - totalHeight : anchor.center - totalHeight / 2;
+    const rects: Rect[] = [];
+
+    for (const block of blocks) {
+        ctx.font = block.font;
+        if (block.kind === 'pill') {
+            const width = ctx.measureText(block.text).width + block.paddingX * 2;
+            const left = align === 'left' ? region.x : region.x + (region.width - width) / 2;
+            ctx.fillStyle = block.color;
             ctx.beginPath();
-            ctx.roundRect(padding, ctaY - ctaHeight + ctaBgPadding / 2, ctaMetrics.width + ctaBgPadding * 2, ctaHeight, 8);
+            ctx.roundRect(left, y, width, block.height, radius);
             ctx.fill();
-            
-            // Draw CTA Text
             ctx.fillStyle = 'white';
+            ctx.textAlign = 'left';
             ctx.textBaseline = 'middle';
-            ctx.fillText(text.cta, padding + ctaBgPadding, ctaY - ctaHeight / 2 + ctaBgPadding/2);
-            
-            // --- Position and Draw Headline ---
-            const headlineY = ctaY - ctaHeight - (padding * 0.5);
-            ctx.font = `900 ${headlineFontSize}px sans-serif`;
-            ctx.textBaseline = 'bottom';
-            for (let i = 0; i < headlineLines.length; i++) {
-                ctx.fillText(headlineLines[i], padding, headlineY - (headlineLines.length - 1 - i) * headlineLineHeight);
-            }
-            
-            // --- Draw Tag ---
-            const tagY = headlineY - headlineTotalHeight - (padding * 0.5);
-            const tagFontSize = Math.max(16, Math.round(canvas.width / 35));
-            ctx.font = `600 ${tagFontSize}px sans-serif`;
-            const tagMetrics = ctx.measureText(text.tag);
-            const tagHeight = tagFontSize * 1.8;
-
-            // Draw Tag Background
-            ctx.fillStyle = '#F97316'; // orange-500
-            ctx.beginPath();
-            ctx.roundRect(padding, tagY - tagHeight, tagMetrics.width + (tagFontSize * 1.5), tagHeight, 8);
-            ctx.fill();
-            
-            // Draw Tag Text
+            ctx.fillText(block.text, left + block.paddingX, y + block.height / 2);
+            rects.push({ x: left, y, width, height: block.height });
+        } else {
             ctx.fillStyle = 'white';
-            ctx.textBaseline = 'middle';
-            ctx.fillText(text.tag, padding + (tagFontSize*0.75), tagY - tagHeight/2);
-            
-            resolve(canvas.toDataURL('image/png'));
-        };
+            ctx.textAlign = align;
+            ctx.textBaseline = 'top';
+            const x = align === 'left' ? region.x : region.x + region.width / 2;
+            block.lines.forEach((line, i) => ctx.fillText(line, x, y + i * block.lineHeight));
+            const width = Math.max(...block.lines.map(line => ctx.measureText(line).width));
+            rects.push({ x: align === 'left' ? x : x - width / 2, y, width, height: blockHeight(block) });
+        }
+        y += blockHeight(block) + gap;
+    }
+    return rects;
+};
 
-        image.onerror = (error) => {
-            reject(error);
-        };
+const fillVerticalGradient = (ctx: CanvasRenderingContext2D, brandKit: BrandKit, fromY: number, toY: number, x = 0, width = ctx.canvas.width) => {
+    const gradient = ctx.createLinearGradient(0, fromY, 0, toY);
+    gradient.addColorStop(0, hexToRgba(brandKit.gradientColor, 0));
+    gradient.addColorStop(1, hexToRgba(brandKit.gradientColor, brandKit.gradientOpacity));
+    ctx.fillStyle = gradient;
+    ctx.fillRect(x, Math.min(fromY, toY), width, Math.abs(toY - fromY));
+};
 
-        image.src = `data:${mimeType};base64,${base64Image}`;
-    });
+/**
+ * Margens do texto e do logo: o respiro padrão do layout ou, se maior, a zona segura da rede.
+ */
+const getTextInsets = (width: number, height: number, safeZone: SafeZone) => {
+    const padding = width * 0.08;
+    return {
+        padding,
+        top: Math.max(padding, height * safeZone.top),
+        right: Math.max(padding, width * safeZone.right),
+        bottom: Math.max(padding, height * safeZone.bottom),
+        left: Math.max(padding, width * safeZone.left),
+    };
+};
+
+/** Desenha a etiqueta, o título e a chamada conforme o layout e devolve a área ocupada por cada bloco. */
+const drawPostText = (ctx: CanvasRenderingContext2D, text: StructuredText, brandKit: BrandKit, layout: PostLayout, safeZone: SafeZone): Rect[] => {
+    const { width, height } = ctx.canvas;
+    const insets = getTextInsets(width, height, safeZone);
+    const gap = insets.padding * 0.5;
+    // O raio do kit é definido para a prévia (~320px); escalamos para o tamanho real da imagem.
+    const radius = brandKit.cornerRadius * Math.max(1, width / 400);
+    const region = layout === 'split'
+        ? { x: insets.left, width: width * SPLIT_PANEL_RATIO - insets.left - insets.padding }
+        : { x: insets.left, width: width - insets.left - insets.right };
+    const top = insets.top;
+    const bottom = height - insets.bottom;
+    const center = (top + bottom) / 2;
+
+    // --- Build Text Blocks ---
+    const sizeBase = layout === 'split' ? width * 0.75 : width;
+    const headlineFontSize = Math.max(32, Math.round(sizeBase / 15));
+    const headlineFont = `900 ${headlineFontSize}px ${brandKit.headlineFont}`;
+    ctx.font = headlineFont;
+    const headline: TextBlock = { kind: 'lines', lines: wrapText(ctx, text.headline, region.width), font: headlineFont, lineHeight: headlineFontSize * 1.1 };
+
+    const tagFontSize = Math.max(16, Math.round(sizeBase / 35));
+    const tag: TextBlock = { kind: 'pill', text: text.tag, font: `600 ${tagFontSize}px ${brandKit.bodyFont}`, color: brandKit.primaryColor, paddingX: tagFontSize * 0.75, height: tagFontSize * 1.8 };
+
+    const ctaFontSize = Math.max(18, Math.round(sizeBase / 30));
+    const cta: TextBlock = { kind: 'pill', text: text.cta, font: `700 ${ctaFontSize}px ${brandKit.bodyFont}`, color: brandKit.secondaryColor, paddingX: ctaFontSize * 0.4, height: ctaFontSize * 1.6 };
+
+    // --- Draw Text According to Layout ---
+    switch (layout) {
+        case 'centered':
+            return drawTextStack(ctx, [tag, headline, cta], region, 'center', { center }, gap, radius);
+        case 'top-headline':
+            return [
+                ...drawTextStack(ctx, [tag, headline], region, 'left', { top }, gap, radius),
+                ...drawTextStack(ctx, [cta], region, 'left', { bottom }, gap, radius),
+            ];
+        case 'split':
+            return drawTextStack(ctx, [tag, headline, cta], region, 'left', { center }, gap, radius);
+        case 'minimal':
+            return drawTextStack(ctx, [headline], region, 'left', { bottom }, gap, radius);
+        default:
+            return drawTextStack(ctx, [tag, headline, cta], region, 'left', { bottom }, gap, radius);
+    }
+};
+
+export const mergeTextAndImage = async (
+    base64Image: string, 
+    mimeType: string, 
+    text: StructuredText,
+    { brandKit = DEFAULT_BRAND_KIT, layout = DEFAULT_POST_LAYOUT, size, safeZone = NO_SAFE_ZONE }: MergeOptions = {}
+): Promise<string> => {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context');
+    }
+
+    const image = await loadImage(`data:${mimeType};base64,${base64Image}`);
+    const logo = brandKit.logo ? await loadImage(`data:${brandKit.logo.mimeType};base64,${brandKit.logo.base64}`) : null;
+
+    canvas.width = size?.width ?? image.width;
+    canvas.height = size?.height ?? image.height;
+
+    const insets = getTextInsets(canvas.width, canvas.height, safeZone);
+    const panelWidth = layout === 'split' ? canvas.width * SPLIT_PANEL_RATIO : 0;
+
+    // --- Draw Background and Readability Overlays ---
+    if (layout === 'split') {
+        ctx.fillStyle = brandKit.gradientColor;
+        ctx.fillRect(0, 0, panelWidth, canvas.height);
+    }
+    drawImageCover(ctx, image, panelWidth, 0, canvas.width - panelWidth, canvas.height);
+    if (layout === 'bottom-left' || layout === 'minimal') {
+        fillVerticalGradient(ctx, brandKit, canvas.height * 0.4, canvas.height);
+    } else if (layout === 'centered') {
+        ctx.fillStyle = hexToRgba(brandKit.gradientColor, brandKit.gradientOpacity * 0.6);
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    } else if (layout === 'top-headline') {
+        fillVerticalGradient(ctx, brandKit, canvas.height * 0.45, 0);
+        fillVerticalGradient(ctx, brandKit, canvas.height * 0.7, canvas.height);
+    }
+
+    // --- Draw Logo ---
+    if (logo) {
+        const logoHeight = canvas.height * 0.08;
+        const logoWidth = logoHeight * (logo.width / logo.height);
+        const logoY = layout === 'top-headline'
+            ? canvas.height - Math.max(insets.padding * 0.75, canvas.height * safeZone.bottom) - logoHeight
+            : Math.max(insets.padding * 0.75, canvas.height * safeZone.top);
+        ctx.drawImage(logo, canvas.width - insets.right - logoWidth, logoY, logoWidth, logoHeight);
+    }
+
+    drawPostText(ctx, text, brandKit, layout, safeZone);
+
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Indica se algum bloco de texto, no tamanho exportado, sai da zona segura (ou da imagem):
+ * um título longo demais empurra a pilha para cima, e etiquetas e chamadas não quebram linha.
+ */
+export const isTextOutsideSafeZone = (
+    text: StructuredText,
+    { brandKit = DEFAULT_BRAND_KIT, layout = DEFAULT_POST_LAYOUT, size, safeZone = NO_SAFE_ZONE }: MergeOptions & { size: { width: number; height: number } }
+): boolean => {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return false;
+    canvas.width = size.width;
+    canvas.height = size.height;
+
+    const left = size.width * safeZone.left;
+    const top = size.height * safeZone.top;
+    const right = size.width * (1 - safeZone.right);
+    const bottom = size.height * (1 - safeZone.bottom);
+    return drawPostText(ctx, text, brandKit, layout, safeZone)
+        .some(rect => rect.x < left || rect.y < top || rect.x + rect.width > right || rect.y + rect.height > bottom);
 };
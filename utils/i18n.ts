@@ -0,0 +1,79 @@
+import type { OutputLanguage } from '../types';
+import { ptBR, type Messages } from '../locales/pt-BR';
+import { en } from '../locales/en';
+import { es } from '../locales/es';
+
+export type Locale = 'pt-BR' | 'en' | 'es';
+
+export const LOCALES: { id: Locale; label: string }[] = [
+    { id: 'pt-BR', label: 'Português' },
+    { id: 'en', label: 'English' },
+    { id: 'es', label: 'Español' },
+];
+
+/** Idiomas em que o conteúdo (legendas, roteiros e diálogos) pode ser gerado, independentes da interface. */
+export const OUTPUT_LANGUAGES: OutputLanguage[] = ['pt-BR', 'en', 'es', 'fr', 'de', 'it'];
+
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = 'pt-BR';
+
+const CATALOGS: Record<Locale, Messages> = { 'pt-BR': ptBR, en, es };
+
+const STORAGE_KEY = 'genio-post:locale';
+
+const isLocale = (value: string | null): value is Locale => LOCALES.some(locale => locale.id === value);
+
+/** Usa o idioma salvo; sem ele, o primeiro idioma do navegador que tenha catálogo. O padrão é português. */
+const detectLocale = (): Locale => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (isLocale(saved)) return saved;
+    } catch (e) {
+        console.error("Failed to read locale from storage:", e);
+    }
+    for (const language of navigator.languages ?? [navigator.language]) {
+        const base = language.toLowerCase().split('-')[0];
+        if (base === 'pt') return 'pt-BR';
+        if (isLocale(base)) return base;
+    }
+    return 'pt-BR';
+};
+
+let currentLocale: Locale = detectLocale();
+const listeners = new Set<(locale: Locale) => void>();
+
+document.documentElement.lang = currentLocale;
+
+export const getLocale = (): Locale => currentLocale;
+
+/** Catálogo do idioma atual (ou do pedido); usado também fora dos componentes, nas mensagens de erro dos serviços. */
+export const getMessages = (locale: Locale = currentLocale): Messages => CATALOGS[locale];
+
+export const setLocale = (locale: Locale) => {
+    if (locale === currentLocale) return;
+    currentLocale = locale;
+    document.documentElement.lang = locale;
+    try {
+        localStorage.setItem(STORAGE_KEY, locale);
+    } catch (e) {
+        console.error("Failed to save locale to storage:", e);
+    }
+    listeners.forEach(listener => listener(locale));
+};
+
+export const subscribeToLocale = (listener: (locale: Locale) => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+/** Nome do idioma escrito no idioma da interface (ex.: "inglês" em pt-BR, "English" em en). */
+export const getLanguageName = (language: OutputLanguage, locale: Locale = currentLocale): string => {
+    try {
+        const name = new Intl.DisplayNames([locale], { type: 'language' }).of(language) ?? language;
+        return name.charAt(0).toLocaleUpperCase(locale) + name.slice(1);
+    } catch {
+        return language;
+    }
+};
+
+/** Abreviação curta do idioma para selos e botões (PT, EN, ES...). */
+export const getLanguageCode = (language: OutputLanguage): string => language.split('-')[0].toUpperCase();
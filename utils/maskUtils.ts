@@ -0,0 +1,66 @@
+import { loadImage } from './fileUtils';
+
+// Suaviza a borda da máscara (fração do maior lado da imagem) para a emenda não ficar visível.
+const MASK_FEATHER_RATIO = 0.004;
+
+const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context');
+    }
+    return { canvas, ctx };
+};
+
+const toBase64Png = (canvas: HTMLCanvasElement): string => canvas.toDataURL('image/png').split(',')[1];
+
+/**
+ * Converte a máscara pintada pelo usuário (qualquer cor sobre fundo transparente) para o formato
+ * que o modelo entende: branco onde editar, preto onde manter.
+ */
+export const createModelMask = async (maskBase64: string): Promise<string> => {
+    const mask = await loadImage(`data:image/png;base64,${maskBase64}`);
+    const { canvas, ctx } = createCanvas(mask.width, mask.height);
+    ctx.drawImage(mask, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, mask.width, mask.height);
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, mask.width, mask.height);
+    return toBase64Png(canvas);
+};
+
+/**
+ * Aplica a edição apenas dentro da máscara: a imagem editada é ajustada ao tamanho do original,
+ * recortada pela máscara (com a borda suavizada para dentro) e desenhada sobre o original. Fora da máscara os
+ * pixels são exatamente os do original. Retorna um PNG em base64.
+ */
+export const compositeMaskedEdit = async (
+    original: { base64: string; mimeType: string },
+    editedBase64: string,
+    maskBase64: string
+): Promise<string> => {
+    const [originalImage, editedImage, mask] = await Promise.all([
+        loadImage(`data:${original.mimeType};base64,${original.base64}`),
+        loadImage(`data:image/png;base64,${editedBase64}`),
+        loadImage(`data:image/png;base64,${maskBase64}`),
+    ]);
+    const { width, height } = originalImage;
+
+    const { canvas: editedLayer, ctx: layerCtx } = createCanvas(width, height);
+    layerCtx.drawImage(editedImage, 0, 0, width, height);
+    layerCtx.globalCompositeOperation = 'destination-in';
+    layerCtx.filter = `blur(${Math.max(1, Math.round(Math.max(width, height) * MASK_FEATHER_RATIO))}px)`;
+    layerCtx.drawImage(mask, 0, 0, width, height);
+    // A suavização fica só para dentro da máscara: o recorte nítido garante que nada vaze para fora.
+    layerCtx.filter = 'none';
+    layerCtx.drawImage(mask, 0, 0, width, height);
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(originalImage, 0, 0);
+    ctx.drawImage(editedLayer, 0, 0);
+    return toBase64Png(canvas);
+};
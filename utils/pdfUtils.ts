@@ -0,0 +1,102 @@
+export interface PdfImagePage {
+    jpeg: Uint8Array; // imagem JPEG que ocupa a página inteira
+    pixelWidth: number;
+    pixelHeight: number;
+}
+
+export interface PdfMetadata {
+    title?: string;
+    subject?: string;
+    author?: string;
+}
+
+// A4 em pontos (1/72 de polegada).
+const A4_WIDTH_PT = 595.28;
+const A4_HEIGHT_PT = 841.89;
+
+/** Strings de texto do PDF em UTF-16BE com BOM, para preservar a acentuação nos metadados. */
+const toPdfTextString = (value: string): string => {
+    let hex = 'FEFF';
+    for (let i = 0; i < value.length; i++) {
+        hex += value.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+    }
+    return `<${hex}>`;
+};
+
+const toPdfDate = (date: Date): string => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `(D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z)`;
+};
+
+/**
+ * Monta um PDF no navegador em que cada página A4 é uma imagem JPEG (filtro DCTDecode).
+ * O texto já vem desenhado nas imagens, então não é preciso embutir fontes.
+ * @returns Um Blob `application/pdf` pronto para download.
+ */
+export const createImagePdf = (pages: PdfImagePage[], metadata: PdfMetadata = {}): Blob => {
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (chunk: string | Uint8Array) => {
+        const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+        parts.push(bytes);
+        length += bytes.length;
+    };
+    const beginObject = (id: number) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n`);
+    };
+
+    // Objetos fixos: 1 catálogo, 2 árvore de páginas, 3 informações. Cada página usa três objetos a seguir.
+    const pageObjectId = (index: number) => 4 + index * 3;
+    const objectCount = 3 + pages.length * 3;
+
+    write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+    beginObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+    beginObject(2);
+    write(`<< /Type /Pages /Kids [${pages.map((_, index) => `${pageObjectId(index)} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+    beginObject(3);
+    const info = [
+        metadata.title ? `/Title ${toPdfTextString(metadata.title)}` : '',
+        metadata.subject ? `/Subject ${toPdfTextString(metadata.subject)}` : '',
+        metadata.author ? `/Author ${toPdfTextString(metadata.author)}` : '',
+        `/CreationDate ${toPdfDate(new Date())}`,
+    ].filter(Boolean).join(' ');
+    write(`<< ${info} >>\nendobj\n`);
+
+    pages.forEach((page, index) => {
+        const pageId = pageObjectId(index);
+        const contentId = pageId + 1;
+        const imageId = pageId + 2;
+        // A imagem é ajustada à largura da página A4, mantendo a proporção.
+        const width = A4_WIDTH_PT;
+        const height = Math.min(A4_HEIGHT_PT, A4_WIDTH_PT * page.pixelHeight / page.pixelWidth);
+        const content = `q ${width.toFixed(2)} 0 0 ${height.toFixed(2)} 0 ${(A4_HEIGHT_PT - height).toFixed(2)} cm /Im0 Do Q`;
+
+        beginObject(pageId);
+        write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH_PT} ${A4_HEIGHT_PT}] /Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+
+        beginObject(contentId);
+        write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+        beginObject(imageId);
+        write(`<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+        write(page.jpeg);
+        write('\nendstream\nendobj\n');
+    });
+
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+    for (let id = 1; id <= objectCount; id++) {
+        write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(parts as BlobPart[], { type: 'application/pdf' });
+};
@@ -0,0 +1,96 @@
+import type { AspectRatio, BrandKit, Platform, Post, PostLayout, SafeZone, StructuredText } from '../types';
+import { formatPostCaption } from './captionUtils';
+import { isTextOutsideSafeZone } from './fileUtils';
+
+export interface TextLimits {
+    headline: number; // caracteres do título sobre a imagem
+    caption: number; // caracteres da legenda completa (texto + hashtags)
+    hashtags: number;
+}
+
+export interface PlatformPreset {
+    aspectRatio: AspectRatio;
+    size: { width: number; height: number }; // tamanho da imagem exportada, em pixels
+    safeZone: SafeZone;
+    limits: TextLimits;
+}
+
+export const PLATFORMS: Platform[] = ['instagram-feed', 'instagram-story', 'linkedin', 'x', 'facebook', 'pinterest', 'tiktok-cover'];
+
+export const DEFAULT_PLATFORM: Platform = 'instagram-feed';
+
+// Limites de legenda e hashtags são os das próprias redes; o do título é o que ainda cabe legível sobre a imagem.
+export const PLATFORM_PRESETS: Record<Platform, PlatformPreset> = {
+    'instagram-feed': {
+        aspectRatio: '4:5',
+        size: { width: 1080, height: 1350 },
+        safeZone: { top: 0.03, right: 0.04, bottom: 0.03, left: 0.04 }, // o perfil mostra um recorte 3:4
+        limits: { headline: 60, caption: 2200, hashtags: 30 },
+    },
+    'instagram-story': {
+        aspectRatio: '9:16',
+        size: { width: 1080, height: 1920 },
+        safeZone: { top: 0.14, right: 0.05, bottom: 0.2, left: 0.05 }, // barra de progresso no topo, resposta na base
+        limits: { headline: 45, caption: 2200, hashtags: 10 },
+    },
+    'linkedin': {
+        aspectRatio: '1:1',
+        size: { width: 1200, height: 1200 },
+        safeZone: { top: 0.03, right: 0.03, bottom: 0.03, left: 0.03 },
+        limits: { headline: 70, caption: 3000, hashtags: 5 },
+    },
+    'x': {
+        aspectRatio: '16:9',
+        size: { width: 1600, height: 900 },
+        safeZone: { top: 0.04, right: 0.04, bottom: 0.04, left: 0.04 },
+        limits: { headline: 60, caption: 280, hashtags: 3 },
+    },
+    'facebook': {
+        aspectRatio: '4:5',
+        size: { width: 1080, height: 1350 },
+        safeZone: { top: 0.03, right: 0.03, bottom: 0.03, left: 0.03 },
+        limits: { headline: 70, caption: 63206, hashtags: 10 },
+    },
+    'pinterest': {
+        aspectRatio: '2:3',
+        size: { width: 1000, height: 1500 },
+        safeZone: { top: 0.04, right: 0.04, bottom: 0.1, left: 0.04 }, // botões do pin no canto inferior
+        limits: { headline: 60, caption: 500, hashtags: 20 },
+    },
+    'tiktok-cover': {
+        aspectRatio: '9:16',
+        size: { width: 1080, height: 1920 },
+        safeZone: { top: 0.12, right: 0.15, bottom: 0.25, left: 0.05 }, // ícones à direita, legenda e música na base
+        limits: { headline: 40, caption: 4000, hashtags: 10 },
+    },
+};
+
+/** Plataforma de projetos salvos antes dos presets: a primeira com a mesma proporção. */
+export const platformForAspectRatio = (aspectRatio: AspectRatio): Platform =>
+    PLATFORMS.find(platform => PLATFORM_PRESETS[platform].aspectRatio === aspectRatio) ?? DEFAULT_PLATFORM;
+
+/** Preset do post; posts antigos, sem plataforma, seguem exportados no tamanho da imagem e sem validação. */
+export const getPostPreset = (post: Post): PlatformPreset | null => post.platform ? PLATFORM_PRESETS[post.platform] : null;
+
+export type TextWarning =
+    | { kind: 'headline' | 'caption' | 'hashtags'; count: number; limit: number }
+    | { kind: 'safeZone' };
+
+/** Campos acima do limite da plataforma e texto sobre a imagem fora da zona segura. */
+export const getTextWarnings = (text: StructuredText, preset: PlatformPreset, brandKit: BrandKit, layout: PostLayout): TextWarning[] => {
+    const warnings: TextWarning[] = [];
+    const counts = {
+        headline: text.headline.length,
+        caption: formatPostCaption(text).length,
+        hashtags: text.hashtags?.length ?? 0,
+    };
+    for (const kind of ['headline', 'caption', 'hashtags'] as const) {
+        if (counts[kind] > preset.limits[kind]) {
+            warnings.push({ kind, count: counts[kind], limit: preset.limits[kind] });
+        }
+    }
+    if (isTextOutsideSafeZone(text, { brandKit, layout, size: preset.size, safeZone: preset.safeZone })) {
+        warnings.push({ kind: 'safeZone' });
+    }
+    return warnings;
+};
@@ -0,0 +1,8 @@
+import type { PostLayout } from '../types';
+
+export const DEFAULT_POST_LAYOUT: PostLayout = 'bottom-left';
+
+export const POST_LAYOUTS: PostLayout[] = ['bottom-left', 'centered', 'top-headline', 'split', 'minimal'];
+
+/** Fração da largura ocupada pelo bloco de texto sólido no layout 'split'. */
+export const SPLIT_PANEL_RATIO = 0.45;
@@ -0,0 +1,42 @@
+import type { ImageVersion, Post } from '../types';
+
+/** Retorna o histórico de versões do post, criando a versão original se ainda não existir. */
+export const getVersions = (post: Post): ImageVersion[] =>
+    post.versions && post.versions.length > 0
+        ? post.versions
+        : [{ id: `${post.id}-original`, image: post.image, mimeType: post.imageMimeType, prompt: null, parentId: null, createdAt: 0 }];
+
+export const getActiveVersion = (post: Post): ImageVersion => {
+    const versions = getVersions(post);
+    return versions.find(v => v.id === post.activeVersionId) ?? versions[versions.length - 1];
+};
+
+/**
+ * Acrescenta uma nova versão derivada da versão ativa e a torna ativa. Versões anteriores
+ * nunca são descartadas, então editar a partir de uma versão antiga cria um novo ramo.
+ */
+export const addVersion = (post: Post, image: string, mimeType: string, prompt: string): Post => {
+    const versions = getVersions(post);
+    const parent = getActiveVersion(post);
+    const version: ImageVersion = { id: crypto.randomUUID(), image, mimeType, prompt, parentId: parent.id, createdAt: Date.now() };
+    return { ...post, image, imageMimeType: mimeType, versions: [...versions, version], activeVersionId: version.id };
+};
+
+export const selectVersion = (post: Post, versionId: string): Post => {
+    const version = getVersions(post).find(v => v.id === versionId);
+    if (!version) return post;
+    return { ...post, image: version.image, imageMimeType: version.mimeType, versions: getVersions(post), activeVersionId: version.id };
+};
+
+/** Desfazer volta para a versão da qual a ativa foi derivada. */
+export const getUndoTarget = (post: Post): ImageVersion | null => {
+    const active = getActiveVersion(post);
+    return getVersions(post).find(v => v.id === active.parentId) ?? null;
+};
+
+/** Refazer avança para a derivação mais recente da versão ativa. */
+export const getRedoTarget = (post: Post): ImageVersion | null => {
+    const active = getActiveVersion(post);
+    const children = getVersions(post).filter(v => v.parentId === active.id);
+    return children.length > 0 ? children[children.length - 1] : null;
+};